@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import CalendarSource from '@/lib/models/CalendarSource';
+import User from '@/lib/models/User';
+import { createCalDavProvider } from '@/lib/caldav';
+import { encryptSecret } from '@/lib/encryption';
+import { ProviderCalendar } from '@/lib/calendarSync';
+import { caldavAccountSchema } from '@/lib/validation';
+
+// The connected CalDAV server, without the password
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const user = await User.findById(session.user.id).select('caldavAccount');
+    const account = user?.caldavAccount;
+
+    return NextResponse.json(account?.serverUrl
+      ? { connected: true, serverUrl: account.serverUrl, username: account.username }
+      : { connected: false, serverUrl: null, username: null });
+  } catch (error) {
+    console.error('Error fetching CalDAV connection:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Connects a CalDAV server. The credentials are checked by discovering the
+// user's calendars, which are then all enabled for sync.
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const account = caldavAccountSchema.parse(await request.json());
+
+    let calendars: ProviderCalendar[];
+    try {
+      calendars = await createCalDavProvider(account).listCalendars();
+    } catch (connectError) {
+      console.error('Error connecting to CalDAV server:', connectError);
+      return NextResponse.json(
+        { error: 'Could not connect to the CalDAV server. Check the URL and credentials.' },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const userId = session.user.id;
+    await User.findByIdAndUpdate(userId, {
+      $set: { caldavAccount: { ...account, password: encryptSecret(account.password) } },
+    });
+
+    // Calendars from a previously connected server no longer exist
+    await CalendarSource.deleteMany({
+      userId,
+      provider: 'caldav',
+      calendarId: { $nin: calendars.map((calendar) => calendar.calendarId) },
+    });
+    await Promise.all(calendars.map((calendar) => CalendarSource.updateOne(
+      { userId, provider: 'caldav', calendarId: calendar.calendarId },
+      {
+        $set: { name: calendar.name },
+        $setOnInsert: { userId, provider: 'caldav', calendarId: calendar.calendarId, enabled: true },
+      },
+      { upsert: true }
+    )));
+
+    return NextResponse.json({
+      message: 'CalDAV server connected successfully',
+      serverUrl: account.serverUrl,
+      username: account.username,
+      calendars,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error connecting CalDAV server:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Disconnects the CalDAV server. Entries synced from it stay in the logs.
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    await User.findByIdAndUpdate(session.user.id, { $set: { caldavAccount: null } });
+    await CalendarSource.deleteMany({ userId: session.user.id, provider: 'caldav' });
+
+    return NextResponse.json({ message: 'CalDAV server disconnected' });
+  } catch (error) {
+    console.error('Error disconnecting CalDAV server:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
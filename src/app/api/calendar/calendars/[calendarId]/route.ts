@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import CalendarSource from '@/lib/models/CalendarSource';
+import Project from '@/lib/models/Project';
+import { DEFAULT_CALENDAR_ID } from '@/lib/calendarSync';
+import { getCalendarProviders, GOOGLE_REVOKED_MESSAGE, NO_CALENDAR_MESSAGE } from '@/lib/calendarProviders';
+import { ensureTags } from '@/lib/tags';
+import { calendarProviderSchema, calendarSourceSchema } from '@/lib/validation';
+import { projectAccessFilter } from '@/lib/workspaces';
+
+type CalendarParams = { params: Promise<{ calendarId: string }> };
+
+// Creates or updates the import settings for one calendar. `?provider=caldav`
+// selects a CalDAV calendar; Google is the default. The calendar must be one
+// the provider lists, since syncs fetch whatever calendarId is stored (for
+// CalDAV a URL, requested with the user's credentials).
+export async function PATCH(request: NextRequest, { params }: CalendarParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const calendarId = decodeURIComponent((await params).calendarId);
+    const provider = calendarProviderSchema.parse(new URL(request.url).searchParams.get('provider') || 'google');
+    const updates = calendarSourceSchema.parse(await request.json());
+
+    await connectDB();
+
+    const userId = session.user.id;
+    const rules = updates.rules;
+
+    // The implicit primary Google calendar is never listed under that id
+    if (provider !== 'google' || calendarId !== DEFAULT_CALENDAR_ID) {
+      const connection = await getCalendarProviders(userId);
+      if (connection.status === 'revoked') {
+        return NextResponse.json({ error: GOOGLE_REVOKED_MESSAGE, needsReauth: true }, { status: 401 });
+      }
+      if (connection.status === 'not_connected') {
+        return NextResponse.json({ error: NO_CALENDAR_MESSAGE }, { status: 400 });
+      }
+
+      const calendarProvider = connection.providers.filter((candidate) => candidate.name === provider)[0];
+      const calendars = calendarProvider ? await calendarProvider.listCalendars() : [];
+      if (!calendars.some((calendar) => calendar.calendarId === calendarId)) {
+        return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+      }
+    }
+
+    if (rules?.projectId && !(await Project.exists({ _id: rules.projectId, ...(await projectAccessFilter(userId, 'trackTime')) }))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 400 });
+    }
+
+    // The primary calendar is synced implicitly until something is configured;
+    // keep it that way once the first calendar gets settings
+    if (provider === 'google' && !(await CalendarSource.exists({ userId, provider: 'google' }))) {
+      await CalendarSource.updateOne(
+        { userId, provider: 'google', calendarId: DEFAULT_CALENDAR_ID },
+        { $setOnInsert: { userId, provider: 'google', calendarId: DEFAULT_CALENDAR_ID, name: 'Primary' } },
+        { upsert: true }
+      );
+    }
+
+    const $set: Record<string, unknown> = {};
+    if (updates.name !== undefined) $set.name = updates.name;
+    if (updates.enabled !== undefined) $set.enabled = updates.enabled;
+
+    if (rules) {
+      (Object.keys(rules) as (keyof typeof rules)[]).forEach((field) => {
+        if (rules[field] !== undefined) {
+          $set[`rules.${field}`] = rules[field];
+        }
+      });
+
+      // New rules apply to already imported events too, which needs a full sync
+      $set.syncToken = null;
+      $set.syncedFrom = null;
+      $set.syncedTo = null;
+    }
+
+    const source = await CalendarSource.findOneAndUpdate(
+      { userId, provider, calendarId },
+      { $set, $setOnInsert: { userId, provider, calendarId } },
+      { upsert: true, new: true, runValidators: true }
+    );
+
+    await ensureTags(userId, rules?.tags);
+
+    return NextResponse.json(source);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating calendar settings:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
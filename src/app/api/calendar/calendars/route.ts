@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import CalendarSource, { ICalendarSource } from '@/lib/models/CalendarSource';
+import { getCalendarProviders, GOOGLE_REVOKED_MESSAGE, NO_CALENDAR_MESSAGE } from '@/lib/calendarProviders';
+
+const DEFAULT_RULES = {
+  skipAllDay: false,
+  skipDeclined: false,
+  skipTitlePattern: null,
+  projectId: null,
+  tags: [],
+};
+
+// The user's calendars from every connected provider with their import settings
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const connection = await getCalendarProviders(session.user.id);
+    if (connection.status === 'revoked') {
+      return NextResponse.json({ error: GOOGLE_REVOKED_MESSAGE, needsReauth: true }, { status: 401 });
+    }
+    if (connection.status === 'not_connected') {
+      return NextResponse.json({ error: NO_CALENDAR_MESSAGE }, { status: 400 });
+    }
+
+    const sources: ICalendarSource[] = await CalendarSource.find({ userId: session.user.id });
+    let calendars: object[] = [];
+
+    for (const provider of connection.providers) {
+      const providerSources = sources.filter((source) => source.provider === provider.name);
+
+      calendars = calendars.concat((await provider.listCalendars()).map((item) => {
+        const source = providerSources.filter((candidate) => candidate.calendarId === item.calendarId)[0];
+
+        return {
+          ...item,
+          provider: provider.name,
+          // Until anything is configured only the primary Google calendar is synced
+          enabled: source ? source.enabled : item.primary && providerSources.length === 0,
+          rules: source ? source.rules : DEFAULT_RULES,
+          lastSyncedAt: source?.lastSyncedAt || null,
+        };
+      }));
+    }
+
+    return NextResponse.json(calendars);
+  } catch (error) {
+    console.error('Error fetching calendars:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
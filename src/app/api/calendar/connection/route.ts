@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import { disconnectGoogle, getGoogleConnectionStatus } from '@/lib/googleTokens';
+
+// Whether Google Calendar is connected, and whether access was revoked
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    return NextResponse.json(await getGoogleConnectionStatus(session.user.id));
+  } catch (error) {
+    console.error('Error fetching Google connection:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Disconnects Google Calendar: revokes the grant at Google and deletes the
+// stored tokens and Google calendar settings. Synced entries are kept.
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    await disconnectGoogle(session.user.id);
+
+    return NextResponse.json({ message: 'Google Calendar disconnected' });
+  } catch (error) {
+    console.error('Error disconnecting Google Calendar:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,162 +1,118 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
+import { z } from 'zod';
 import { authOptions } from '@/lib/auth';
 import connectDB from '@/lib/mongodb';
-import Log from '@/lib/models/Log';
 import User from '@/lib/models/User';
-import { google } from 'googleapis';
-import { format, parseISO } from 'date-fns';
-
-export async function POST(request: NextRequest) {
+import { CalendarSyncResult, syncCalendars } from '@/lib/calendarSync';
+import { claimCalendarSync, recordCalendarSync, SYNC_INTERVAL_MINUTES } from '@/lib/calendarScheduler';
+import { getCalendarProviders, GOOGLE_REVOKED_MESSAGE, NO_CALENDAR_MESSAGE } from '@/lib/calendarProviders';
+import { isRevokedGrantError, markGoogleGrantRevoked } from '@/lib/googleTokens';
+import { findLogsInRange } from '@/lib/logQueries';
+import { getUserTimeZone } from '@/lib/users';
+import { calendarSyncSchema, dateRangeSchema } from '@/lib/validation';
+import { addDaysToKey, todayInTimeZone } from '@/utils/timezone';
+
+// Status of the user's last calendar sync, manual or scheduled
+export async function GET() {
   try {
     const session = await getServerSession(authOptions);
-    
+
     if (!session?.user?.id) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { date } = await request.json();
-    
-    if (!date) {
-      return NextResponse.json({ error: 'Date is required' }, { status: 400 });
-    }
-
     await connectDB();
 
-    // Check if user has Google tokens in session
-    if (!session.googleAccessToken) {
-      return NextResponse.json(
-        { error: 'Google account not connected. Please sign in with Google first.' },
-        { status: 400 }
-      );
-    }
-
-    // Check if we have a refresh token - if not, force re-authentication
-    if (!session.googleRefreshToken) {
-      return NextResponse.json(
-        { 
-          error: 'Google authentication needs to be refreshed. Please sign in with Google again to grant calendar access.',
-          needsReauth: true 
-        },
-        { status: 401 }
-      );
-    }
-
-    // Get user for database operations
-    const user = await User.findById(session.user.id);
-    console.log('User found:', user ? 'Yes' : 'No');
-    console.log('User ID:', session.user.id);
-    console.log('Session Google tokens:', session.googleAccessToken ? 'Present' : 'Missing');
-
-    // Set up Google Calendar API
-    const oauth2Client = new google.auth.OAuth2(
-      process.env.GOOGLE_CLIENT_ID,
-      process.env.GOOGLE_CLIENT_SECRET
-    );
+    const user = await User.findById(session.user.id).select('calendarSyncStatus');
+    const status = user?.calendarSyncStatus;
 
-    console.log('Setting OAuth credentials:', {
-      accessToken: session.googleAccessToken ? 'Present' : 'Missing',
-      refreshToken: session.googleRefreshToken ? 'Present' : 'Missing',
-      expiryDate: session.googleExpiryDate,
-      currentTime: Date.now(),
-      needsRefresh: session.googleExpiryDate && session.googleExpiryDate < Date.now()
+    return NextResponse.json({
+      status: status?.status || null,
+      trigger: status?.trigger || null,
+      lastRunAt: status?.lastRunAt || null,
+      lastSuccessAt: status?.lastSuccessAt || null,
+      error: status?.error || null,
+      entriesAdded: status?.entriesAdded || 0,
+      entriesUpdated: status?.entriesUpdated || 0,
+      entriesRemoved: status?.entriesRemoved || 0,
+      isRunning: !!status?.runningSince,
+      intervalMinutes: SYNC_INTERVAL_MINUTES,
     });
+  } catch (error) {
+    console.error('Error fetching calendar sync status:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
 
-    // Set credentials - only include refresh_token if it exists
-    const credentials: any = {
-      access_token: session.googleAccessToken,
-      expiry_date: session.googleExpiryDate,
-    };
-    
-    if (session.googleRefreshToken) {
-      credentials.refresh_token = session.googleRefreshToken;
-    }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
     
-    oauth2Client.setCredentials(credentials);
-
-    // Check if token needs refresh (only if we have a refresh token)
-    if (session.googleExpiryDate && session.googleExpiryDate < Date.now() && session.googleRefreshToken) {
-      console.log('Token expired, attempting refresh...');
-      try {
-        const { credentials } = await oauth2Client.refreshAccessToken();
-        console.log('Token refresh successful');
-        
-        // Update the oauth2Client with new credentials
-        oauth2Client.setCredentials(credentials);
-      } catch (refreshError) {
-        console.error('Error refreshing Google token:', refreshError);
-        return NextResponse.json(
-          { error: 'Failed to refresh Google token. Please sign in again.' },
-          { status: 401 }
-        );
-      }
-    } else if (session.googleExpiryDate && session.googleExpiryDate < Date.now() && !session.googleRefreshToken) {
-      console.log('Token expired but no refresh token available, proceeding anyway...');
-    } else {
-      console.log('Token is still valid, proceeding with calendar API call');
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+    const body = calendarSyncSchema.parse(await request.json().catch(() => ({})));
 
-    // Get events for the specified date
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+    await connectDB();
 
-    console.log('Making calendar API call for date:', date);
-    console.log('Time range:', {
-      start: startOfDay.toISOString(),
-      end: endOfDay.toISOString()
-    });
+    const connection = await getCalendarProviders(session.user.id);
+    if (connection.status === 'revoked') {
+      return NextResponse.json({ error: GOOGLE_REVOKED_MESSAGE, needsReauth: true }, { status: 401 });
+    }
+    if (connection.status === 'not_connected') {
+      return NextResponse.json({ error: NO_CALENDAR_MESSAGE }, { status: 400 });
+    }
 
-    const response = await calendar.events.list({
-      calendarId: 'primary',
-      timeMin: startOfDay.toISOString(),
-      timeMax: endOfDay.toISOString(),
-      singleEvents: true,
-      orderBy: 'startTime',
-    });
+    // Days are resolved in the user's zone
+    const timeZone = await getUserTimeZone(session.user.id);
+    const today = todayInTimeZone(timeZone);
+    const range = body.date
+      ? { from: body.date, to: body.date }
+      : dateRangeSchema.parse({ from: body.from || addDaysToKey(today, -6), to: body.to || today });
 
-    const events = response.data.items || [];
-    
-    // Convert Google Calendar events to log entries
-    const calendarEntries = events.map((event) => ({
-      type: 'calendar' as const,
-      startTime: event.start?.dateTime || event.start?.date || '',
-      endTime: event.end?.dateTime || event.end?.date || '',
-      title: event.summary || 'Untitled Event',
-      description: event.description || '',
-      sourceId: event.id,
-    }));
-
-    // Get existing log for the date
-    let log = await Log.findOne({ userId: session.user.id, date });
-    
-    if (!log) {
-      log = new Log({
-        userId: session.user.id,
-        date,
-        entries: [],
-      });
+    if (!(await claimCalendarSync(session.user.id))) {
+      return NextResponse.json(
+        { error: 'A calendar sync is already running. Please try again in a moment.' },
+        { status: 409 }
+      );
     }
 
-    // Remove existing calendar entries and add new ones
-    log.entries = log.entries.filter((entry: any) => entry.type !== 'calendar');
-    log.entries.push(...calendarEntries);
-
-    // Sort all entries by start time to maintain chronological order
-    log.entries.sort((a: any, b: any) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+    let result: CalendarSyncResult;
+    try {
+      result = await syncCalendars(connection.providers, session.user.id, timeZone, range);
+    } catch (syncError) {
+      // Access can be revoked between the token refresh and the sync itself
+      if (isRevokedGrantError(syncError)) {
+        await markGoogleGrantRevoked(session.user.id);
+        await recordCalendarSync(session.user.id, 'manual', { error: new Error(GOOGLE_REVOKED_MESSAGE) });
+        return NextResponse.json({ error: GOOGLE_REVOKED_MESSAGE, needsReauth: true }, { status: 401 });
+      }
 
-    await log.save();
+      await recordCalendarSync(session.user.id, 'manual', { error: syncError });
+      throw syncError;
+    }
+    await recordCalendarSync(session.user.id, 'manual', { result });
 
     return NextResponse.json({
       message: 'Calendar synced successfully',
-      entriesAdded: calendarEntries.length,
-      log,
+      mode: result.mode,
+      entriesAdded: result.added,
+      entriesUpdated: result.updated,
+      entriesRemoved: result.removed,
+      eventsSkipped: result.skipped,
+      dates: result.dates,
+      logs: await findLogsInRange(session.user.id, range.from, range.to),
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
     console.error('Error syncing calendar:', error);
     return NextResponse.json(
       { error: 'Failed to sync calendar' },
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Client from '@/lib/models/Client';
+import Project from '@/lib/models/Project';
+import { isDuplicateKeyError } from '@/lib/concurrency';
+import { updateClientSchema } from '@/lib/validation';
+
+type ClientParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: ClientParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid client id' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const client = await Client.findOne({ _id: id, userId: session.user.id });
+
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(client);
+  } catch (error) {
+    console.error('Error fetching client:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: ClientParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid client id' }, { status: 400 });
+    }
+
+    const updates = updateClientSchema.parse(await request.json());
+
+    await connectDB();
+
+    const client = await Client.findOneAndUpdate(
+      { _id: id, userId: session.user.id },
+      { $set: updates },
+      { new: true, runValidators: true }
+    );
+
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(client);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json({ error: 'A client with this name already exists' }, { status: 409 });
+    }
+
+    console.error('Error updating client:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: ClientParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid client id' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const client = await Client.findOneAndDelete({ _id: id, userId: session.user.id });
+
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    // Projects outlive their client; they just become unassigned
+    await Project.updateMany(
+      { userId: session.user.id, clientId: id },
+      { $set: { clientId: null } }
+    );
+
+    return NextResponse.json({ message: 'Client deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting client:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
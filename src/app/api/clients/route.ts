@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Client from '@/lib/models/Client';
+import { isDuplicateKeyError } from '@/lib/concurrency';
+import { clientSchema } from '@/lib/validation';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const includeArchived = searchParams.get('includeArchived') === 'true';
+
+    const clients = await Client.find({
+      userId: session.user.id,
+      ...(includeArchived ? {} : { archived: false }),
+    }).sort({ name: 1 });
+
+    return NextResponse.json(clients);
+  } catch (error) {
+    console.error('Error fetching clients:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const data = clientSchema.parse(await request.json());
+
+    await connectDB();
+
+    const client = await Client.create({ ...data, userId: session.user.id });
+
+    return NextResponse.json(client, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json({ error: 'A client with this name already exists' }, { status: 409 });
+    }
+
+    console.error('Error creating client:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { runScheduledCalendarSync } from '@/lib/calendarScheduler';
+
+// Compares in constant time so the secret can't be guessed from response times
+function isAuthorized(header: string | null, secret: string): boolean {
+  const given = Buffer.from(header || '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+// Called by a cron service (e.g. Vercel Cron) rather than a signed-in user, so
+// it authenticates with the shared CRON_SECRET instead of a session
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || !isAuthorized(request.headers.get('authorization'), secret)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const summary = await runScheduledCalendarSync();
+
+    return NextResponse.json({ message: 'Scheduled calendar sync finished', ...summary });
+  } catch (error) {
+    console.error('Error running scheduled calendar sync:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export const POST = GET;
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import { ILogEntry } from '@/lib/models/Log';
+import { buildIcs } from '@/lib/ics';
+import { findLogsInRange } from '@/lib/logQueries';
+import { getUserTimeZone } from '@/lib/users';
+import { dateRangeSchema } from '@/lib/validation';
+
+// The user's entries between `from` and `to` as an iCalendar feed
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { from, to } = dateRangeSchema.parse({
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+    });
+
+    await connectDB();
+
+    const timeZone = await getUserTimeZone(session.user.id);
+    const logs = await findLogsInRange(session.user.id, from, to);
+    const entries = logs
+      .slice()
+      .reverse()
+      .reduce<ILogEntry[]>((acc, log) => acc.concat(log.entries), []);
+
+    return new NextResponse(buildIcs(entries, timeZone), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="time-log-${from}-to-${to}.ics"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error exporting iCalendar feed:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import { createLogExportStream, EXPORT_CONTENT_TYPES } from '@/lib/logExport';
+import { parseTagsParam } from '@/lib/tags';
+import { getUserTimeZone } from '@/lib/users';
+import { exportQuerySchema } from '@/lib/validation';
+import { todayInTimeZone } from '@/utils/timezone';
+
+// Downloads the user's entries between `from` and `to` (both optional) as
+// CSV, TSV, JSON or Excel, streamed so any range can be exported
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { from, to, format } = exportQuerySchema.parse({
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      format: searchParams.get('format') || undefined,
+    });
+    const tags = parseTagsParam(searchParams.get('tags'));
+
+    await connectDB();
+
+    const timeZone = await getUserTimeZone(session.user.id);
+    const stream = await createLogExportStream(session.user.id, { from, to, tags }, format, timeZone);
+    const fileName = `time-log-${from || 'all'}-to-${to || todayInTimeZone(timeZone)}.${format}`;
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error exporting time logs:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
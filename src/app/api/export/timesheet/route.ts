@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import { buildTimesheet } from '@/lib/timesheet';
+import { renderTimesheetPdf } from '@/lib/timesheetPdf';
+import { timesheetQuerySchema } from '@/lib/validation';
+
+// A printable PDF timesheet for the week or month containing `date`,
+// optionally for a single project
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = timesheetQuerySchema.parse({
+      period: searchParams.get('period') || undefined,
+      date: searchParams.get('date'),
+      projectId: searchParams.get('projectId') || undefined,
+    });
+
+    await connectDB();
+
+    const timesheet = await buildTimesheet(session.user.id, query);
+
+    if (!timesheet) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const pdf = await renderTimesheetPdf(timesheet);
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="timesheet-${timesheet.from}-to-${timesheet.to}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error generating timesheet:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
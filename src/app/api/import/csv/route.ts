@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import { guessColumnMapping, readCsv, toImportCandidates } from '@/lib/csvImport';
+import { commitImport, ImportPlan, MAX_IMPORT_ROWS, MAX_PREVIEW_ROWS, planImport } from '@/lib/logImport';
+import { getUserTimeZone } from '@/lib/users';
+import { csvImportSchema } from '@/lib/validation';
+
+// Imports time entries from a CSV or TSV file. With `dryRun` (the default)
+// nothing is written and the response previews every row as new, duplicate or
+// invalid. A commit writes all new rows in one transaction; it is refused when
+// rows have errors unless `skipInvalidRows` is set.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = csvImportSchema.parse(await request.json());
+    const csv = readCsv(body.content, body.delimiter);
+
+    if (csv.headers.length === 0) {
+      return NextResponse.json({ error: 'The file has no header row' }, { status: 400 });
+    }
+    if (csv.records.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `Files can have at most ${MAX_IMPORT_ROWS} rows; split the file and import the parts` },
+        { status: 400 }
+      );
+    }
+
+    const mapping = body.mapping || guessColumnMapping(csv.headers);
+    const unknownColumns = Object.keys(mapping)
+      .map((field) => mapping[field as keyof typeof mapping])
+      .filter((header) => header && csv.headers.indexOf(header) === -1);
+    if (unknownColumns.length > 0) {
+      return NextResponse.json({ error: `Unknown column "${unknownColumns[0]}"` }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const userId = session.user.id;
+    const timeZone = await getUserTimeZone(userId);
+    const candidates = toImportCandidates(csv, mapping, timeZone);
+
+    const respond = (plan: ImportPlan, extra: Record<string, unknown>, status = 200) => NextResponse.json({
+      delimiter: csv.delimiter,
+      headers: csv.headers,
+      mapping,
+      summary: plan.summary,
+      newProjects: plan.newProjects,
+      rows: plan.rows.slice(0, MAX_PREVIEW_ROWS),
+      truncated: plan.rows.length > MAX_PREVIEW_ROWS,
+      ...extra,
+    }, { status });
+
+    const preview = await planImport(userId, candidates, timeZone);
+
+    if (body.dryRun) {
+      return respond(preview, { committed: false });
+    }
+
+    if (preview.summary.errors > 0 && !body.skipInvalidRows) {
+      return respond(preview, {
+        error: `${preview.summary.errors} row(s) could not be read. Fix them or skip invalid rows.`,
+        committed: false,
+      }, 400);
+    }
+
+    const result = await commitImport(userId, candidates, timeZone);
+
+    return respond(result, {
+      message: 'Import completed successfully',
+      committed: true,
+      entriesAdded: result.summary.new,
+      dates: result.dates,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error importing CSV file:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import { applyCalendarEvents, CalendarEvent, SyncTarget } from '@/lib/calendarSync';
+import { parseIcsEvents } from '@/lib/ics';
+import { getUserTimeZone } from '@/lib/users';
+import { dateRangeSchema } from '@/lib/validation';
+import { addDaysToKey, getDayBounds, todayInTimeZone } from '@/utils/timezone';
+
+// Largest accepted upload
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+// Imported events are grouped under their own calendar id so calendar syncs
+// never remove them
+const ICS_CALENDAR_ID = 'ics';
+
+// Accepts a multipart upload with a `file` field or a raw text/calendar body.
+// Events between `from` and `to` (default: the last 365 days) become entries;
+// re-importing the same file updates them instead of adding duplicates.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let text: string;
+    const contentType = request.headers.get('content-type') || '';
+
+    if (contentType.indexOf('multipart/form-data') !== -1) {
+      const file = (await request.formData()).get('file');
+      if (!file || typeof file === 'string') {
+        return NextResponse.json({ error: 'An .ics file is required' }, { status: 400 });
+      }
+      if (file.size > MAX_FILE_BYTES) {
+        return NextResponse.json({ error: 'File is too large (max 5 MB)' }, { status: 413 });
+      }
+      text = await file.text();
+    } else {
+      text = await request.text();
+      if (text.length > MAX_FILE_BYTES) {
+        return NextResponse.json({ error: 'File is too large (max 5 MB)' }, { status: 413 });
+      }
+    }
+
+    await connectDB();
+
+    const timeZone = await getUserTimeZone(session.user.id);
+    const { searchParams } = new URL(request.url);
+    const today = todayInTimeZone(timeZone);
+    const { from, to } = dateRangeSchema.parse({
+      from: searchParams.get('from') || addDaysToKey(today, -364),
+      to: searchParams.get('to') || today,
+    });
+
+    let events: CalendarEvent[];
+    try {
+      events = parseIcsEvents(text, getDayBounds(from, timeZone).start, getDayBounds(to, timeZone).end, timeZone);
+    } catch (parseError) {
+      console.error('Error parsing iCalendar file:', parseError);
+      return NextResponse.json({ error: 'Invalid iCalendar file' }, { status: 400 });
+    }
+
+    const target: SyncTarget = {
+      userId: session.user.id,
+      calendarId: ICS_CALENDAR_ID,
+      rules: { skipAllDay: false, skipDeclined: false, skipTitlePattern: null, projectId: null, tags: [] },
+    };
+    const result = await applyCalendarEvents(target, timeZone, events, null);
+
+    return NextResponse.json({
+      message: 'Calendar file imported successfully',
+      eventsFound: events.length,
+      entriesAdded: result.added,
+      entriesUpdated: result.updated,
+      entriesRemoved: result.removed,
+      dates: result.dates,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error importing iCalendar file:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
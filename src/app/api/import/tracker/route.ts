@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import { commitImport, ImportPlan, MAX_IMPORT_ROWS, MAX_PREVIEW_ROWS, planImport } from '@/lib/logImport';
+import { importTrackerExport } from '@/lib/trackerImport';
+import { getUserTimeZone } from '@/lib/users';
+import { trackerImportSchema } from '@/lib/validation';
+
+// Imports a Toggl Track, Clockify or Harvest export (CSV or JSON). Works like
+// the CSV import: a dry run previews every row, a commit writes the new rows
+// and any missing projects and clients in one transaction.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = trackerImportSchema.parse(await request.json());
+
+    await connectDB();
+
+    const userId = session.user.id;
+    const timeZone = await getUserTimeZone(userId);
+    const parsed = importTrackerExport(body.source, body.content, timeZone);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { candidates } = parsed;
+    if (candidates.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `Files can have at most ${MAX_IMPORT_ROWS} rows; export a shorter range and import the parts` },
+        { status: 400 }
+      );
+    }
+
+    const respond = (plan: ImportPlan, extra: Record<string, unknown>, status = 200) => NextResponse.json({
+      source: body.source,
+      summary: plan.summary,
+      newProjects: plan.newProjects,
+      rows: plan.rows.slice(0, MAX_PREVIEW_ROWS),
+      truncated: plan.rows.length > MAX_PREVIEW_ROWS,
+      ...extra,
+    }, { status });
+
+    const preview = await planImport(userId, candidates, timeZone);
+
+    if (body.dryRun) {
+      return respond(preview, { committed: false });
+    }
+
+    if (preview.summary.errors > 0 && !body.skipInvalidRows) {
+      return respond(preview, {
+        error: `${preview.summary.errors} row(s) could not be mapped. Fix them or skip invalid rows.`,
+        committed: false,
+      }, 400);
+    }
+
+    const result = await commitImport(userId, candidates, timeZone);
+
+    return respond(result, {
+      message: 'Import completed successfully',
+      committed: true,
+      entriesAdded: result.summary.new,
+      projectsCreated: result.newProjects.length,
+      dates: result.dates,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error importing tracker export:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
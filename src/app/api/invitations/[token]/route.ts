@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Workspace, { IWorkspace } from '@/lib/models/Workspace';
+import WorkspaceInvitation, { IWorkspaceInvitation } from '@/lib/models/WorkspaceInvitation';
+import User from '@/lib/models/User';
+import { hashInvitationToken } from '@/lib/workspaces';
+
+type InvitationParams = { params: Promise<{ token: string }> };
+
+// Expired invitations may linger until MongoDB's TTL monitor removes them
+async function findInvitation(token: string): Promise<IWorkspaceInvitation | null> {
+  return WorkspaceInvitation.findOne({
+    tokenHash: hashInvitationToken(token),
+    expiresAt: { $gt: new Date() },
+  });
+}
+
+// What the invitation is for, shown before accepting
+export async function GET(request: NextRequest, { params }: InvitationParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { token } = await params;
+
+    await connectDB();
+
+    const invitation = await findInvitation(token);
+    const workspace: IWorkspace | null = invitation ? await Workspace.findById(invitation.workspaceId).select('name') : null;
+
+    if (!invitation || !workspace) {
+      return NextResponse.json({ error: 'Invitation not found or expired' }, { status: 404 });
+    }
+
+    const inviter = await User.findById(invitation.invitedBy).select('name');
+
+    return NextResponse.json({
+      workspace: { _id: workspace._id, name: workspace.name },
+      email: invitation.email,
+      role: invitation.role,
+      invitedBy: inviter?.name || null,
+      expiresAt: invitation.expiresAt,
+    });
+  } catch (error) {
+    console.error('Error fetching invitation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Joins the workspace. The signed-in account must have the invited email.
+export async function POST(request: NextRequest, { params }: InvitationParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { token } = await params;
+
+    await connectDB();
+
+    const [invitation, user] = await Promise.all([
+      findInvitation(token),
+      User.findById(session.user.id).select('email'),
+    ]);
+
+    if (!invitation) {
+      return NextResponse.json({ error: 'Invitation not found or expired' }, { status: 404 });
+    }
+
+    if (!user || user.email.toLowerCase() !== invitation.email) {
+      return NextResponse.json(
+        { error: `This invitation is for ${invitation.email}. Sign in with that account to accept it.` },
+        { status: 403 }
+      );
+    }
+
+    // Someone who is already a member keeps their current role
+    const workspace = await Workspace.findOneAndUpdate(
+      { _id: invitation.workspaceId, 'members.userId': { $ne: session.user.id } },
+      { $push: { members: { userId: session.user.id, role: invitation.role, joinedAt: new Date() } } },
+      { new: true }
+    ) || await Workspace.findById(invitation.workspaceId);
+
+    await WorkspaceInvitation.deleteOne({ _id: invitation._id });
+
+    if (!workspace) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ _id: workspace._id, name: workspace.name });
+  } catch (error) {
+    console.error('Error accepting invitation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Invoice, { IInvoice } from '@/lib/models/Invoice';
+import { renderInvoiceHtml } from '@/lib/invoiceHtml';
+import { renderInvoicePdf } from '@/lib/invoicePdf';
+import { invoiceDocumentQuerySchema } from '@/lib/validation';
+
+type InvoiceParams = { params: Promise<{ id: string }> };
+
+// The invoice as a printable HTML page (`?format=html`, shown in the browser)
+// or a PDF download (`?format=pdf`)
+export async function GET(request: NextRequest, { params }: InvoiceParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid invoice id' }, { status: 400 });
+    }
+
+    const { format } = invoiceDocumentQuerySchema.parse({
+      format: new URL(request.url).searchParams.get('format') || undefined,
+    });
+
+    await connectDB();
+
+    const invoice: IInvoice | null = await Invoice.findOne({ _id: id, userId: session.user.id });
+
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    if (format === 'html') {
+      return new NextResponse(renderInvoiceHtml(invoice), {
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+
+    const pdf = await renderInvoicePdf(invoice);
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="invoice-${invoice.number}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error rendering invoice:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Invoice, { IInvoice } from '@/lib/models/Invoice';
+import { releaseInvoiceEntries } from '@/lib/invoices';
+
+type InvoiceParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: InvoiceParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid invoice id' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const invoice = await Invoice.findOne({ _id: id, userId: session.user.id });
+
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(invoice);
+  } catch (error) {
+    console.error('Error fetching invoice:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Voids the invoice and releases its entries so they can be billed again.
+// The invoice is kept, marked void, so its number is never reused.
+export async function DELETE(request: NextRequest, { params }: InvoiceParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid invoice id' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const invoice: IInvoice | null = await Invoice.findOneAndUpdate(
+      { _id: id, userId: session.user.id, status: 'issued' },
+      { $set: { status: 'void', voidedAt: new Date() } },
+      { new: true }
+    );
+
+    if (!invoice) {
+      const exists = await Invoice.exists({ _id: id, userId: session.user.id });
+      return exists
+        ? NextResponse.json({ error: 'Invoice is already void' }, { status: 409 })
+        : NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+
+    await releaseInvoiceEntries(session.user.id, invoice._id as mongoose.Types.ObjectId);
+
+    return NextResponse.json(invoice);
+  } catch (error) {
+    console.error('Error voiding invoice:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Client, { IClient } from '@/lib/models/Client';
+import { previewInvoice } from '@/lib/invoices';
+import { invoiceSchema } from '@/lib/validation';
+
+// The lines an invoice would get, without creating it or marking entries
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { clientId, ...options } = invoiceSchema.parse(await request.json());
+
+    await connectDB();
+
+    const client: IClient | null = await Client.findOne({ _id: clientId, userId: session.user.id });
+
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    const preview = await previewInvoice(session.user.id, client, options);
+
+    if (!preview) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error previewing invoice:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
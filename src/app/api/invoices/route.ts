@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Client, { IClient } from '@/lib/models/Client';
+import Invoice from '@/lib/models/Invoice';
+import { createInvoice } from '@/lib/invoices';
+import { invoiceSchema } from '@/lib/validation';
+
+// Invoices, newest first (`?clientId=` for one client)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const clientId = new URL(request.url).searchParams.get('clientId');
+
+    if (clientId && !mongoose.isValidObjectId(clientId)) {
+      return NextResponse.json({ error: 'Invalid client id' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const invoices = await Invoice.find({ userId: session.user.id, ...(clientId ? { clientId } : {}) })
+      .sort({ createdAt: -1 })
+      .select('-lines');
+
+    return NextResponse.json(invoices);
+  } catch (error) {
+    console.error('Error fetching invoices:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Bills the client's uninvoiced billable entries in the range and marks them invoiced
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { clientId, ...options } = invoiceSchema.parse(await request.json());
+
+    await connectDB();
+
+    const client: IClient | null = await Client.findOne({ _id: clientId, userId: session.user.id });
+
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+    }
+
+    const invoice = await createInvoice(session.user.id, client, options);
+
+    if (!invoice) {
+      return NextResponse.json(
+        { error: 'There are no uninvoiced billable entries for this client in the selected range' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(invoice, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating invoice:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Log, { ILogEntry } from '@/lib/models/Log';
+import { getUserDayPreferences } from '@/lib/users';
+import { logDateSchema } from '@/lib/validation';
+import { analyzeDay } from '@/utils/intervals';
+
+// Overlapping entries and untracked gaps within working hours for one day
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { date } = await params;
+    logDateSchema.parse(date);
+
+    await connectDB();
+
+    const { timeZone, workingHours } = await getUserDayPreferences(session.user.id);
+    const log = await Log.findOne({ userId: session.user.id, date });
+
+    const entries = (log?.entries || []).map((entry: ILogEntry & { _id: unknown }) => ({
+      _id: String(entry._id),
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      title: entry.title,
+    }));
+
+    return NextResponse.json(analyzeDay(date, entries, timeZone, workingHours));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error analyzing log:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,210 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Log, { ILogEntry } from '@/lib/models/Log';
+import Project from '@/lib/models/Project';
+import { isLocallyModified } from '@/lib/calendarSync';
+import { toETag, versionConflictResponse } from '@/lib/concurrency';
+import { changesInvoicedFields, invoicedEntryResponse } from '@/lib/invoices';
+import { ensureTags } from '@/lib/tags';
+import { findLockingTimesheetForEntries, weekLockedResponse } from '@/lib/timesheetApproval';
+import { getUserTimeZone } from '@/lib/users';
+import { projectAccessFilter } from '@/lib/workspaces';
+import { isValidTimeRange, logDateSchema, updateLogEntrySchema } from '@/lib/validation';
+
+type EntryParams = { params: Promise<{ date: string; entryId: string }> };
+
+export async function PATCH(request: NextRequest, { params }: EntryParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { date, entryId } = await params;
+    logDateSchema.parse(date);
+
+    if (!mongoose.isValidObjectId(entryId)) {
+      return NextResponse.json({ error: 'Invalid entry id' }, { status: 400 });
+    }
+
+    const updates = updateLogEntrySchema.parse(await request.json());
+
+    await connectDB();
+
+    if (updates.projectId && !(await Project.exists({ _id: updates.projectId, ...(await projectAccessFilter(session.user.id, 'trackTime')) }))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 400 });
+    }
+
+    const log = await Log.findOne(
+      { userId: session.user.id, date, 'entries._id': entryId },
+      { 'entries.$': 1 }
+    );
+    const current: ILogEntry | undefined = log?.entries[0];
+
+    if (!current) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
+    const startTime = updates.startTime ?? current.startTime;
+    const endTime = updates.endTime ?? current.endTime;
+
+    if (!isValidTimeRange(startTime, endTime)) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          details: [{ path: ['endTime'], message: 'End time must be after start time' }],
+        },
+        { status: 400 }
+      );
+    }
+
+    // Both the old and the new times may reach into a locked week
+    const timeZone = await getUserTimeZone(session.user.id);
+    const lockingTimesheet = await findLockingTimesheetForEntries(
+      session.user.id,
+      date,
+      [current, { startTime, endTime }],
+      timeZone
+    );
+    if (lockingTimesheet) {
+      return weekLockedResponse(lockingTimesheet);
+    }
+
+    if (current.invoiceId && changesInvoicedFields(current, updates, timeZone)) {
+      return invoicedEntryResponse(current);
+    }
+
+    const $set: Record<string, unknown> = {};
+    (Object.keys(updates) as (keyof typeof updates)[]).forEach((field) => {
+      // Synced entries stay calendar entries so re-syncs can find them
+      if (updates[field] !== undefined && !(field === 'type' && current.sourceId)) {
+        $set[`entries.$.${field}`] = updates[field];
+      }
+    });
+
+    // Remember whether a synced entry now differs from its calendar event
+    if (current.sourceId) {
+      // Entries synced before snapshots existed take their pre-edit values as the snapshot
+      const original = current.original || (current.type === 'calendar' ? {
+        startTime: current.startTime,
+        endTime: current.endTime,
+        title: current.title,
+        description: current.description,
+      } : null);
+      if (!current.original && original) {
+        $set['entries.$.original'] = original;
+      }
+
+      const edited = {
+        type: current.type,
+        original,
+        startTime,
+        endTime,
+        title: updates.title ?? current.title,
+        description: updates.description ?? current.description,
+      } as ILogEntry;
+      $set['entries.$.locallyModified'] = isLocallyModified(edited, timeZone);
+    }
+
+    // Only apply the update if the time range and invoice we checked against are still current
+    const updatedLog = await Log.findOneAndUpdate(
+      {
+        userId: session.user.id,
+        date,
+        entries: {
+          $elemMatch: {
+            _id: entryId,
+            startTime: current.startTime,
+            endTime: current.endTime,
+            invoiceId: current.invoiceId || null,
+          },
+        },
+      },
+      { $set, $inc: { version: 1 } },
+      { new: true, runValidators: true }
+    );
+
+    if (!updatedLog) {
+      const serverLog = await Log.findOne({ userId: session.user.id, date });
+      return versionConflictResponse(serverLog, date);
+    }
+
+    await ensureTags(session.user.id, updates.tags);
+
+    const entry = updatedLog.entries.find((e: { _id: mongoose.Types.ObjectId }) => e._id.equals(entryId));
+
+    return NextResponse.json(
+      { entry, log: updatedLog },
+      { headers: { ETag: toETag(updatedLog.version) } }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating log entry:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: EntryParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { date, entryId } = await params;
+
+    if (!mongoose.isValidObjectId(entryId)) {
+      return NextResponse.json({ error: 'Invalid entry id' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const existing = await Log.findOne(
+      { userId: session.user.id, date, 'entries._id': entryId },
+      { 'entries.$': 1 }
+    );
+    const timeZone = await getUserTimeZone(session.user.id);
+    const lockingTimesheet = await findLockingTimesheetForEntries(session.user.id, date, existing?.entries || [], timeZone);
+    if (lockingTimesheet) {
+      return weekLockedResponse(lockingTimesheet);
+    }
+
+    const log = await Log.findOneAndUpdate(
+      { userId: session.user.id, date, entries: { $elemMatch: { _id: entryId, invoiceId: null } } },
+      { $pull: { entries: { _id: entryId } }, $inc: { version: 1 } },
+      { new: true }
+    );
+
+    if (!log) {
+      const invoiced = await Log.findOne(
+        { userId: session.user.id, date, 'entries._id': entryId },
+        { 'entries.$': 1 }
+      );
+      if (invoiced) {
+        return invoicedEntryResponse(invoiced.entries[0]);
+      }
+
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { message: 'Entry deleted successfully', log },
+      { headers: { ETag: toETag(log.version) } }
+    );
+  } catch (error) {
+    console.error('Error deleting log entry:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Log from '@/lib/models/Log';
+import Project from '@/lib/models/Project';
+import { toETag } from '@/lib/concurrency';
+import { ensureTags } from '@/lib/tags';
+import { findLockingTimesheetForEntries, weekLockedResponse } from '@/lib/timesheetApproval';
+import { getUserTimeZone } from '@/lib/users';
+import { projectAccessFilter } from '@/lib/workspaces';
+import { createLogEntrySchema, logDateSchema } from '@/lib/validation';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ date: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const date = logDateSchema.parse((await params).date);
+    const entry = createLogEntrySchema.parse(await request.json());
+
+    await connectDB();
+
+    const timeZone = await getUserTimeZone(session.user.id);
+    const lockingTimesheet = await findLockingTimesheetForEntries(session.user.id, date, [entry], timeZone);
+    if (lockingTimesheet) {
+      return weekLockedResponse(lockingTimesheet);
+    }
+
+    if (entry.projectId && !(await Project.exists({ _id: entry.projectId, ...(await projectAccessFilter(session.user.id, 'trackTime')) }))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 400 });
+    }
+
+    // $push keeps the write atomic so concurrent edits to other entries survive
+    const log = await Log.findOneAndUpdate(
+      { userId: session.user.id, date },
+      {
+        $push: { entries: entry },
+        $inc: { version: 1 },
+        $setOnInsert: { userId: session.user.id, date },
+      },
+      { upsert: true, new: true, runValidators: true }
+    );
+
+    const created = log.entries[log.entries.length - 1];
+    await ensureTags(session.user.id, entry.tags);
+
+    return NextResponse.json(
+      { entry: created, log },
+      { status: 201, headers: { ETag: toETag(log.version) } }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating log entry:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
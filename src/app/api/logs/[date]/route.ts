@@ -1,8 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
+import { z } from 'zod';
 import { authOptions } from '@/lib/auth';
 import connectDB from '@/lib/mongodb';
-import Log from '@/lib/models/Log';
+import Log, { ILogEntry } from '@/lib/models/Log';
+import {
+  parseIfMatch,
+  preconditionRequiredResponse,
+  replaceLogEntries,
+  toETag,
+  versionConflictResponse,
+  versionFilter,
+} from '@/lib/concurrency';
+import { invoicedEntryResponse, keepInvoicedEntries } from '@/lib/invoices';
+import { findLockingTimesheetForEntries, weekLockedResponse } from '@/lib/timesheetApproval';
+import { getUserTimeZone } from '@/lib/users';
+import { logDateSchema, replaceDayLogSchema } from '@/lib/validation';
 
 export async function GET(
   request: NextRequest,
@@ -23,7 +36,9 @@ export async function GET(
       date: date 
     });
 
-    return NextResponse.json(log || { date: date, entries: [] });
+    return NextResponse.json(log || { date: date, entries: [], version: 0 }, {
+      headers: { ETag: toETag(log?.version) },
+    });
   } catch (error) {
     console.error('Error fetching log:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -41,33 +56,60 @@ export async function PUT(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { date } = await params;
-    const { entries } = await request.json();
+    const date = logDateSchema.parse((await params).date);
+    const { entries } = replaceDayLogSchema.parse(await request.json());
 
-    if (!entries) {
-      return NextResponse.json({ error: 'Entries are required' }, { status: 400 });
+    const expectedVersion = parseIfMatch(request);
+    if (expectedVersion === null) {
+      return preconditionRequiredResponse();
     }
 
     // Sort entries by start time to maintain chronological order
-    const sortedEntries = entries.sort((a: any, b: any) => 
+    const sortedEntries = entries.sort((a, b) => 
       new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
     );
 
     await connectDB();
 
-    const log = await Log.findOneAndUpdate(
-      { userId: session.user.id, date: date },
-      { 
-        userId: session.user.id,
-        date: date,
-        entries: sortedEntries,
-        $setOnInsert: { createdAt: new Date() }
-      },
-      { upsert: true, new: true }
+    // Both the entries being replaced and their replacements may reach into a locked week
+    const current = await Log.findOne({ userId: session.user.id, date });
+    const timeZone = await getUserTimeZone(session.user.id);
+    const lockingTimesheet = await findLockingTimesheetForEntries(
+      session.user.id,
+      date,
+      (current?.entries || []).concat(sortedEntries),
+      timeZone
     );
+    if (lockingTimesheet) {
+      return weekLockedResponse(lockingTimesheet);
+    }
 
-    return NextResponse.json(log);
+    // Invoiced entries are checked against the version the write replaces
+    if ((current?.version || 0) !== expectedVersion) {
+      return versionConflictResponse(current, date);
+    }
+
+    const { entries: keptEntries, invoiced } = keepInvoicedEntries(current?.entries || [], sortedEntries, timeZone);
+    if (invoiced) {
+      return invoicedEntryResponse(invoiced);
+    }
+
+    const log = await replaceLogEntries(session.user.id, date, keptEntries, expectedVersion);
+
+    if (!log) {
+      const serverLog = await Log.findOne({ userId: session.user.id, date: date });
+      return versionConflictResponse(serverLog, date);
+    }
+
+    return NextResponse.json(log, { headers: { ETag: toETag(log.version) } });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
     console.error('Error updating log:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
@@ -85,13 +127,40 @@ export async function DELETE(
     }
 
     const { date } = await params;
+
+    const expectedVersion = parseIfMatch(request);
+    if (expectedVersion === null) {
+      return preconditionRequiredResponse();
+    }
+
     await connectDB();
 
-    await Log.findOneAndDelete({ 
+    const current = await Log.findOne({ userId: session.user.id, date });
+    const timeZone = await getUserTimeZone(session.user.id);
+    const lockingTimesheet = await findLockingTimesheetForEntries(session.user.id, date, current?.entries || [], timeZone);
+    if (lockingTimesheet) {
+      return weekLockedResponse(lockingTimesheet);
+    }
+
+    const invoiced = current?.entries.filter((entry: ILogEntry) => entry.invoiceId)[0];
+    if (invoiced) {
+      return invoicedEntryResponse(invoiced);
+    }
+
+    // The version check also catches entries invoiced since the lookup
+    const deleted = await Log.findOneAndDelete({ 
       userId: session.user.id, 
-      date: date 
+      date: date,
+      version: versionFilter(expectedVersion),
     });
 
+    if (!deleted) {
+      const serverLog = await Log.findOne({ userId: session.user.id, date: date });
+      if (serverLog) {
+        return versionConflictResponse(serverLog, date);
+      }
+    }
+
     return NextResponse.json({ message: 'Log deleted successfully' });
   } catch (error) {
     console.error('Error deleting log:', error);
@@ -1,9 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
+import { z } from 'zod';
 import { authOptions } from '@/lib/auth';
 import connectDB from '@/lib/mongodb';
-import Log from '@/lib/models/Log';
-import { format, subDays } from 'date-fns';
+import Log, { ILogEntry } from '@/lib/models/Log';
+import {
+  parseIfMatch,
+  preconditionRequiredResponse,
+  replaceLogEntries,
+  toETag,
+  versionConflictResponse,
+} from '@/lib/concurrency';
+import { matchesTags, parseTagsParam } from '@/lib/tags';
+import { findLogsInRange } from '@/lib/logQueries';
+import { invoicedEntryResponse, keepInvoicedEntries } from '@/lib/invoices';
+import { findLockingTimesheetForEntries, weekLockedResponse } from '@/lib/timesheetApproval';
+import { getUserTimeZone } from '@/lib/users';
+import { createDayLogSchema, dateRangeSchema } from '@/lib/validation';
+import { addDaysToKey, todayInTimeZone } from '@/utils/timezone';
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,6 +32,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const date = searchParams.get('date');
     const days = searchParams.get('days');
+    const tags = parseTagsParam(searchParams.get('tags'));
 
     if (date) {
       // Get logs for a specific date
@@ -25,33 +40,48 @@ export async function GET(request: NextRequest) {
         userId: session.user.id, 
         date 
       }).populate('userId', 'name email');
+
+      if (log && tags.length > 0) {
+        log.entries = log.entries.filter((entry: ILogEntry) => matchesTags(entry.tags, tags));
+      }
       
-      return NextResponse.json(log || { date, entries: [] });
+      return NextResponse.json(log || { date, entries: [], version: 0 }, {
+        headers: { ETag: toETag(log?.version) },
+      });
     }
 
-    if (days) {
-      // Get logs for the last N days
+    let from = searchParams.get('from');
+    let to = searchParams.get('to');
+
+    // `days=N` is shorthand for the N days ending today in the user's time zone
+    if (days && !from && !to) {
       const daysCount = parseInt(days);
-      const logs = [];
-      
-      for (let i = 0; i < daysCount; i++) {
-        const targetDate = format(subDays(new Date(), i), 'yyyy-MM-dd');
-        const log = await Log.findOne({ 
-          userId: session.user.id, 
-          date: targetDate 
-        });
-        
-        logs.push({
-          date: targetDate,
-          entries: log?.entries || []
-        });
+      if (!(daysCount > 0)) {
+        return NextResponse.json({ error: 'days must be a positive number' }, { status: 400 });
       }
-      
-      return NextResponse.json(logs);
+      to = todayInTimeZone(await getUserTimeZone(session.user.id));
+      from = addDaysToKey(to, -(daysCount - 1));
     }
 
-    return NextResponse.json({ error: 'Missing date or days parameter' }, { status: 400 });
+    if (from && to) {
+      const range = dateRangeSchema.parse({ from, to });
+      const logs = await findLogsInRange(session.user.id, range.from, range.to);
+
+      return NextResponse.json(logs.map((log) => ({
+        ...log,
+        entries: log.entries.filter((entry) => matchesTags(entry.tags, tags)),
+      })));
+    }
+
+    return NextResponse.json({ error: 'Missing date, days or from/to parameters' }, { status: 400 });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
     console.error('Error fetching logs:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
@@ -65,27 +95,54 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { date, entries } = await request.json();
+    const { date, entries } = createDayLogSchema.parse(await request.json());
 
-    if (!date || !entries) {
-      return NextResponse.json({ error: 'Date and entries are required' }, { status: 400 });
+    const expectedVersion = parseIfMatch(request);
+    if (expectedVersion === null) {
+      return preconditionRequiredResponse();
     }
 
     await connectDB();
 
-    const log = await Log.findOneAndUpdate(
-      { userId: session.user.id, date },
-      { 
-        userId: session.user.id,
-        date,
-        entries,
-        $setOnInsert: { createdAt: new Date() }
-      },
-      { upsert: true, new: true }
+    // Both the entries being replaced and their replacements may reach into a locked week
+    const current = await Log.findOne({ userId: session.user.id, date });
+    const timeZone = await getUserTimeZone(session.user.id);
+    const lockingTimesheet = await findLockingTimesheetForEntries(
+      session.user.id,
+      date,
+      (current?.entries || []).concat(entries),
+      timeZone
     );
+    if (lockingTimesheet) {
+      return weekLockedResponse(lockingTimesheet);
+    }
+
+    // Invoiced entries are checked against the version the write replaces
+    if ((current?.version || 0) !== expectedVersion) {
+      return versionConflictResponse(current, date);
+    }
+
+    const { entries: keptEntries, invoiced } = keepInvoicedEntries(current?.entries || [], entries, timeZone);
+    if (invoiced) {
+      return invoicedEntryResponse(invoiced);
+    }
 
-    return NextResponse.json(log);
+    const log = await replaceLogEntries(session.user.id, date, keptEntries, expectedVersion);
+
+    if (!log) {
+      const serverLog = await Log.findOne({ userId: session.user.id, date });
+      return versionConflictResponse(serverLog, date);
+    }
+
+    return NextResponse.json(log, { headers: { ETag: toETag(log.version) } });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
     console.error('Error creating/updating log:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
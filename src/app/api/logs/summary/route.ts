@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Log from '@/lib/models/Log';
+import { buildSummaryPipeline } from '@/lib/logQueries';
+import { getUserTimeZone } from '@/lib/users';
+import { dateRangeSchema, summaryQuerySchema } from '@/lib/validation';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { from, to } = dateRangeSchema.parse({
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+    });
+    const { groupBy } = summaryQuerySchema.parse({
+      groupBy: searchParams.get('groupBy') || undefined,
+    });
+
+    await connectDB();
+
+    const timeZone = await getUserTimeZone(session.user.id);
+    const periods = await Log.aggregate(buildSummaryPipeline(session.user.id, from, to, groupBy, timeZone));
+
+    return NextResponse.json({ from, to, groupBy, periods });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error summarizing logs:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
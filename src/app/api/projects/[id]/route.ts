@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Project from '@/lib/models/Project';
+import Client from '@/lib/models/Client';
+import Log from '@/lib/models/Log';
+import { isDuplicateKeyError } from '@/lib/concurrency';
+import { findLockedDates } from '@/lib/timesheetApproval';
+import { updateProjectSchema } from '@/lib/validation';
+import { findMembership, projectAccessFilter } from '@/lib/workspaces';
+import { can } from '@/utils/workspaceRoles';
+
+type ProjectParams = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: ProjectParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const project = await Project.findOne({ _id: id, ...(await projectAccessFilter(session.user.id)) })
+      .populate('clientId', 'name');
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(project);
+  } catch (error) {
+    console.error('Error fetching project:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: ProjectParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+    }
+
+    const updates = updateProjectSchema.parse(await request.json());
+
+    await connectDB();
+
+    if (updates.clientId && !(await Client.exists({ _id: updates.clientId, userId: session.user.id }))) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 400 });
+    }
+
+    if (updates.workspaceId) {
+      const membership = await findMembership(updates.workspaceId, session.user.id);
+      if (!membership || !can(membership.role, 'manageProjects')) {
+        return NextResponse.json({ error: 'Only workspace owners and admins can add projects' }, { status: 403 });
+      }
+    }
+
+    // Workspace owners and admins manage the workspace's projects; a project
+    // only returns to personal use in its creator's hands
+    const filter = updates.workspaceId === null
+      ? { _id: id, userId: session.user.id }
+      : { _id: id, ...(await projectAccessFilter(session.user.id, 'manageProjects')) };
+    const project = await Project.findOneAndUpdate(
+      filter,
+      { $set: updates },
+      { new: true, runValidators: true }
+    );
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(project);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json({ error: 'A project with this name already exists' }, { status: 409 });
+    }
+
+    console.error('Error updating project:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: ProjectParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid project id' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const access = await projectAccessFilter(session.user.id, 'manageProjects');
+    const project = await Project.findOne({ _id: id, ...access });
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    // Deleting detaches the project from its entries, across the whole team
+    // for workspace projects, which invoiced entries and locked weeks forbid
+    const projectId = new mongoose.Types.ObjectId(id);
+    const scope = project.workspaceId ? {} : { userId: session.user.id };
+
+    if (await Log.exists({ ...scope, entries: { $elemMatch: { projectId, invoiceId: { $ne: null } } } })) {
+      return NextResponse.json(
+        { error: "This project has invoiced entries, so it can't be deleted." },
+        { status: 409 }
+      );
+    }
+
+    const logs = await Log.find({ ...scope, 'entries.projectId': projectId })
+      .select('userId date')
+      .lean<{ userId: mongoose.Types.ObjectId; date: string }[]>();
+    const datesByUser: Record<string, string[]> = {};
+    logs.forEach((log) => {
+      const userId = String(log.userId);
+      datesByUser[userId] = (datesByUser[userId] || []).concat(log.date);
+    });
+    for (const userId of Object.keys(datesByUser)) {
+      if ((await findLockedDates(userId, datesByUser[userId])).length > 0) {
+        return NextResponse.json(
+          { error: "This project has entries in a submitted or approved timesheet, so it can't be deleted." },
+          { status: 409 }
+        );
+      }
+    }
+
+    if (!(await Project.findOneAndDelete({ _id: id, ...access }))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    // Entries invoiced since the check keep the project
+    await Log.updateMany(
+      { ...scope, 'entries.projectId': projectId },
+      { $set: { 'entries.$[entry].projectId': null }, $inc: { version: 1 } },
+      { arrayFilters: [{ 'entry.projectId': projectId, 'entry.invoiceId': null }] }
+    );
+
+    return NextResponse.json({ message: 'Project deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting project:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
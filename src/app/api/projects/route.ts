@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Project from '@/lib/models/Project';
+import Client from '@/lib/models/Client';
+import { isDuplicateKeyError } from '@/lib/concurrency';
+import { projectSchema } from '@/lib/validation';
+import { findMembership, projectAccessFilter } from '@/lib/workspaces';
+import { can } from '@/utils/workspaceRoles';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const includeArchived = searchParams.get('includeArchived') === 'true';
+
+    // Personal projects and those shared with the user's workspaces
+    const projects = await Project.find({
+      ...(await projectAccessFilter(session.user.id)),
+      ...(includeArchived ? {} : { archived: false }),
+    })
+      .populate('clientId', 'name')
+      .sort({ name: 1 });
+
+    return NextResponse.json(projects);
+  } catch (error) {
+    console.error('Error fetching projects:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const data = projectSchema.parse(await request.json());
+
+    await connectDB();
+
+    if (data.clientId && !(await Client.exists({ _id: data.clientId, userId: session.user.id }))) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 400 });
+    }
+
+    if (data.workspaceId) {
+      const membership = await findMembership(data.workspaceId, session.user.id);
+      if (!membership || !can(membership.role, 'manageProjects')) {
+        return NextResponse.json({ error: 'Only workspace owners and admins can add projects' }, { status: 403 });
+      }
+    }
+
+    const project = await Project.create({ ...data, userId: session.user.id });
+
+    return NextResponse.json(project, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json({ error: 'A project with this name already exists' }, { status: 409 });
+    }
+
+    console.error('Error creating project:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import { buildReport } from '@/lib/reports';
+import { parseTagsParam } from '@/lib/tags';
+import { reportDefinitionSchema } from '@/lib/validation';
+
+// Totals for a relative range (this/last week or month) or a custom
+// `from`/`to` range, grouped by day, week, project, tag or entry type
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const definition = reportDefinitionSchema.parse({
+      range: searchParams.get('range') || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+      groupBy: searchParams.get('groupBy') || undefined,
+      projectId: searchParams.get('projectId') || undefined,
+      tags: parseTagsParam(searchParams.get('tags')),
+    });
+
+    await connectDB();
+
+    const report = await buildReport(session.user.id, definition);
+
+    if (!report) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error building report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import SavedReport from '@/lib/models/SavedReport';
+import { isDuplicateKeyError } from '@/lib/concurrency';
+import { updateSavedReportSchema } from '@/lib/validation';
+
+type SavedReportParams = { params: Promise<{ id: string }> };
+
+// Open share links pick up the new definition the next time they're viewed
+export async function PATCH(request: NextRequest, { params }: SavedReportParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid report id' }, { status: 400 });
+    }
+
+    const updates = updateSavedReportSchema.parse(await request.json());
+
+    await connectDB();
+
+    const report = await SavedReport.findOneAndUpdate(
+      { _id: id, userId: session.user.id },
+      { $set: updates },
+      { new: true, runValidators: true }
+    ).select('-shareVersion');
+
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json({ error: 'A report with this name already exists' }, { status: 409 });
+    }
+
+    console.error('Error updating saved report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Share links of a deleted report stop working
+export async function DELETE(request: NextRequest, { params }: SavedReportParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid report id' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const report = await SavedReport.findOneAndDelete({ _id: id, userId: session.user.id });
+
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Report deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting saved report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
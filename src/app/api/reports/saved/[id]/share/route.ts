@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import SavedReport from '@/lib/models/SavedReport';
+import { createShareToken } from '@/lib/reportSharing';
+import { shareLinkSchema } from '@/lib/validation';
+
+type ShareParams = { params: Promise<{ id: string }> };
+
+// Creates a read-only link to the report that works without signing in
+export async function POST(request: NextRequest, { params }: ShareParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid report id' }, { status: 400 });
+    }
+
+    const { expiresInDays } = shareLinkSchema.parse(await request.json());
+
+    await connectDB();
+
+    const report = await SavedReport.findOne({ _id: id, userId: session.user.id });
+
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    const { token, expiresAt } = createShareToken(report, expiresInDays);
+    const url = new URL(`/reports/shared/${token}`, request.url).toString();
+
+    return NextResponse.json({ url, expiresAt }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating share link:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Revokes every link shared so far
+export async function DELETE(request: NextRequest, { params }: ShareParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid report id' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const report = await SavedReport.findOneAndUpdate(
+      { _id: id, userId: session.user.id },
+      { $inc: { shareVersion: 1 } }
+    );
+
+    if (!report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Share links revoked' });
+  } catch (error) {
+    console.error('Error revoking share links:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import SavedReport from '@/lib/models/SavedReport';
+import { isDuplicateKeyError } from '@/lib/concurrency';
+import { savedReportSchema } from '@/lib/validation';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const reports = await SavedReport.find({ userId: session.user.id })
+      .select('-shareVersion')
+      .sort({ name: 1 });
+
+    return NextResponse.json(reports);
+  } catch (error) {
+    console.error('Error fetching saved reports:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const data = savedReportSchema.parse(await request.json());
+
+    await connectDB();
+
+    const report = await SavedReport.create({ ...data, userId: session.user.id });
+
+    return NextResponse.json(report, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json({ error: 'A report with this name already exists' }, { status: 409 });
+    }
+
+    console.error('Error saving report:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Tag from '@/lib/models/Tag';
+import Log from '@/lib/models/Log';
+import { isDuplicateKeyError } from '@/lib/concurrency';
+import { updateTagSchema } from '@/lib/validation';
+
+type TagParams = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: NextRequest, { params }: TagParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid tag id' }, { status: 400 });
+    }
+
+    const updates = updateTagSchema.parse(await request.json());
+
+    await connectDB();
+
+    const previous = await Tag.findOneAndUpdate(
+      { _id: id, userId: session.user.id },
+      { $set: updates },
+      { runValidators: true }
+    );
+
+    if (!previous) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+    }
+
+    const tag = await Tag.findById(id);
+
+    // Renaming a tag renames it on every entry that carries it
+    if (tag.name !== previous.name) {
+      await Log.updateMany(
+        { userId: session.user.id, 'entries.tags': previous.name },
+        { $set: { 'entries.$[entry].tags.$[tag]': tag.name }, $inc: { version: 1 } },
+        { arrayFilters: [{ 'entry.tags': previous.name }, { tag: previous.name }] }
+      );
+    }
+
+    return NextResponse.json(tag);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json({ error: 'A tag with this name already exists' }, { status: 409 });
+    }
+
+    console.error('Error updating tag:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: TagParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid tag id' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const tag = await Tag.findOneAndDelete({ _id: id, userId: session.user.id });
+
+    if (!tag) {
+      return NextResponse.json({ error: 'Tag not found' }, { status: 404 });
+    }
+
+    // Remove the tag from every entry that carries it
+    await Log.updateMany(
+      { userId: session.user.id, 'entries.tags': tag.name },
+      { $pull: { 'entries.$[].tags': tag.name }, $inc: { version: 1 } }
+    );
+
+    return NextResponse.json({ message: 'Tag deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
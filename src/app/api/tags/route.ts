@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Tag from '@/lib/models/Tag';
+import { isDuplicateKeyError } from '@/lib/concurrency';
+import { tagSchema } from '@/lib/validation';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    // Optional prefix search for autocomplete
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q')?.trim().toLowerCase();
+    const escaped = query?.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+    const tags = await Tag.find({
+      userId: session.user.id,
+      ...(escaped ? { name: { $regex: `^${escaped}` } } : {}),
+    }).sort({ name: 1 });
+
+    return NextResponse.json(tags);
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const data = tagSchema.parse(await request.json());
+
+    await connectDB();
+
+    const tag = await Tag.create({ ...data, userId: session.user.id });
+
+    return NextResponse.json(tag, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json({ error: 'A tag with this name already exists' }, { status: 409 });
+    }
+
+    console.error('Error creating tag:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
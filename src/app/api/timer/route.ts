@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Timer from '@/lib/models/Timer';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const timer = await Timer.findOne({ userId: session.user.id });
+
+    return NextResponse.json({ timer, serverTime: new Date().toISOString() });
+  } catch (error) {
+    console.error('Error fetching timer:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Discards the running timer without recording any time
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const timer = await Timer.findOneAndDelete({ userId: session.user.id });
+
+    if (!timer) {
+      return NextResponse.json({ error: 'No timer is running' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Timer discarded' });
+  } catch (error) {
+    console.error('Error discarding timer:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Timer from '@/lib/models/Timer';
+import Project from '@/lib/models/Project';
+import { isDuplicateKeyError } from '@/lib/concurrency';
+import { ensureTags } from '@/lib/tags';
+import { timerStartSchema } from '@/lib/validation';
+import { projectAccessFilter } from '@/lib/workspaces';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const data = timerStartSchema.parse(await request.json());
+
+    await connectDB();
+
+    if (data.projectId && !(await Project.exists({ _id: data.projectId, ...(await projectAccessFilter(session.user.id, 'trackTime')) }))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 400 });
+    }
+
+    const running = await Timer.findOne({ userId: session.user.id });
+    if (running) {
+      return NextResponse.json({ error: 'A timer is already running', timer: running }, { status: 409 });
+    }
+
+    // The start time is taken from the server clock so every device agrees
+    const timer = await Timer.create({
+      ...data,
+      userId: session.user.id,
+      startTime: new Date(),
+    });
+    await ensureTags(session.user.id, data.tags);
+
+    return NextResponse.json({ timer, serverTime: new Date().toISOString() }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    // Another device started a timer between our check and the insert
+    if (isDuplicateKeyError(error)) {
+      return NextResponse.json({ error: 'A timer is already running' }, { status: 409 });
+    }
+
+    console.error('Error starting timer:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
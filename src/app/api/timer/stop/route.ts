@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Timer from '@/lib/models/Timer';
+import { saveTimerEntries, TimerSegment } from '@/lib/timer';
+import { weekLockedResponse } from '@/lib/timesheetApproval';
+import { getUserTimeZone } from '@/lib/users';
+
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    // Claim the timer first so a second concurrent stop can't record it twice
+    const timer = await Timer.findOneAndDelete({ userId: session.user.id });
+
+    if (!timer) {
+      return NextResponse.json({ error: 'No timer is running' }, { status: 404 });
+    }
+
+    const end = new Date();
+    const saved: TimerSegment[] = [];
+
+    try {
+      const timeZone = await getUserTimeZone(session.user.id);
+      const { segments, lockingTimesheet } = await saveTimerEntries(session.user.id, timer, end, timeZone, saved);
+
+      // The timer is stopped either way; only the time on locked days is dropped
+      if (lockingTimesheet) {
+        return weekLockedResponse(lockingTimesheet, { segments });
+      }
+
+      return NextResponse.json({ message: 'Timer stopped', segments });
+    } catch (error) {
+      // Put the timer back so the tracked time isn't lost. It resumes where the
+      // saved segments end, so the next stop doesn't record those days twice.
+      const restored = timer.toObject();
+      if (saved.length > 0) {
+        restored.startTime = new Date(saved[saved.length - 1].endTime);
+      }
+      await Timer.create(restored);
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error stopping timer:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
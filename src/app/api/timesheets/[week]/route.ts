@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Timesheet from '@/lib/models/Timesheet';
+import { getWeekRange } from '@/lib/timesheetApproval';
+import { logDateSchema } from '@/lib/validation';
+
+type WeekParams = { params: Promise<{ week: string }> };
+
+// The user's timesheet for the week containing the date, or an unsaved draft
+export async function GET(request: NextRequest, { params }: WeekParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const date = logDateSchema.parse((await params).week);
+    const { weekStart, weekEnd } = getWeekRange(date);
+
+    await connectDB();
+
+    const timesheet = await Timesheet.findOne({ userId: session.user.id, weekStart })
+      .populate('workspaceId', 'name')
+      .populate('reviewedBy', 'name');
+
+    return NextResponse.json(timesheet || { weekStart, weekEnd, status: 'draft', comment: '' });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching timesheet:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
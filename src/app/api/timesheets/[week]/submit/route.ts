@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import { submitTimesheet } from '@/lib/timesheetApproval';
+import { findMembership } from '@/lib/workspaces';
+import { logDateSchema, timesheetSubmitSchema } from '@/lib/validation';
+import { can } from '@/utils/workspaceRoles';
+
+type WeekParams = { params: Promise<{ week: string }> };
+
+// Sends the week to a workspace's owners and admins for approval and locks its days
+export async function POST(request: NextRequest, { params }: WeekParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const date = logDateSchema.parse((await params).week);
+    const { workspaceId } = timesheetSubmitSchema.parse(await request.json());
+
+    await connectDB();
+
+    const membership = await findMembership(workspaceId, session.user.id);
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (!can(membership.role, 'trackTime')) {
+      return NextResponse.json({ error: "Your role doesn't include tracking time in this workspace" }, { status: 403 });
+    }
+
+    const timesheet = await submitTimesheet(session.user.id, date, workspaceId);
+
+    if (!timesheet) {
+      return NextResponse.json(
+        { error: 'This week has already been submitted' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(timesheet);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error submitting timesheet:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
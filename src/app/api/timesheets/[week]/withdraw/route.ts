@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Timesheet from '@/lib/models/Timesheet';
+import { getWeekRange } from '@/lib/timesheetApproval';
+import { logDateSchema } from '@/lib/validation';
+
+type WeekParams = { params: Promise<{ week: string }> };
+
+// Takes a submitted week back to draft so its days can be edited again.
+// Approved weeks can only be reopened by an approver rejecting them.
+export async function POST(request: NextRequest, { params }: WeekParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const date = logDateSchema.parse((await params).week);
+
+    await connectDB();
+
+    const timesheet = await Timesheet.findOneAndUpdate(
+      { userId: session.user.id, weekStart: getWeekRange(date).weekStart, status: 'submitted' },
+      { $set: { status: 'draft', submittedAt: null } },
+      { new: true }
+    );
+
+    if (!timesheet) {
+      return NextResponse.json({ error: 'No submitted timesheet for this week' }, { status: 409 });
+    }
+
+    return NextResponse.json(timesheet);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error withdrawing timesheet:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Timesheet, { ITimesheet } from '@/lib/models/Timesheet';
+import { findMembership } from '@/lib/workspaces';
+import { timesheetReviewSchema } from '@/lib/validation';
+import { can } from '@/utils/workspaceRoles';
+
+type ReviewParams = { params: Promise<{ id: string }> };
+
+// Approves a submitted timesheet, or rejects it with a comment. Rejecting an
+// approved timesheet reopens its week, for corrections after approval.
+export async function POST(request: NextRequest, { params }: ReviewParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      return NextResponse.json({ error: 'Invalid timesheet id' }, { status: 400 });
+    }
+
+    const { decision, comment } = timesheetReviewSchema.parse(await request.json());
+
+    await connectDB();
+
+    const timesheet: ITimesheet | null = await Timesheet.findById(id);
+    const membership = timesheet ? await findMembership(String(timesheet.workspaceId), session.user.id) : null;
+
+    if (!timesheet || !membership || !can(membership.role, 'approveTimesheets')) {
+      return NextResponse.json({ error: 'Timesheet not found' }, { status: 404 });
+    }
+
+    if (String(timesheet.userId) === session.user.id) {
+      return NextResponse.json({ error: "You can't review your own timesheet" }, { status: 403 });
+    }
+
+    // The status filter keeps two reviewers, or a withdrawal, from crossing
+    const reviewed = await Timesheet.findOneAndUpdate(
+      { _id: id, status: { $in: decision === 'approve' ? ['submitted'] : ['submitted', 'approved'] } },
+      {
+        $set: {
+          status: decision === 'approve' ? 'approved' : 'rejected',
+          comment,
+          reviewedBy: session.user.id,
+          reviewedAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+
+    if (!reviewed) {
+      return NextResponse.json(
+        {
+          error: decision === 'approve'
+            ? 'This timesheet is no longer awaiting approval'
+            : 'Only submitted or approved timesheets can be rejected',
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(reviewed);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error reviewing timesheet:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
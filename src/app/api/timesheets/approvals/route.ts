@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Timesheet from '@/lib/models/Timesheet';
+import { getWorkspaceIds } from '@/lib/workspaces';
+
+// Longest list returned at once
+const QUEUE_LIMIT = 100;
+
+const approvalQuerySchema = z.object({
+  status: z.enum(['submitted', 'approved', 'rejected']).default('submitted'),
+});
+
+// Timesheets sent to workspaces the user approves for. The default queue
+// lists those awaiting approval, oldest week first; `?status=approved` or
+// `rejected` shows past decisions, newest first. People never review their own.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { status } = approvalQuerySchema.parse({
+      status: searchParams.get('status') || undefined,
+    });
+
+    await connectDB();
+
+    const workspaceIds = await getWorkspaceIds(session.user.id, 'approveTimesheets');
+
+    const timesheets = await Timesheet.find({
+      workspaceId: { $in: workspaceIds },
+      userId: { $ne: session.user.id },
+      status,
+    })
+      .sort({ weekStart: status === 'submitted' ? 1 : -1 })
+      .limit(QUEUE_LIMIT)
+      .populate('userId', 'name email')
+      .populate('workspaceId', 'name')
+      .populate('reviewedBy', 'name');
+
+    return NextResponse.json(timesheets);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching approval queue:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
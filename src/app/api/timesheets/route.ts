@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Timesheet from '@/lib/models/Timesheet';
+
+// How many weeks of history the list goes back
+const LIST_LIMIT = 52;
+
+// The user's own timesheets, newest week first
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const timesheets = await Timesheet.find({ userId: session.user.id })
+      .sort({ weekStart: -1 })
+      .limit(LIST_LIMIT)
+      .populate('workspaceId', 'name')
+      .populate('reviewedBy', 'name');
+
+    return NextResponse.json(timesheets);
+  } catch (error) {
+    console.error('Error fetching timesheets:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
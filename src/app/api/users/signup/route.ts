@@ -2,17 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import User from '@/lib/models/User';
 import { z } from 'zod';
+import { timeZoneSchema } from '@/lib/validation';
 
 const signupSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
   email: z.string().email('Invalid email address'),
   password: z.string().min(6, 'Password must be at least 6 characters'),
+  timezone: timeZoneSchema.optional(),
 });
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, email, password } = signupSchema.parse(body);
+    const { name, email, password, timezone } = signupSchema.parse(body);
 
     // Connect to database with timeout handling
     try {
@@ -57,6 +59,7 @@ export async function POST(request: NextRequest) {
       name,
       email,
       passwordHash: password, // Will be hashed by pre-save middleware
+      timezone,
     });
 
     await user.save();
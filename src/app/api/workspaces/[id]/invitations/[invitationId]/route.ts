@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import WorkspaceInvitation from '@/lib/models/WorkspaceInvitation';
+import { findMembership } from '@/lib/workspaces';
+import { can } from '@/utils/workspaceRoles';
+
+type InvitationParams = { params: Promise<{ id: string; invitationId: string }> };
+
+// Withdraws an invitation; its link stops working
+export async function DELETE(request: NextRequest, { params }: InvitationParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, invitationId } = await params;
+
+    if (!mongoose.isValidObjectId(invitationId)) {
+      return NextResponse.json({ error: 'Invalid invitation id' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const membership = await findMembership(id, session.user.id);
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (!can(membership.role, 'manageMembers')) {
+      return NextResponse.json({ error: 'Only workspace owners and admins can manage invitations' }, { status: 403 });
+    }
+
+    const invitation = await WorkspaceInvitation.findOneAndDelete({ _id: invitationId, workspaceId: id });
+
+    if (!invitation) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Invitation withdrawn' });
+  } catch (error) {
+    console.error('Error deleting invitation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
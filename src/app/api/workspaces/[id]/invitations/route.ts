@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import WorkspaceInvitation from '@/lib/models/WorkspaceInvitation';
+import User from '@/lib/models/User';
+import { createInvitationToken, findMembership, INVITATION_DAYS } from '@/lib/workspaces';
+import { workspaceInvitationSchema } from '@/lib/validation';
+import { canManageRole } from '@/utils/workspaceRoles';
+
+type InvitationParams = { params: Promise<{ id: string }> };
+
+// Invites someone by email. The response carries the invitation link, which
+// only the account with that email can accept; inviting the same address
+// again replaces the previous link.
+export async function POST(request: NextRequest, { params }: InvitationParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const data = workspaceInvitationSchema.parse(await request.json());
+
+    await connectDB();
+
+    const membership = await findMembership(id, session.user.id);
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (!canManageRole(membership.role, data.role)) {
+      return NextResponse.json({ error: `You can't invite people as ${data.role}` }, { status: 403 });
+    }
+
+    const invitee = await User.findOne({ email: data.email }).select('_id');
+    if (invitee && membership.workspace.members.some((member) => String(member.userId) === String(invitee._id))) {
+      return NextResponse.json({ error: 'This person is already a member' }, { status: 409 });
+    }
+
+    const { token, tokenHash } = createInvitationToken();
+    const invitation = await WorkspaceInvitation.findOneAndUpdate(
+      { workspaceId: id, email: data.email },
+      {
+        $set: {
+          role: data.role,
+          tokenHash,
+          invitedBy: session.user.id,
+          expiresAt: new Date(Date.now() + INVITATION_DAYS * 24 * 60 * 60 * 1000),
+        },
+      },
+      { upsert: true, new: true, runValidators: true }
+    );
+
+    return NextResponse.json({
+      invitation: {
+        _id: invitation._id,
+        email: invitation.email,
+        role: invitation.role,
+        expiresAt: invitation.expiresAt,
+      },
+      url: new URL(`/invitations/${token}`, request.url).toString(),
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating invitation:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
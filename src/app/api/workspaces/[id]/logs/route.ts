@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Log, { ILog } from '@/lib/models/Log';
+import Project, { IProject } from '@/lib/models/Project';
+import { findMembership } from '@/lib/workspaces';
+import { dateRangeSchema } from '@/lib/validation';
+import { can } from '@/utils/workspaceRoles';
+
+type TeamLogParams = { params: Promise<{ id: string }> };
+
+// Team members' entries on the workspace's projects between `from` and `to`,
+// newest day first, optionally for one member. Entries on other projects
+// never leave their owner's log.
+export async function GET(request: NextRequest, { params }: TeamLogParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const { from, to } = dateRangeSchema.parse({
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+    });
+    const memberId = searchParams.get('userId');
+
+    await connectDB();
+
+    const membership = await findMembership(id, session.user.id);
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (!can(membership.role, 'viewTeamLogs')) {
+      return NextResponse.json({ error: "Your role doesn't include the team's logs" }, { status: 403 });
+    }
+
+    const memberIds = membership.workspace.members
+      .map((member) => member.userId)
+      .filter((userId) => !memberId || String(userId) === memberId);
+    const projects: IProject[] = await Project.find({ workspaceId: membership.workspace._id }).select('_id');
+    const projectIds = projects.map((project) => String(project._id));
+
+    const logs: ILog[] = await Log.find({
+      userId: { $in: memberIds },
+      date: { $gte: from, $lte: to },
+      'entries.projectId': { $in: projects.map((project) => project._id as mongoose.Types.ObjectId) },
+    }).sort({ date: -1 });
+
+    return NextResponse.json({
+      from,
+      to,
+      logs: logs.map((log) => ({
+        userId: log.userId,
+        date: log.date,
+        entries: log.entries.filter((entry) => entry.projectId && projectIds.indexOf(String(entry.projectId)) !== -1),
+      })),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching team logs:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Workspace from '@/lib/models/Workspace';
+import { findMembership, getMemberRole } from '@/lib/workspaces';
+import { workspaceMemberSchema } from '@/lib/validation';
+import { canManageRole } from '@/utils/workspaceRoles';
+
+type MemberParams = { params: Promise<{ id: string; userId: string }> };
+
+// Changes a member's role. Admins manage members and viewers; only the owner
+// promotes or demotes admins, and the owner's role never changes.
+export async function PATCH(request: NextRequest, { params }: MemberParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, userId } = await params;
+
+    if (!mongoose.isValidObjectId(userId)) {
+      return NextResponse.json({ error: 'Invalid user id' }, { status: 400 });
+    }
+
+    const { role } = workspaceMemberSchema.parse(await request.json());
+
+    await connectDB();
+
+    const membership = await findMembership(id, session.user.id);
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const currentRole = getMemberRole(membership.workspace, userId);
+
+    if (!currentRole) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    if (!canManageRole(membership.role, currentRole) || !canManageRole(membership.role, role)) {
+      return NextResponse.json({ error: "You can't change this member's role" }, { status: 403 });
+    }
+
+    await Workspace.updateOne(
+      { _id: id, 'members.userId': userId },
+      { $set: { 'members.$.role': role } }
+    );
+
+    return NextResponse.json({ userId, role });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating workspace member:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Removes a member, or lets members leave. The owner can't leave; they delete
+// the workspace instead.
+export async function DELETE(request: NextRequest, { params }: MemberParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, userId } = await params;
+
+    if (!mongoose.isValidObjectId(userId)) {
+      return NextResponse.json({ error: 'Invalid user id' }, { status: 400 });
+    }
+
+    await connectDB();
+
+    const membership = await findMembership(id, session.user.id);
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const targetRole = getMemberRole(membership.workspace, userId);
+
+    if (!targetRole) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    if (targetRole === 'owner') {
+      return NextResponse.json({ error: "The owner can't leave the workspace" }, { status: 400 });
+    }
+
+    if (userId !== session.user.id && !canManageRole(membership.role, targetRole)) {
+      return NextResponse.json({ error: "You can't remove this member" }, { status: 403 });
+    }
+
+    await Workspace.updateOne(
+      { _id: id },
+      { $pull: { members: { userId: new mongoose.Types.ObjectId(userId) } } }
+    );
+
+    return NextResponse.json({ message: 'Member removed' });
+  } catch (error) {
+    console.error('Error removing workspace member:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
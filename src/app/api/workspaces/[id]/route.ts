@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Workspace from '@/lib/models/Workspace';
+import WorkspaceInvitation from '@/lib/models/WorkspaceInvitation';
+import Project from '@/lib/models/Project';
+import Timesheet from '@/lib/models/Timesheet';
+import User, { IUser } from '@/lib/models/User';
+import { findMembership } from '@/lib/workspaces';
+import { workspaceSchema } from '@/lib/validation';
+import { can } from '@/utils/workspaceRoles';
+
+type WorkspaceParams = { params: Promise<{ id: string }> };
+
+// Members, projects and, for those who manage members, open invitations
+export async function GET(request: NextRequest, { params }: WorkspaceParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    await connectDB();
+
+    const membership = await findMembership(id, session.user.id);
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    const { workspace, role } = membership;
+    const [users, projects, invitations]: [IUser[], unknown[], unknown[]] = await Promise.all([
+      User.find({ _id: { $in: workspace.members.map((member) => member.userId) } }).select('name email'),
+      Project.find({ workspaceId: workspace._id }).select('name color archived').sort({ name: 1 }),
+      can(role, 'manageMembers')
+        ? WorkspaceInvitation.find({ workspaceId: workspace._id }).select('email role expiresAt').sort({ createdAt: -1 })
+        : Promise.resolve([]),
+    ]);
+
+    const usersById: Record<string, IUser> = {};
+    users.forEach((user) => {
+      usersById[String(user._id)] = user;
+    });
+
+    return NextResponse.json({
+      _id: workspace._id,
+      name: workspace.name,
+      role,
+      members: workspace.members.map((member) => ({
+        userId: member.userId,
+        name: usersById[String(member.userId)]?.name || 'Deleted user',
+        email: usersById[String(member.userId)]?.email || '',
+        role: member.role,
+        joinedAt: member.joinedAt,
+      })),
+      projects,
+      invitations,
+    });
+  } catch (error) {
+    console.error('Error fetching workspace:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: WorkspaceParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const data = workspaceSchema.parse(await request.json());
+
+    await connectDB();
+
+    const membership = await findMembership(id, session.user.id);
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (!can(membership.role, 'manageWorkspace')) {
+      return NextResponse.json({ error: 'Only the owner can rename the workspace' }, { status: 403 });
+    }
+
+    await Workspace.updateOne({ _id: id }, { $set: { name: data.name } });
+
+    return NextResponse.json({ _id: id, name: data.name });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating workspace:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// The workspace's projects go back to the people who created them as personal
+// projects; entries keep referring to them
+export async function DELETE(request: NextRequest, { params }: WorkspaceParams) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    await connectDB();
+
+    const membership = await findMembership(id, session.user.id);
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    if (!can(membership.role, 'manageWorkspace')) {
+      return NextResponse.json({ error: 'Only the owner can delete the workspace' }, { status: 403 });
+    }
+
+    await Project.updateMany({ workspaceId: id }, { $set: { workspaceId: null } });
+    await WorkspaceInvitation.deleteMany({ workspaceId: id });
+    // Nobody is left to review them, so their weeks are unlocked
+    await Timesheet.deleteMany({ workspaceId: id });
+    await Workspace.deleteOne({ _id: id });
+
+    return NextResponse.json({ message: 'Workspace deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting workspace:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import connectDB from '@/lib/mongodb';
+import Workspace, { IWorkspace } from '@/lib/models/Workspace';
+import { getMemberRole } from '@/lib/workspaces';
+import { workspaceSchema } from '@/lib/validation';
+
+// The user's workspaces with their role in each
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await connectDB();
+
+    const workspaces: IWorkspace[] = await Workspace.find({ 'members.userId': session.user.id }).sort({ name: 1 });
+
+    return NextResponse.json(workspaces.map((workspace) => ({
+      _id: workspace._id,
+      name: workspace.name,
+      role: getMemberRole(workspace, session.user.id),
+      memberCount: workspace.members.length,
+    })));
+  } catch (error) {
+    console.error('Error fetching workspaces:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// The creator becomes the owner
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const data = workspaceSchema.parse(await request.json());
+
+    await connectDB();
+
+    const workspace = await Workspace.create({
+      name: data.name,
+      ownerId: session.user.id,
+      members: [{ userId: session.user.id, role: 'owner' }],
+    });
+
+    return NextResponse.json(
+      { _id: workspace._id, name: workspace.name, role: 'owner', memberCount: 1 },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating workspace:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
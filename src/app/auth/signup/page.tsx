@@ -9,6 +9,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Eye, EyeOff, Mail, Lock, User, Calendar } from 'lucide-react';
 import { ThemeToggleCompact } from '@/components/ThemeToggle';
+import { getBrowserTimeZone } from '@/utils/timezone';
 
 const signupSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
@@ -51,6 +52,7 @@ export default function SignUpPage() {
           name: data.name,
           email: data.email,
           password: data.password,
+          timezone: getBrowserTimeZone(),
         }),
       });
 
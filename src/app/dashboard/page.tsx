@@ -3,27 +3,37 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useSession, signOut } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
-import { format, subDays, parseISO } from 'date-fns';
-import { Calendar, LogOut, HelpCircle } from 'lucide-react';
+import { addDaysToKey, getBrowserTimeZone, todayInTimeZone } from '@/utils/timezone';
+import { Calendar, LogOut, HelpCircle, Users, ClipboardCheck, Receipt } from 'lucide-react';
 import { ThemeToggleCompact } from '@/components/ThemeToggle';
 import TabNavigation from '@/components/TabNavigation';
 import DashboardStats from '@/components/DashboardStats';
 import TimeLogManager from '@/components/TimeLogManager';
+import ReportsView from '@/components/ReportsView';
+import TimerWidget from '@/components/TimerWidget';
+import WorkspacesModal from '@/components/WorkspacesModal';
+import ApprovalsModal from '@/components/ApprovalsModal';
+import InvoicesModal from '@/components/InvoicesModal';
 import NotificationModal, { NotificationType } from '@/components/NotificationModal';
-import { LogEntry } from '@/types';
+import { LogEntry, Project, Tag, UserSettings, WorkspaceSummary } from '@/types';
+import { can } from '@/utils/workspaceRoles';
 
 interface DayLog {
   date: string;
   entries: LogEntry[];
+  version?: number;
 }
 
 export default function DashboardPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
   const [logs, setLogs] = useState<DayLog[]>([]);
-  const [selectedDate, setSelectedDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'));
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string>(() => todayInTimeZone(getBrowserTimeZone()));
   const [isLoading, setIsLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'timelog'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'timelog' | 'reports'>('dashboard');
   const [notification, setNotification] = useState<{
     isOpen: boolean;
     type: NotificationType;
@@ -36,6 +46,14 @@ export default function DashboardPage() {
     message: '',
   });
   const [showShortcuts, setShowShortcuts] = useState(false);
+  const [isWorkspacesOpen, setIsWorkspacesOpen] = useState(false);
+  const [isApprovalsOpen, setIsApprovalsOpen] = useState(false);
+  const [isInvoicesOpen, setIsInvoicesOpen] = useState(false);
+  // Owners and admins of any workspace get the approval queue
+  const [canApprove, setCanApprove] = useState(false);
+
+  // Days are bucketed in the user's saved zone; the browser's is only a fallback until it loads
+  const timeZone = settings?.timezone || getBrowserTimeZone();
 
   const showNotification = useCallback((type: NotificationType, title: string, message: string) => {
     setNotification({
@@ -60,7 +78,9 @@ export default function DashboardPage() {
   const fetchLogs = useCallback(async () => {
     try {
       setIsLoading(true);
-      const response = await fetch('/api/logs?days=7');
+      const to = todayInTimeZone(timeZone);
+      const from = addDaysToKey(to, -6);
+      const response = await fetch(`/api/logs?from=${from}&to=${to}`);
       if (response.ok) {
         const data = await response.json();
         setLogs(data);
@@ -70,13 +90,85 @@ export default function DashboardPage() {
     } finally {
       setIsLoading(false);
     }
+  }, [timeZone]);
+
+  const fetchProjects = useCallback(async () => {
+    try {
+      const response = await fetch('/api/projects');
+      if (response.ok) {
+        const data = await response.json();
+        setProjects(data);
+      }
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+    }
   }, []);
 
+  const fetchTags = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tags');
+      if (response.ok) {
+        const data = await response.json();
+        setTags(data);
+      }
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    }
+  }, []);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      const response = await fetch('/api/users/me');
+      if (response.ok) {
+        const data = await response.json();
+
+        // Accounts created before time zone support adopt the browser's zone once
+        if (!data.timezone) {
+          const patchResponse = await fetch('/api/users/me', {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ timezone: getBrowserTimeZone() }),
+          });
+          if (patchResponse.ok) {
+            setSettings(await patchResponse.json());
+            return;
+          }
+        }
+
+        setSettings(data);
+      }
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+    }
+  }, []);
+
+  const fetchWorkspaces = useCallback(async () => {
+    try {
+      const response = await fetch('/api/workspaces');
+      if (response.ok) {
+        const data: WorkspaceSummary[] = await response.json();
+        setCanApprove(data.some(workspace => can(workspace.role, 'approveTimesheets')));
+      }
+    } catch (error) {
+      console.error('Error fetching workspaces:', error);
+    }
+  }, []);
+
+  // Entries can introduce new tags, so refresh both together
+  const refreshLogs = useCallback(() => {
+    fetchLogs();
+    fetchTags();
+  }, [fetchLogs, fetchTags]);
+
   useEffect(() => {
     if (session) {
       fetchLogs();
+      fetchProjects();
+      fetchTags();
+      fetchSettings();
+      fetchWorkspaces();
     }
-  }, [session, fetchLogs]);
+  }, [session, fetchLogs, fetchProjects, fetchTags, fetchSettings, fetchWorkspaces]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -91,6 +183,11 @@ export default function DashboardPage() {
         event.preventDefault();
         setActiveTab('timelog');
       }
+      // Ctrl/Cmd + 3: Switch to Reports tab
+      if ((event.ctrlKey || event.metaKey) && event.key === '3') {
+        event.preventDefault();
+        setActiveTab('reports');
+      }
       // Escape: Close notification
       if (event.key === 'Escape') {
         if (notification.isOpen) closeNotification();
@@ -124,10 +221,41 @@ export default function DashboardPage() {
               <h1 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white truncate">Daily Time Log</h1>
             </div>
             <div className="flex items-center space-x-1 sm:space-x-2 lg:space-x-4">
-              <span className="hidden sm:inline text-sm text-gray-700 dark:text-gray-300 truncate max-w-32 lg:max-w-none">
+              <TimerWidget
+                projects={projects}
+                onStopped={refreshLogs}
+                onShowNotification={showNotification}
+              />
+              <span className="hidden xl:inline text-sm text-gray-700 dark:text-gray-300 truncate max-w-32 lg:max-w-none">
                 Welcome, {session.user?.name}
               </span>
               <ThemeToggleCompact />
+              <button
+                onClick={() => setIsWorkspacesOpen(true)}
+                className="flex items-center text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 p-1 sm:p-2"
+                title="Workspaces"
+              >
+                <Users className="h-4 w-4 sm:mr-1" />
+                <span className="hidden sm:inline">Team</span>
+              </button>
+              {canApprove && (
+                <button
+                  onClick={() => setIsApprovalsOpen(true)}
+                  className="flex items-center text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 p-1 sm:p-2"
+                  title="Timesheet approvals"
+                >
+                  <ClipboardCheck className="h-4 w-4 sm:mr-1" />
+                  <span className="hidden sm:inline">Approvals</span>
+                </button>
+              )}
+              <button
+                onClick={() => setIsInvoicesOpen(true)}
+                className="flex items-center text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 p-1 sm:p-2"
+                title="Invoices"
+              >
+                <Receipt className="h-4 w-4 sm:mr-1" />
+                <span className="hidden sm:inline">Invoices</span>
+              </button>
               <button
                 onClick={() => setShowShortcuts(!showShortcuts)}
                 className="flex items-center text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 p-1 sm:p-2"
@@ -172,6 +300,10 @@ export default function DashboardPage() {
                   <kbd className="px-2 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-gray-100 text-xs font-mono mr-2 sm:mr-3 flex-shrink-0">Ctrl+2</kbd>
                   <span className="text-blue-800 dark:text-blue-200 text-xs sm:text-sm">Switch to Time Log</span>
                 </div>
+                <div className="flex items-center">
+                  <kbd className="px-2 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-gray-100 text-xs font-mono mr-2 sm:mr-3 flex-shrink-0">Ctrl+3</kbd>
+                  <span className="text-blue-800 dark:text-blue-200 text-xs sm:text-sm">Switch to Reports</span>
+                </div>
               </div>
               <div className="space-y-2">
                 <div className="flex items-center">
@@ -189,14 +321,32 @@ export default function DashboardPage() {
         {/* Tab Content */}
         <div className="mt-6 sm:mt-8">
           {activeTab === 'dashboard' ? (
-            <DashboardStats logs={logs} isLoading={isLoading} />
+            <DashboardStats
+              logs={logs}
+              projects={projects}
+              defaultHourlyRate={settings?.defaultHourlyRate}
+              currency={settings?.currency}
+              timeZone={timeZone}
+              isLoading={isLoading}
+            />
+          ) : activeTab === 'reports' ? (
+            <ReportsView
+              projects={projects}
+              tags={tags}
+              timeZone={timeZone}
+              onShowNotification={showNotification}
+            />
           ) : (
             <TimeLogManager
               logs={logs}
               selectedDate={selectedDate}
               setSelectedDate={setSelectedDate}
               isLoading={isLoading}
-              onRefresh={fetchLogs}
+              onRefresh={refreshLogs}
+              projects={projects}
+              tags={tags}
+              timeZone={timeZone}
+              onProjectsChange={fetchProjects}
               onShowNotification={showNotification}
             />
           )}
@@ -204,6 +354,32 @@ export default function DashboardPage() {
 
       </div>
 
+      <WorkspacesModal
+        isOpen={isWorkspacesOpen}
+        onClose={() => {
+          setIsWorkspacesOpen(false);
+          fetchWorkspaces();
+        }}
+        currentUserId={session.user.id}
+        timeZone={timeZone}
+        onProjectsChange={fetchProjects}
+        onShowNotification={showNotification}
+      />
+
+      <ApprovalsModal
+        isOpen={isApprovalsOpen}
+        onClose={() => setIsApprovalsOpen(false)}
+        onShowNotification={showNotification}
+      />
+
+      <InvoicesModal
+        isOpen={isInvoicesOpen}
+        onClose={() => setIsInvoicesOpen(false)}
+        timeZone={timeZone}
+        onEntriesChange={refreshLogs}
+        onShowNotification={showNotification}
+      />
+
       {/* Global Notification Modal */}
       <NotificationModal
         isOpen={notification.isOpen}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { useSession, signOut } from 'next-auth/react';
+import { Users, MailX } from 'lucide-react';
+import { WorkspaceRole } from '@/types';
+
+interface InvitationDetails {
+  workspace: { _id: string; name: string };
+  email: string;
+  role: WorkspaceRole;
+  invitedBy: string | null;
+  expiresAt: string;
+}
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  owner: 'manage everything in the workspace',
+  admin: 'manage members and projects, and see the team\'s time',
+  member: 'log time on the workspace\'s projects',
+  viewer: 'see the team\'s time without logging any',
+};
+
+// Landing page for invitation links. The middleware sends signed-out
+// visitors through sign-in first.
+export default function InvitationPage() {
+  const { token } = useParams<{ token: string }>();
+  const router = useRouter();
+  const { data: session } = useSession();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  useEffect(() => {
+    const fetchInvitation = async () => {
+      try {
+        const response = await fetch(`/api/invitations/${token}`);
+        const data = await response.json();
+        if (response.ok) {
+          setInvitation(data);
+        } else {
+          setError(data.error || 'Invitation not found or expired');
+        }
+      } catch (error) {
+        console.error('Error fetching invitation:', error);
+        setError('Something went wrong. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchInvitation();
+  }, [token]);
+
+  const handleAccept = async () => {
+    try {
+      setIsAccepting(true);
+      setError('');
+      const response = await fetch(`/api/invitations/${token}`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        router.push('/dashboard');
+      } else {
+        setError(data.error || 'Could not accept the invitation');
+      }
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setIsAccepting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const wrongAccount = invitation && session?.user?.email && session.user.email.toLowerCase() !== invitation.email;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+      <div className="max-w-md w-full bg-white dark:bg-gray-800 rounded-lg shadow p-6 text-center">
+        {invitation ? (
+          <>
+            <div className="mx-auto w-16 h-16 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mb-4">
+              <Users className="h-8 w-8 text-blue-600 dark:text-blue-400" />
+            </div>
+            <h1 className="text-lg sm:text-xl font-medium text-gray-900 dark:text-white mb-2">
+              Join {invitation.workspace.name}
+            </h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              {invitation.invitedBy ? `${invitation.invitedBy} invited` : 'You were invited'} {invitation.email} to
+              join as {invitation.role === 'admin' ? 'an' : 'a'} {invitation.role}, who can {ROLE_DESCRIPTIONS[invitation.role]}.
+            </p>
+            {error && <p className="text-sm text-red-600 dark:text-red-400 mb-4">{error}</p>}
+            {wrongAccount ? (
+              <>
+                <p className="text-sm text-gray-700 dark:text-gray-300 mb-4">
+                  You&apos;re signed in as {session?.user?.email}. Sign in as {invitation.email} to accept.
+                </p>
+                <button
+                  onClick={() => signOut({ callbackUrl: `/invitations/${token}` })}
+                  className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+                >
+                  Switch account
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={handleAccept}
+                disabled={isAccepting}
+                className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isAccepting ? 'Joining...' : 'Accept invitation'}
+              </button>
+            )}
+          </>
+        ) : (
+          <>
+            <div className="mx-auto w-16 h-16 bg-gray-100 dark:bg-gray-700 rounded-full flex items-center justify-center mb-4">
+              <MailX className="h-8 w-8 text-gray-400 dark:text-gray-500" />
+            </div>
+            <h1 className="text-lg sm:text-xl font-medium text-gray-900 dark:text-white mb-2">This invitation can&apos;t be used</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{error}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Ask the person who invited you for a new link.
+            </p>
+          </>
+        )}
+        <button
+          onClick={() => router.push('/dashboard')}
+          className="mt-3 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Go to dashboard
+        </button>
+      </div>
+    </div>
+  );
+}
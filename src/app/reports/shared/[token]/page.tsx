@@ -0,0 +1,63 @@
+import type { Metadata } from 'next';
+import { format, parseISO } from 'date-fns';
+import { Calendar, Link2Off } from 'lucide-react';
+import connectDB from '@/lib/mongodb';
+import { loadSharedReport } from '@/lib/reportSharing';
+import ReportResults from '@/components/ReportResults';
+import { REPORT_GROUPING_LABELS } from '@/utils/reportRanges';
+
+// Read-only view of a shared report; the signed token replaces signing in
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Shared Report - Daily Time Log',
+  robots: { index: false, follow: false },
+};
+
+export default async function SharedReportPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  await connectDB();
+  const shared = await loadSharedReport(token);
+
+  if (!shared) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+        <div className="text-center">
+          <div className="mx-auto w-16 h-16 bg-gray-100 dark:bg-gray-700 rounded-full flex items-center justify-center mb-4">
+            <Link2Off className="h-8 w-8 text-gray-400 dark:text-gray-500" />
+          </div>
+          <h1 className="text-lg sm:text-xl font-medium text-gray-900 dark:text-white mb-2">This link is no longer valid</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 max-w-md">
+            It may have expired or been revoked. Ask the person who shared it for a new link.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { name, report, expiresAt } = shared;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16">
+            <Calendar className="h-6 w-6 sm:h-8 sm:w-8 text-blue-600 mr-2 sm:mr-3 flex-shrink-0" />
+            <h1 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white truncate">{name}</h1>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-3 sm:px-4 lg:px-8 py-4 sm:py-6 lg:py-8 space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {format(parseISO(report.from), 'MMM d, yyyy')} to {format(parseISO(report.to), 'MMM d, yyyy')}
+          {' · '}by {REPORT_GROUPING_LABELS[report.definition.groupBy].toLowerCase()}
+          {report.definition.tags.length > 0 && ` · tagged ${report.definition.tags.join(', ')}`}
+          {' · '}read-only, link valid until {format(expiresAt, 'MMM d, yyyy')}
+        </p>
+        <ReportResults report={report} />
+      </div>
+    </div>
+  );
+}
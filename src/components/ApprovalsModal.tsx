@@ -0,0 +1,260 @@
+'use client';
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { X, ClipboardCheck, Check, XCircle } from 'lucide-react';
+import { TimesheetRecord } from '@/types';
+import { formatDuration } from '@/utils/exportRows';
+import { NotificationType } from './NotificationModal';
+
+interface ApprovalsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onShowNotification: (type: NotificationType, title: string, message: string) => void;
+}
+
+type QueueStatus = 'submitted' | 'approved' | 'rejected';
+
+const QUEUE_TABS: { status: QueueStatus; label: string }[] = [
+  { status: 'submitted', label: 'Awaiting approval' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'rejected', label: 'Rejected' },
+];
+
+const inputClassName = 'block w-full px-3 py-1.5 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+// Approver queue: weekly timesheets sent to workspaces where the user is an
+// owner or admin, with each day's hours as they were when submitted
+export default function ApprovalsModal({
+  isOpen,
+  onClose,
+  onShowNotification
+}: ApprovalsModalProps) {
+  const [status, setStatus] = React.useState<QueueStatus>('submitted');
+  const [timesheets, setTimesheets] = React.useState<TimesheetRecord[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  // Timesheet whose rejection comment is being written
+  const [rejecting, setRejecting] = React.useState<{ id: string; comment: string } | null>(null);
+  const [busyId, setBusyId] = React.useState<string | null>(null);
+
+  const fetchQueue = React.useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/timesheets/approvals?status=${status}`);
+      if (response.ok) {
+        setTimesheets(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching approval queue:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  React.useEffect(() => {
+    if (isOpen) {
+      setRejecting(null);
+      fetchQueue();
+    }
+  }, [isOpen, fetchQueue]);
+
+  const review = async (id: string, decision: 'approve' | 'reject', comment = '') => {
+    try {
+      setBusyId(id);
+      const response = await fetch(`/api/timesheets/approvals/${id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, comment }),
+      });
+
+      if (response.ok) {
+        setRejecting(null);
+        onShowNotification(
+          'success',
+          decision === 'approve' ? 'Timesheet Approved' : 'Timesheet Rejected',
+          decision === 'approve' ? 'The week is now locked.' : 'The week is open for corrections again.'
+        );
+      } else {
+        const data = await response.json();
+        onShowNotification('error', 'Review Failed', data.details?.[0]?.message || data.error || 'Please try again.');
+      }
+      fetchQueue();
+    } catch (error) {
+      console.error('Error reviewing timesheet:', error);
+      onShowNotification('error', 'Review Failed', 'An error occurred. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-3 sm:px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} />
+
+        <div className="inline-block align-bottom bg-white dark:bg-gray-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-3xl sm:w-full w-full mx-3 sm:mx-0">
+          <div className="bg-white dark:bg-gray-800 px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="flex items-center text-base sm:text-lg font-medium text-gray-900 dark:text-white">
+                <ClipboardCheck className="h-5 w-5 mr-2 text-gray-400 dark:text-gray-500" />
+                Timesheet Approvals
+              </h3>
+              <button
+                type="button"
+                onClick={onClose}
+                className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 p-1"
+              >
+                <X className="h-5 w-5 sm:h-6 sm:w-6" />
+              </button>
+            </div>
+
+            <div className="flex border-b border-gray-200 dark:border-gray-700 mb-4">
+              {QUEUE_TABS.map(tab => (
+                <button
+                  key={tab.status}
+                  onClick={() => setStatus(tab.status)}
+                  className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px ${
+                    status === tab.status
+                      ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                      : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-1">
+              {isLoading ? (
+                <div className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">Loading...</div>
+              ) : timesheets.length === 0 ? (
+                <div className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">
+                  {status === 'submitted' ? 'Nothing is waiting for your approval.' : 'No timesheets here yet.'}
+                </div>
+              ) : (
+                timesheets.map(timesheet => {
+                  const id = timesheet._id!;
+                  const person = typeof timesheet.userId === 'object' ? timesheet.userId : null;
+                  const maxMs = Math.max(1, ...(timesheet.days || []).map(day => day.totalMs));
+                  return (
+                    <div key={id} className="p-3 sm:p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                            {person ? person.name : 'Former member'}
+                            {timesheet.workspaceId && (
+                              <span className="font-normal text-gray-500 dark:text-gray-400"> in {timesheet.workspaceId.name}</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {format(parseISO(timesheet.weekStart), 'MMM d')} to {format(parseISO(timesheet.weekEnd), 'MMM d, yyyy')}
+                            {timesheet.submittedAt && ` · submitted ${format(new Date(timesheet.submittedAt), 'MMM d, h:mm a')}`}
+                          </p>
+                        </div>
+                        <div className="text-left sm:text-right flex-shrink-0">
+                          <p className="text-sm font-semibold text-gray-900 dark:text-white tabular-nums">
+                            {formatDuration(timesheet.totalMs || 0)}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400 tabular-nums">
+                            {formatDuration(timesheet.billableMs || 0)} billable
+                          </p>
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-7 gap-1 mt-3">
+                        {(timesheet.days || []).map(day => (
+                          <div key={day.date} className="text-center" title={`${formatDuration(day.totalMs)} (${formatDuration(day.billableMs)} billable)`}>
+                            <div className="h-10 flex items-end justify-center">
+                              <div
+                                className="w-4 sm:w-6 rounded-t bg-blue-500"
+                                style={{ height: `${(day.totalMs / maxMs) * 100}%` }}
+                              />
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{format(parseISO(day.date), 'EEE')}</div>
+                            <div className="text-xs text-gray-700 dark:text-gray-300 tabular-nums">{(day.totalMs / 3600000).toFixed(1)}h</div>
+                          </div>
+                        ))}
+                      </div>
+
+                      {timesheet.status !== 'submitted' && (
+                        <p className="mt-3 text-xs text-gray-600 dark:text-gray-400">
+                          {timesheet.status === 'approved' ? 'Approved' : 'Rejected'}
+                          {timesheet.reviewedBy && ` by ${timesheet.reviewedBy.name}`}
+                          {timesheet.reviewedAt && ` on ${format(new Date(timesheet.reviewedAt), 'MMM d')}`}
+                          {timesheet.comment && <>: &ldquo;{timesheet.comment}&rdquo;</>}
+                        </p>
+                      )}
+
+                      {rejecting && rejecting.id === id ? (
+                        <div className="mt-3 space-y-2">
+                          <textarea
+                            value={rejecting.comment}
+                            onChange={(e) => setRejecting({ id, comment: e.target.value })}
+                            rows={2}
+                            maxLength={1000}
+                            placeholder="What needs to change?"
+                            className={inputClassName}
+                            autoFocus
+                          />
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => setRejecting(null)}
+                              className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:underline"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              onClick={() => review(id, 'reject', rejecting.comment)}
+                              disabled={busyId === id || !rejecting.comment.trim()}
+                              className="px-3 py-1.5 text-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {timesheet.status === 'approved' ? 'Reopen week' : 'Reject'}
+                            </button>
+                          </div>
+                        </div>
+                      ) : timesheet.status !== 'rejected' && (
+                        <div className="mt-3 flex justify-end gap-2">
+                          <button
+                            onClick={() => setRejecting({ id, comment: '' })}
+                            disabled={busyId === id}
+                            className="flex items-center px-3 py-1.5 text-sm font-medium text-red-600 dark:text-red-400 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+                            title={timesheet.status === 'approved' ? 'Send the week back for corrections' : 'Send the week back with a comment'}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            {timesheet.status === 'approved' ? 'Reopen' : 'Reject'}
+                          </button>
+                          {timesheet.status === 'submitted' && (
+                            <button
+                              onClick={() => review(id, 'approve')}
+                              disabled={busyId === id}
+                              className="flex items-center px-3 py-1.5 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Approve
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+
+          <div className="bg-gray-50 dark:bg-gray-700 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-full sm:w-auto inline-flex justify-center rounded-md border border-gray-300 dark:border-gray-600 shadow-sm px-4 py-2 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,445 @@
+'use client';
+
+import React from 'react';
+import { signIn } from 'next-auth/react';
+import { X, Calendar, Server } from 'lucide-react';
+import { CalDavConnection, CalendarSettings, GoogleConnection, Project } from '@/types';
+import { NotificationType } from './NotificationModal';
+
+interface CalendarSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: Project[];
+  onShowNotification: (type: NotificationType, title: string, message: string) => void;
+}
+
+// Calendar ids are only unique per provider
+const calendarKey = (calendar: CalendarSettings) => `${calendar.provider}:${calendar.calendarId}`;
+
+const inputClassName = 'block w-full px-3 py-1.5 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+export default function CalendarSettingsModal({
+  isOpen,
+  onClose,
+  projects,
+  onShowNotification
+}: CalendarSettingsModalProps) {
+  const [calendars, setCalendars] = React.useState<CalendarSettings[]>([]);
+  // Keys of calendars with unsaved changes
+  const [dirtyIds, setDirtyIds] = React.useState<string[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [isSaving, setIsSaving] = React.useState(false);
+  const [error, setError] = React.useState('');
+  const [google, setGoogle] = React.useState<GoogleConnection | null>(null);
+  const [caldav, setCaldav] = React.useState<CalDavConnection | null>(null);
+  const [caldavForm, setCaldavForm] = React.useState({ serverUrl: '', username: '', password: '' });
+  const [isConnecting, setIsConnecting] = React.useState(false);
+
+  const fetchCalendars = React.useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+    setDirtyIds([]);
+
+    try {
+      const [calendarsResponse, googleResponse, caldavResponse] = await Promise.all([
+        fetch('/api/calendar/calendars'),
+        fetch('/api/calendar/connection'),
+        fetch('/api/calendar/caldav'),
+      ]);
+      const data = await calendarsResponse.json();
+      if (calendarsResponse.ok) {
+        setCalendars(data);
+      } else {
+        setCalendars([]);
+        setError(data.error || 'Failed to load calendars');
+      }
+      if (googleResponse.ok) {
+        setGoogle(await googleResponse.json());
+      }
+      if (caldavResponse.ok) {
+        setCaldav(await caldavResponse.json());
+      }
+    } catch (error) {
+      console.error('Error fetching calendars:', error);
+      setError('Failed to load calendars');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (isOpen) fetchCalendars();
+  }, [isOpen, fetchCalendars]);
+
+  const updateCalendar = (target: CalendarSettings, changes: Partial<CalendarSettings>) => {
+    const key = calendarKey(target);
+    setCalendars(prev => prev.map(calendar =>
+      calendarKey(calendar) === key ? { ...calendar, ...changes } : calendar
+    ));
+    setDirtyIds(prev => (prev.indexOf(key) === -1 ? prev.concat(key) : prev));
+  };
+
+  const updateRules = (calendar: CalendarSettings, changes: Partial<CalendarSettings['rules']>) => {
+    updateCalendar(calendar, { rules: { ...calendar.rules, ...changes } });
+  };
+
+  const handleConnectCaldav = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsConnecting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/calendar/caldav', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(caldavForm),
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        setCaldavForm({ serverUrl: '', username: '', password: '' });
+        onShowNotification('success', 'CalDAV Connected', `Found ${result.calendars.length} calendar(s) on ${result.serverUrl}.`);
+        await fetchCalendars();
+      } else {
+        const detail = result.details && result.details[0] ? `: ${result.details[0].message}` : '';
+        setError(`${result.error || 'Failed to connect'}${detail}`);
+      }
+    } catch (error) {
+      console.error('Error connecting CalDAV server:', error);
+      setError('An error occurred while connecting');
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleDisconnectGoogle = async () => {
+    setIsConnecting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/calendar/connection', { method: 'DELETE' });
+      if (response.ok) {
+        onShowNotification('success', 'Google Disconnected', 'Google Calendar access was revoked. Synced entries were kept.');
+        await fetchCalendars();
+      } else {
+        setError('Failed to disconnect Google Calendar');
+      }
+    } catch (error) {
+      console.error('Error disconnecting Google Calendar:', error);
+      setError('An error occurred while disconnecting');
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleDisconnectCaldav = async () => {
+    setIsConnecting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/calendar/caldav', { method: 'DELETE' });
+      if (response.ok) {
+        await fetchCalendars();
+      } else {
+        setError('Failed to disconnect the CalDAV server');
+      }
+    } catch (error) {
+      console.error('Error disconnecting CalDAV server:', error);
+      setError('An error occurred while disconnecting');
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+
+    try {
+      for (const calendar of calendars.filter(c => dirtyIds.indexOf(calendarKey(c)) !== -1)) {
+        const url = `/api/calendar/calendars/${encodeURIComponent(calendar.calendarId)}?provider=${calendar.provider}`;
+        const response = await fetch(url, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: calendar.name,
+            enabled: calendar.enabled,
+            rules: {
+              ...calendar.rules,
+              skipTitlePattern: calendar.rules.skipTitlePattern || null,
+              projectId: calendar.rules.projectId || null,
+            },
+          }),
+        });
+
+        if (!response.ok) {
+          const result = await response.json().catch(() => ({}));
+          const detail = result.details && result.details[0] ? `: ${result.details[0].message}` : '';
+          setError(`${calendar.name}: ${result.error || 'Failed to save'}${detail}`);
+          return;
+        }
+      }
+
+      onShowNotification('success', 'Calendars Saved', 'Changes apply from the next calendar sync.');
+      onClose();
+    } catch (error) {
+      console.error('Error saving calendars:', error);
+      setError('An error occurred while saving');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-3 sm:px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} />
+
+        <div className="inline-block align-bottom bg-white dark:bg-gray-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full w-full mx-3 sm:mx-0">
+          <div className="bg-white dark:bg-gray-800 px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-base sm:text-lg font-medium text-gray-900 dark:text-white">
+                Calendars
+              </h3>
+              <button
+                type="button"
+                onClick={onClose}
+                className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 p-1"
+              >
+                <X className="h-5 w-5 sm:h-6 sm:w-6" />
+              </button>
+            </div>
+
+            {error && (
+              <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded-md">
+                {error}
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+                {calendars.map(calendar => (
+                  <div
+                    key={calendarKey(calendar)}
+                    className="p-3 sm:p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-700/50"
+                  >
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={calendar.enabled}
+                        onChange={(e) => updateCalendar(calendar, { enabled: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-3"
+                      />
+                      <span
+                        className="w-3 h-3 rounded-full mr-2 flex-shrink-0"
+                        style={{ backgroundColor: calendar.color || '#3b82f6' }}
+                      />
+                      <span className="text-sm font-medium text-gray-900 dark:text-white truncate">{calendar.name}</span>
+                      {calendar.primary && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300">
+                          primary
+                        </span>
+                      )}
+                      {calendar.provider === 'caldav' && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-300">
+                          CalDAV
+                        </span>
+                      )}
+                    </label>
+
+                    {calendar.enabled && (
+                      <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+                        <label className="flex items-center text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={calendar.rules.skipAllDay}
+                            onChange={(e) => updateRules(calendar, { skipAllDay: e.target.checked })}
+                            className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                          />
+                          Skip all-day events
+                        </label>
+                        <label className="flex items-center text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={calendar.rules.skipDeclined}
+                            onChange={(e) => updateRules(calendar, { skipDeclined: e.target.checked })}
+                            className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                          />
+                          Skip declined events
+                        </label>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                            Skip titles matching
+                          </label>
+                          <input
+                            type="text"
+                            value={calendar.rules.skipTitlePattern || ''}
+                            onChange={(e) => updateRules(calendar, { skipTitlePattern: e.target.value })}
+                            className={inputClassName}
+                            placeholder="e.g. lunch* | focus time"
+                            title="Separate alternatives with |. * matches any text."
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                            Assign project
+                          </label>
+                          <select
+                            value={calendar.rules.projectId || ''}
+                            onChange={(e) => updateRules(calendar, { projectId: e.target.value || null })}
+                            className={inputClassName}
+                          >
+                            <option value="">No project</option>
+                            {projects.map(project => (
+                              <option key={project._id} value={project._id}>{project.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="sm:col-span-2">
+                          <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                            Assign tags (comma separated)
+                          </label>
+                          <input
+                            type="text"
+                            value={calendar.rules.tags.join(', ')}
+                            onChange={(e) => updateRules(calendar, {
+                              tags: e.target.value.split(',').map(tag => tag.trim()).filter(Boolean),
+                            })}
+                            className={inputClassName}
+                            placeholder="e.g. meetings"
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+
+                {calendars.length === 0 && !error && (
+                  <div className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">
+                    <Calendar className="h-8 w-8 mx-auto mb-2 text-gray-400 dark:text-gray-500" />
+                    No calendars found.
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <div className="flex items-center mb-2 text-sm font-medium text-gray-900 dark:text-white">
+                <Calendar className="h-4 w-4 mr-2 text-gray-400 dark:text-gray-500" />
+                Google Calendar
+              </div>
+              <div className="flex items-center justify-between gap-3 text-sm">
+                <span className={google?.revoked ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'}>
+                  {google?.connected ? 'Connected' : google?.revoked ? 'Access was revoked' : 'Not connected'}
+                </span>
+                <div className="flex-shrink-0 flex gap-3">
+                  {!google?.connected && (
+                    <button
+                      type="button"
+                      onClick={() => signIn('google', { callbackUrl: '/dashboard' })}
+                      className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                    >
+                      {google?.revoked ? 'Reconnect' : 'Connect'}
+                    </button>
+                  )}
+                  {(google?.connected || google?.revoked) && (
+                    <button
+                      type="button"
+                      onClick={handleDisconnectGoogle}
+                      disabled={isConnecting}
+                      className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 disabled:opacity-50"
+                    >
+                      Disconnect
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <div className="flex items-center mb-2 text-sm font-medium text-gray-900 dark:text-white">
+                <Server className="h-4 w-4 mr-2 text-gray-400 dark:text-gray-500" />
+                CalDAV server
+              </div>
+              {caldav?.connected ? (
+                <div className="flex items-center justify-between gap-3 text-sm">
+                  <span className="text-gray-600 dark:text-gray-400 truncate">
+                    {caldav.username} at {caldav.serverUrl}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={handleDisconnectCaldav}
+                    disabled={isConnecting}
+                    className="flex-shrink-0 text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 disabled:opacity-50"
+                  >
+                    Disconnect
+                  </button>
+                </div>
+              ) : (
+                <form onSubmit={handleConnectCaldav} className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  <input
+                    type="url"
+                    required
+                    value={caldavForm.serverUrl}
+                    onChange={(e) => setCaldavForm({ ...caldavForm, serverUrl: e.target.value })}
+                    className={`${inputClassName} sm:col-span-3`}
+                    placeholder="Server URL, e.g. https://cloud.example.com/remote.php/dav"
+                  />
+                  <input
+                    type="text"
+                    required
+                    value={caldavForm.username}
+                    onChange={(e) => setCaldavForm({ ...caldavForm, username: e.target.value })}
+                    className={inputClassName}
+                    placeholder="Username"
+                    autoComplete="off"
+                  />
+                  <input
+                    type="password"
+                    required
+                    value={caldavForm.password}
+                    onChange={(e) => setCaldavForm({ ...caldavForm, password: e.target.value })}
+                    className={inputClassName}
+                    placeholder="Password or app password"
+                    autoComplete="new-password"
+                  />
+                  <button
+                    type="submit"
+                    disabled={isConnecting}
+                    className="inline-flex justify-center rounded-md border border-gray-300 dark:border-gray-600 px-3 py-1.5 bg-white dark:bg-gray-700 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    {isConnecting ? 'Connecting...' : 'Connect'}
+                  </button>
+                </form>
+              )}
+            </div>
+          </div>
+
+          <div className="bg-gray-50 dark:bg-gray-700 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse gap-3">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving || dirtyIds.length === 0}
+              className="w-full sm:w-auto inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 sm:mt-0 w-full sm:w-auto inline-flex justify-center rounded-md border border-gray-300 dark:border-gray-600 shadow-sm px-4 py-2 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,15 +3,17 @@
 import { useState } from 'react';
 import { format, parseISO, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, addMonths, subMonths } from 'date-fns';
 import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { todayInTimeZone } from '@/utils/timezone';
 
 interface CalendarViewProps {
   isOpen: boolean;
   onClose: () => void;
   onDateSelect: (date: string) => void;
   selectedDate: string;
+  timeZone?: string;
 }
 
-export default function CalendarView({ isOpen, onClose, onDateSelect, selectedDate }: CalendarViewProps) {
+export default function CalendarView({ isOpen, onClose, onDateSelect, selectedDate, timeZone }: CalendarViewProps) {
   const [currentMonth, setCurrentMonth] = useState(new Date());
 
   if (!isOpen) return null;
@@ -29,6 +31,7 @@ export default function CalendarView({ isOpen, onClose, onDateSelect, selectedDa
   });
 
   const allDays = [...daysBeforeMonth, ...daysInMonth];
+  const today = timeZone ? parseISO(todayInTimeZone(timeZone)) : new Date();
 
   const handleDateClick = (date: Date) => {
     onDateSelect(format(date, 'yyyy-MM-dd'));
@@ -106,7 +109,7 @@ export default function CalendarView({ isOpen, onClose, onDateSelect, selectedDa
               {allDays.map((day, index) => {
                 const isCurrentMonth = isSameMonth(day, currentMonth);
                 const isSelected = isSameDay(day, parseISO(selectedDate));
-                const isToday = isSameDay(day, new Date());
+                const isToday = isSameDay(day, today);
 
                 return (
                   <button
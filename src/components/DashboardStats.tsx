@@ -1,9 +1,11 @@
 'use client';
 
 import React from 'react';
-import { Clock, TrendingUp, Calendar, BarChart3 } from 'lucide-react';
-import { LogEntry } from '@/types';
+import { Clock, TrendingUp, Calendar, BarChart3, Folder } from 'lucide-react';
+import { LogEntry, Project } from '@/types';
 import { format, parseISO } from 'date-fns';
+import { formatCurrency, getEntryAmount } from '@/utils/billing';
+import { getUnionDuration } from '@/utils/intervals';
 
 interface DayLog {
   date: string;
@@ -12,10 +14,21 @@ interface DayLog {
 
 interface DashboardStatsProps {
   logs: DayLog[];
+  projects?: Project[];
+  defaultHourlyRate?: number | null;
+  currency?: string;
+  timeZone: string;
   isLoading: boolean;
 }
 
-export default function DashboardStats({ logs, isLoading }: DashboardStatsProps) {
+export default function DashboardStats({
+  logs,
+  projects = [],
+  defaultHourlyRate,
+  currency = 'USD',
+  timeZone,
+  isLoading
+}: DashboardStatsProps) {
   const getStatistics = () => {
     const totalEntries = logs.reduce((acc, log) => acc + log.entries.length, 0);
     const totalDuration = logs.reduce((acc, log) => acc + getTotalDuration(log.entries), 0);
@@ -25,30 +38,56 @@ export default function DashboardStats({ logs, isLoading }: DashboardStatsProps)
     const calendarEntries = logs.reduce((acc, log) => 
       acc + log.entries.filter(entry => entry.type === 'calendar').length, 0
     );
+    const billableEntries = logs.reduce<LogEntry[]>((acc, log) =>
+      acc.concat(log.entries.filter(entry => entry.billable)), []
+    );
+    const billableDuration = getTotalDuration(billableEntries);
+    const billableAmount = billableEntries.reduce((acc, entry) =>
+      acc + getEntryAmount(entry, projects, defaultHourlyRate, timeZone), 0
+    );
     const averageDuration = logs.length > 0 ? totalDuration / logs.length : 0;
     const mostProductiveDay = logs.reduce((max, log) => 
       getTotalDuration(log.entries) > getTotalDuration(max.entries) ? log : max, 
       logs[0] || { entries: [], date: '' }
     );
 
+    // Per-project totals, including time that isn't assigned to any project
+    const durationByProject = logs.reduce<Record<string, number>>((acc, log) => {
+      log.entries.forEach(entry => {
+        const key = entry.projectId || '';
+        acc[key] = (acc[key] || 0) + getTotalDuration([entry]);
+      });
+      return acc;
+    }, {});
+    const projectTotals = Object.keys(durationByProject)
+      .map(projectId => {
+        const project = projects.find(p => p._id === projectId);
+        return {
+          projectId,
+          name: project ? project.name : projectId ? 'Deleted project' : 'No project',
+          color: project ? project.color : '#9ca3af',
+          duration: durationByProject[projectId],
+        };
+      })
+      .sort((a, b) => b.duration - a.duration);
+
     return {
       totalEntries,
       totalDuration,
       manualEntries,
       calendarEntries,
+      billableDuration,
+      nonBillableDuration: totalDuration - billableDuration,
+      billableAmount,
       averageDuration,
       mostProductiveDay,
+      projectTotals,
       daysTracked: logs.length
     };
   };
 
-  const getTotalDuration = (entries: LogEntry[]) => {
-    return entries.reduce((total, entry) => {
-      const start = parseISO(entry.startTime);
-      const end = parseISO(entry.endTime);
-      return total + (end.getTime() - start.getTime());
-    }, 0);
-  };
+  // Overlapping entries (e.g. a synced meeting over a manual entry) count once
+  const getTotalDuration = (entries: LogEntry[]) => getUnionDuration(entries, timeZone);
 
   const formatDuration = (ms: number) => {
     const hours = Math.floor(ms / (1000 * 60 * 60));
@@ -140,7 +179,7 @@ export default function DashboardStats({ logs, isLoading }: DashboardStatsProps)
             </div>
           </div>
         </div>
-        <div className="mt-3 sm:mt-4 grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-4">
+        <div className="mt-3 sm:mt-4 grid grid-cols-1 lg:grid-cols-3 gap-3 sm:gap-4">
           <div className="bg-white dark:bg-gray-800 p-4 sm:p-6 rounded-lg border border-gray-200 dark:border-gray-700">
             <h3 className="text-base sm:text-lg font-medium text-gray-900 dark:text-white mb-3">Entry Types</h3>
             <div className="space-y-2">
@@ -154,6 +193,21 @@ export default function DashboardStats({ logs, isLoading }: DashboardStatsProps)
               </div>
             </div>
           </div>
+          <div className="bg-white dark:bg-gray-800 p-4 sm:p-6 rounded-lg border border-gray-200 dark:border-gray-700">
+            <h3 className="text-base sm:text-lg font-medium text-gray-900 dark:text-white mb-3">Billing</h3>
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-600 dark:text-gray-400">Billable</span>
+                <span className="text-sm font-medium text-emerald-600">
+                  {formatDuration(stats.billableDuration)} · {formatCurrency(stats.billableAmount, currency)}
+                </span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-600 dark:text-gray-400">Non-billable</span>
+                <span className="text-sm font-medium text-gray-500 dark:text-gray-400">{formatDuration(stats.nonBillableDuration)}</span>
+              </div>
+            </div>
+          </div>
           <div className="bg-white dark:bg-gray-800 p-4 sm:p-6 rounded-lg border border-gray-200 dark:border-gray-700">
             <h3 className="text-base sm:text-lg font-medium text-gray-900 dark:text-white mb-3">Most Productive Day</h3>
             <div className="text-sm text-gray-600 dark:text-gray-400">
@@ -164,6 +218,36 @@ export default function DashboardStats({ logs, isLoading }: DashboardStatsProps)
             </div>
           </div>
         </div>
+        {stats.projectTotals.length > 0 && (
+          <div className="mt-3 sm:mt-4 bg-white dark:bg-gray-800 p-4 sm:p-6 rounded-lg border border-gray-200 dark:border-gray-700">
+            <h3 className="text-base sm:text-lg font-medium text-gray-900 dark:text-white mb-3 flex items-center">
+              <Folder className="h-4 w-4 sm:h-5 sm:w-5 mr-2 text-gray-500 dark:text-gray-400" />
+              Time by Project
+            </h3>
+            <div className="space-y-2">
+              {stats.projectTotals.map(total => (
+                <div key={total.projectId || 'none'}>
+                  <div className="flex justify-between items-center">
+                    <span className="flex items-center text-sm text-gray-600 dark:text-gray-400 min-w-0">
+                      <span className="w-2 h-2 sm:w-3 sm:h-3 rounded-full mr-2 flex-shrink-0" style={{ backgroundColor: total.color }} />
+                      <span className="truncate">{total.name}</span>
+                    </span>
+                    <span className="text-sm font-medium text-gray-900 dark:text-white ml-2 flex-shrink-0">{formatDuration(total.duration)}</span>
+                  </div>
+                  <div className="mt-1 h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{
+                        width: `${stats.totalDuration > 0 ? (total.duration / stats.totalDuration) * 100 : 0}%`,
+                        backgroundColor: total.color,
+                      }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
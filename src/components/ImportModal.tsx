@@ -0,0 +1,304 @@
+'use client';
+
+import React from 'react';
+import { X, Upload } from 'lucide-react';
+import { CsvImportField, ImportPreview, ImportSource } from '@/types';
+import { formatEntryTime } from '@/utils/timezone';
+import { NotificationType } from './NotificationModal';
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+  timeZone: string;
+  onShowNotification: (type: NotificationType, title: string, message: string) => void;
+}
+
+const SOURCES: { source: ImportSource; label: string }[] = [
+  { source: 'csv', label: 'CSV or TSV file' },
+  { source: 'toggl', label: 'Toggl Track export' },
+  { source: 'clockify', label: 'Clockify export' },
+  { source: 'harvest', label: 'Harvest export' },
+];
+
+const FIELDS: { field: CsvImportField; label: string }[] = [
+  { field: 'date', label: 'Date' },
+  { field: 'start', label: 'Start time' },
+  { field: 'end', label: 'End time' },
+  { field: 'duration', label: 'Duration' },
+  { field: 'title', label: 'Title' },
+  { field: 'description', label: 'Description' },
+  { field: 'type', label: 'Type' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'billable', label: 'Billable' },
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  new: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  duplicate: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  error: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const inputClassName = 'block w-full px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+export default function ImportModal({
+  isOpen,
+  onClose,
+  onImported,
+  timeZone,
+  onShowNotification
+}: ImportModalProps) {
+  const [source, setSource] = React.useState<ImportSource>('csv');
+  const [fileName, setFileName] = React.useState('');
+  const [content, setContent] = React.useState('');
+  const [preview, setPreview] = React.useState<ImportPreview | null>(null);
+  const [skipInvalidRows, setSkipInvalidRows] = React.useState(false);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  React.useEffect(() => {
+    if (!isOpen) {
+      setSource('csv');
+      setFileName('');
+      setContent('');
+      setPreview(null);
+      setSkipInvalidRows(false);
+      setError('');
+    }
+  }, [isOpen]);
+
+  // Without a mapping the server guesses one from the CSV headers
+  const runImport = async (
+    from: ImportSource,
+    text: string,
+    mapping: ImportPreview['mapping'] | null,
+    dryRun: boolean
+  ): Promise<ImportPreview | null> => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(from === 'csv' ? '/api/import/csv' : '/api/import/tracker', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(from === 'csv'
+          ? { content: text, ...(mapping ? { mapping } : {}), dryRun, skipInvalidRows }
+          : { source: from, content: text, dryRun, skipInvalidRows }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (data.summary) setPreview(data);
+      if (!response.ok) {
+        setError(data.error || 'Failed to read the file');
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error('Error importing file:', error);
+      setError('Failed to read the file. Please try again.');
+      return null;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setContent(text);
+    setPreview(null);
+    runImport(source, text, null, true);
+  };
+
+  const handleSourceChange = (value: ImportSource) => {
+    setSource(value);
+    setPreview(null);
+    if (content) runImport(value, content, null, true);
+  };
+
+  const handleMappingChange = (field: CsvImportField, header: string) => {
+    if (!preview) return;
+    runImport(source, content, { ...preview.mapping, [field]: header || null }, true);
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    const result = await runImport(source, content, preview.mapping || null, false);
+    if (result?.committed) {
+      onImported();
+      const projects = result.projectsCreated ? `, ${result.projectsCreated} projects created` : '';
+      onShowNotification(
+        'success',
+        'Import Complete',
+        `${fileName}: ${result.entriesAdded} entries added, ${result.summary.duplicates} duplicates skipped${projects}.`
+      );
+      onClose();
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const importable = preview ? preview.summary.new : 0;
+  const blocked = !!preview && preview.summary.errors > 0 && !skipInvalidRows;
+  // Only CSV imports have columns to map
+  const mapping = preview?.mapping;
+  const headers = preview?.headers;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-3 sm:px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} />
+
+        <div className="inline-block align-bottom bg-white dark:bg-gray-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-4xl sm:w-full w-full mx-3 sm:mx-0">
+          <div className="bg-white dark:bg-gray-800 px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-base sm:text-lg font-medium text-gray-900 dark:text-white">
+                Import Time Entries
+              </h3>
+              <button
+                type="button"
+                onClick={onClose}
+                className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 p-1"
+              >
+                <X className="h-5 w-5 sm:h-6 sm:w-6" />
+              </button>
+            </div>
+
+            <select
+              value={source}
+              onChange={(e) => handleSourceChange(e.target.value as ImportSource)}
+              disabled={isLoading}
+              className={`${inputClassName} mb-3`}
+            >
+              {SOURCES.map(option => (
+                <option key={option.source} value={option.source}>{option.label}</option>
+              ))}
+            </select>
+
+            <label className="flex items-center justify-center px-4 py-3 mb-4 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer text-sm text-gray-600 dark:text-gray-400 hover:border-blue-400">
+              <Upload className="h-4 w-4 mr-2" />
+              {fileName || (source === 'csv' ? 'Choose a CSV or TSV file' : 'Choose the exported CSV or JSON file')}
+              <input type="file" accept=".csv,.tsv,.txt,.json,text/csv,text/tab-separated-values,application/json" onChange={handleFileChange} className="hidden" />
+            </label>
+
+            {error && (
+              <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded-md">
+                {error}
+              </div>
+            )}
+
+            {preview && (
+              <>
+                {mapping && headers && (
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-4">
+                    {FIELDS.map(({ field, label }) => (
+                      <div key={field}>
+                        <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                          {label}
+                        </label>
+                        <select
+                          value={mapping[field] || ''}
+                          onChange={(e) => handleMappingChange(field, e.target.value)}
+                          disabled={isLoading}
+                          className={inputClassName}
+                        >
+                          <option value="">Not in file</option>
+                          {headers.map(header => (
+                            <option key={header} value={header}>{header}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="mb-2 text-sm text-gray-600 dark:text-gray-400">
+                  {preview.summary.rows} rows: {preview.summary.new} new, {preview.summary.duplicates} duplicates, {preview.summary.errors} with errors
+                  {preview.truncated && ` (showing the first ${preview.rows.length})`}
+                  {preview.newProjects.length > 0 && (
+                    <div>New projects: {preview.newProjects.join(', ')}</div>
+                  )}
+                </div>
+
+                <div className="max-h-[40vh] overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 dark:bg-gray-700 text-xs text-gray-500 dark:text-gray-400 text-left sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2">Row</th>
+                        <th className="px-3 py-2">Date</th>
+                        <th className="px-3 py-2">Time</th>
+                        <th className="px-3 py-2">Title</th>
+                        <th className="px-3 py-2">Status</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+                      {preview.rows.map(row => (
+                        <tr key={row.row}>
+                          <td className="px-3 py-2 text-gray-500 dark:text-gray-400">{row.row}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">{row.date || '-'}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">
+                            {row.entry
+                              ? `${formatEntryTime(row.entry.startTime, timeZone)} - ${formatEntryTime(row.entry.endTime, timeZone)}`
+                              : '-'}
+                          </td>
+                          <td className="px-3 py-2">
+                            {row.entry ? row.entry.title : row.errors.join('; ')}
+                            {row.entry?.projectName && (
+                              <span className="block text-xs text-gray-500 dark:text-gray-400">{row.entry.projectName}</span>
+                            )}
+                            {row.warnings.length > 0 && (
+                              <span className="block text-xs text-yellow-700 dark:text-yellow-400">{row.warnings.join('; ')}</span>
+                            )}
+                          </td>
+                          <td className="px-3 py-2">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[row.status]}`}>
+                              {row.status}
+                            </span>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {preview.summary.errors > 0 && (
+                  <label className="flex items-center mt-3 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={skipInvalidRows}
+                      onChange={(e) => setSkipInvalidRows(e.target.checked)}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded mr-2"
+                    />
+                    Skip rows with errors
+                  </label>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="bg-gray-50 dark:bg-gray-700 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse gap-3">
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={isLoading || !preview || importable === 0 || blocked}
+              className="w-full sm:w-auto inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Working...' : `Import ${importable} ${importable === 1 ? 'entry' : 'entries'}`}
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 sm:mt-0 w-full sm:w-auto inline-flex justify-center rounded-md border border-gray-300 dark:border-gray-600 shadow-sm px-4 py-2 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,430 @@
+'use client';
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { X, Receipt, Eye, FileDown, Ban } from 'lucide-react';
+import { Client, Invoice, InvoiceGrouping, InvoicePreview } from '@/types';
+import { formatCurrency } from '@/utils/billing';
+import { INVOICE_GROUPINGS, INVOICE_GROUPING_LABELS } from '@/utils/invoicing';
+import { todayInTimeZone } from '@/utils/timezone';
+import ConfirmationModal from './ConfirmationModal';
+import { NotificationType } from './NotificationModal';
+
+interface InvoicesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  timeZone: string;
+  // Creating or voiding an invoice changes which entries are marked invoiced
+  onEntriesChange: () => void;
+  onShowNotification: (type: NotificationType, title: string, message: string) => void;
+}
+
+const inputClassName = 'block w-full px-3 py-1.5 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+const labelClassName = 'block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+// Bills a client for their uninvoiced billable entries in a date range and
+// lists the invoices issued so far
+export default function InvoicesModal({
+  isOpen,
+  onClose,
+  timeZone,
+  onEntriesChange,
+  onShowNotification
+}: InvoicesModalProps) {
+  const [clients, setClients] = React.useState<Client[]>([]);
+  const [invoices, setInvoices] = React.useState<Invoice[]>([]);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [clientId, setClientId] = React.useState('');
+  const [from, setFrom] = React.useState(() => `${todayInTimeZone(timeZone).slice(0, 8)}01`);
+  const [to, setTo] = React.useState(() => todayInTimeZone(timeZone));
+  const [groupBy, setGroupBy] = React.useState<InvoiceGrouping>('project');
+  const [dueDate, setDueDate] = React.useState('');
+  const [notes, setNotes] = React.useState('');
+  const [preview, setPreview] = React.useState<InvoicePreview | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+  const [voiding, setVoiding] = React.useState<Invoice | null>(null);
+  const [isVoiding, setIsVoiding] = React.useState(false);
+
+  const fetchInvoices = React.useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [clientsResponse, invoicesResponse] = await Promise.all([
+        fetch('/api/clients'),
+        fetch('/api/invoices'),
+      ]);
+      if (clientsResponse.ok) {
+        setClients(await clientsResponse.json());
+      }
+      if (invoicesResponse.ok) {
+        setInvoices(await invoicesResponse.json());
+      }
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    if (isOpen) {
+      setPreview(null);
+      fetchInvoices();
+    }
+  }, [isOpen, fetchInvoices]);
+
+  // A preview is only good for the form it was made from
+  React.useEffect(() => {
+    setPreview(null);
+  }, [clientId, from, to, groupBy]);
+
+  const requestBody = () => JSON.stringify({
+    clientId,
+    from,
+    to,
+    groupBy,
+    dueDate: dueDate || null,
+    notes: notes.trim(),
+  });
+
+  const handlePreview = async () => {
+    try {
+      setIsSubmitting(true);
+      const response = await fetch('/api/invoices/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: requestBody(),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setPreview(data);
+      } else {
+        onShowNotification('error', 'Preview Failed', data.details?.[0]?.message || data.error || 'Please try again.');
+      }
+    } catch (error) {
+      console.error('Error previewing invoice:', error);
+      onShowNotification('error', 'Preview Failed', 'An error occurred. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      setIsSubmitting(true);
+      const response = await fetch('/api/invoices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: requestBody(),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setPreview(null);
+        setNotes('');
+        onShowNotification('success', 'Invoice Created', `${data.number} for ${formatCurrency(data.total, data.currency)} is ready.`);
+        onEntriesChange();
+        fetchInvoices();
+      } else {
+        onShowNotification('error', 'Invoice Failed', data.details?.[0]?.message || data.error || 'Please try again.');
+      }
+    } catch (error) {
+      console.error('Error creating invoice:', error);
+      onShowNotification('error', 'Invoice Failed', 'An error occurred. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVoid = async () => {
+    if (!voiding) return;
+
+    try {
+      setIsVoiding(true);
+      const response = await fetch(`/api/invoices/${voiding._id}`, { method: 'DELETE' });
+
+      if (response.ok) {
+        onShowNotification('success', 'Invoice Voided', `${voiding.number}'s entries can be billed again.`);
+        onEntriesChange();
+      } else {
+        const data = await response.json();
+        onShowNotification('error', 'Void Failed', data.error || 'Please try again.');
+      }
+      fetchInvoices();
+    } catch (error) {
+      console.error('Error voiding invoice:', error);
+      onShowNotification('error', 'Void Failed', 'An error occurred. Please try again.');
+    } finally {
+      setIsVoiding(false);
+      setVoiding(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const clientNames: Record<string, string> = {};
+  clients.forEach(client => {
+    clientNames[client._id] = client.name;
+  });
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-3 sm:px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} />
+
+        <div className="inline-block align-bottom bg-white dark:bg-gray-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-3xl sm:w-full w-full mx-3 sm:mx-0">
+          <div className="bg-white dark:bg-gray-800 px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="flex items-center text-base sm:text-lg font-medium text-gray-900 dark:text-white">
+                <Receipt className="h-5 w-5 mr-2 text-gray-400 dark:text-gray-500" />
+                Invoices
+              </h3>
+              <button
+                type="button"
+                onClick={onClose}
+                className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 p-1"
+              >
+                <X className="h-5 w-5 sm:h-6 sm:w-6" />
+              </button>
+            </div>
+
+            <div className="space-y-6 max-h-[70vh] overflow-y-auto pr-1">
+              <section className="p-3 sm:p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+                <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-3">New invoice</h4>
+                {clients.length === 0 && !isLoading ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Add a client and assign projects to it to start invoicing.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <div>
+                        <label htmlFor="invoice-client" className={labelClassName}>Client</label>
+                        <select
+                          id="invoice-client"
+                          value={clientId}
+                          onChange={(e) => setClientId(e.target.value)}
+                          className={inputClassName}
+                        >
+                          <option value="">Select a client</option>
+                          {clients.map(client => (
+                            <option key={client._id} value={client._id}>{client.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label htmlFor="invoice-group-by" className={labelClassName}>Line items</label>
+                        <select
+                          id="invoice-group-by"
+                          value={groupBy}
+                          onChange={(e) => setGroupBy(e.target.value as InvoiceGrouping)}
+                          className={inputClassName}
+                        >
+                          {INVOICE_GROUPINGS.map(grouping => (
+                            <option key={grouping} value={grouping}>{INVOICE_GROUPING_LABELS[grouping]}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <div>
+                        <label htmlFor="invoice-from" className={labelClassName}>From</label>
+                        <input
+                          id="invoice-from"
+                          type="date"
+                          value={from}
+                          max={to}
+                          onChange={(e) => setFrom(e.target.value)}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="invoice-to" className={labelClassName}>To</label>
+                        <input
+                          id="invoice-to"
+                          type="date"
+                          value={to}
+                          min={from}
+                          onChange={(e) => setTo(e.target.value)}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="invoice-due" className={labelClassName}>Due date (optional)</label>
+                        <input
+                          id="invoice-due"
+                          type="date"
+                          value={dueDate}
+                          onChange={(e) => setDueDate(e.target.value)}
+                          className={inputClassName}
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label htmlFor="invoice-notes" className={labelClassName}>Notes (optional)</label>
+                      <textarea
+                        id="invoice-notes"
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        rows={2}
+                        maxLength={2000}
+                        placeholder="Payment details, thank-you note..."
+                        className={inputClassName}
+                      />
+                    </div>
+
+                    {preview && (
+                      preview.lines.length === 0 ? (
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                          There are no uninvoiced billable entries for this client in the selected range.
+                        </p>
+                      ) : (
+                        <div className="overflow-x-auto">
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                                <th className="py-1 pr-2 font-medium">Description</th>
+                                <th className="py-1 px-2 font-medium text-right">Hours</th>
+                                <th className="py-1 px-2 font-medium text-right">Rate</th>
+                                <th className="py-1 pl-2 font-medium text-right">Amount</th>
+                              </tr>
+                            </thead>
+                            <tbody className="divide-y divide-gray-200 dark:divide-gray-600">
+                              {preview.lines.map((line, index) => (
+                                <tr key={index} className="text-gray-900 dark:text-white">
+                                  <td className="py-1 pr-2">{line.description}</td>
+                                  <td className="py-1 px-2 text-right tabular-nums">{line.hours.toFixed(2)}</td>
+                                  <td className="py-1 px-2 text-right tabular-nums">{formatCurrency(line.rate, preview.currency)}</td>
+                                  <td className="py-1 pl-2 text-right tabular-nums">{formatCurrency(line.amount, preview.currency)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                            <tfoot>
+                              <tr className="font-semibold text-gray-900 dark:text-white">
+                                <td className="pt-2 pr-2">
+                                  Total
+                                  <span className="ml-1 font-normal text-xs text-gray-500 dark:text-gray-400">
+                                    ({preview.entryCount} {preview.entryCount === 1 ? 'entry' : 'entries'})
+                                  </span>
+                                </td>
+                                <td colSpan={3} className="pt-2 pl-2 text-right tabular-nums">
+                                  {formatCurrency(preview.total, preview.currency)}
+                                </td>
+                              </tr>
+                            </tfoot>
+                          </table>
+                        </div>
+                      )
+                    )}
+
+                    <div className="flex justify-end gap-2">
+                      <button
+                        onClick={handlePreview}
+                        disabled={isSubmitting || !clientId}
+                        className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Preview
+                      </button>
+                      <button
+                        onClick={handleCreate}
+                        disabled={isSubmitting || !clientId || (preview !== null && preview.lines.length === 0)}
+                        className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isSubmitting ? 'Working...' : 'Create invoice'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </section>
+
+              <section>
+                <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Issued invoices</h4>
+                {isLoading ? (
+                  <div className="text-center py-6 text-sm text-gray-500 dark:text-gray-400">Loading...</div>
+                ) : invoices.length === 0 ? (
+                  <div className="text-center py-6 text-sm text-gray-500 dark:text-gray-400">No invoices yet.</div>
+                ) : (
+                  <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {invoices.map(invoice => (
+                      <li key={invoice._id} className="py-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                            {invoice.number}
+                            <span className="font-normal text-gray-500 dark:text-gray-400"> · {clientNames[invoice.clientId] || invoice.billTo.name}</span>
+                            {invoice.status === 'void' && (
+                              <span className="ml-2 px-1.5 py-0.5 text-xs font-medium rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400">
+                                Void
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {format(parseISO(invoice.from), 'MMM d')} to {format(parseISO(invoice.to), 'MMM d, yyyy')}
+                            {' · '}issued {format(parseISO(invoice.issueDate), 'MMM d, yyyy')}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <span className={`text-sm font-semibold tabular-nums mr-2 ${
+                            invoice.status === 'void' ? 'line-through text-gray-400 dark:text-gray-500' : 'text-gray-900 dark:text-white'
+                          }`}>
+                            {formatCurrency(invoice.total, invoice.currency)}
+                          </span>
+                          <a
+                            href={`/api/invoices/${invoice._id}/document?format=html`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="p-1.5 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                            title="View invoice"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </a>
+                          <a
+                            href={`/api/invoices/${invoice._id}/document?format=pdf`}
+                            className="p-1.5 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                            title="Download PDF"
+                          >
+                            <FileDown className="h-4 w-4" />
+                          </a>
+                          {invoice.status === 'issued' && (
+                            <button
+                              onClick={() => setVoiding(invoice)}
+                              className="p-1.5 text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                              title="Void invoice"
+                            >
+                              <Ban className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </div>
+          </div>
+
+          <div className="bg-gray-50 dark:bg-gray-700 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-full sm:w-auto inline-flex justify-center rounded-md border border-gray-300 dark:border-gray-600 shadow-sm px-4 py-2 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmationModal
+        isOpen={voiding !== null}
+        onClose={() => setVoiding(null)}
+        onConfirm={handleVoid}
+        title="Void Invoice"
+        message={voiding ? `Void ${voiding.number}? It stays on record marked void and its entries become available to bill again.` : ''}
+        confirmText="Void"
+        type="danger"
+        isLoading={isVoiding}
+      />
+    </div>
+  );
+}
@@ -4,15 +4,23 @@ import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { X, Clock, Calendar, FileText, Type, Save, XCircle } from 'lucide-react';
-import { LogEntry } from '@/types';
+import { X, Clock, Calendar, FileText, Type, Save, XCircle, Folder, FolderPlus, Tag as TagIcon, DollarSign } from 'lucide-react';
+import { LogEntry, Project, Tag } from '@/types';
 import { format, parseISO } from 'date-fns';
+import { fromDateTimeLocalValue, toDateTimeLocalValue } from '@/utils/timezone';
 
 const logEntrySchema = z.object({
   title: z.string().min(1, 'Title is required'),
   description: z.string().optional(),
   startTime: z.string().min(1, 'Start time is required'),
   endTime: z.string().min(1, 'End time is required'),
+  projectId: z.string().optional(),
+  billable: z.boolean().optional(),
+  // Blank means "use the project/default rate"
+  hourlyRate: z.string().optional().refine(
+    (value) => !value || (!isNaN(Number(value)) && Number(value) >= 0),
+    'Rate must be a positive number'
+  ),
 }).refine((data) => {
   const start = parseISO(data.startTime);
   const end = parseISO(data.endTime);
@@ -28,18 +36,40 @@ interface LogEntryModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: () => void;
+  onConflict?: (message: string) => void;
+  projects?: Project[];
+  onProjectCreated?: () => void;
+  tags?: Tag[];
+  timeZone: string;
   date: string;
   entry?: LogEntry | null;
 }
 
-export default function LogEntryModal({ isOpen, onClose, onSave, date, entry }: LogEntryModalProps) {
+export default function LogEntryModal({
+  isOpen,
+  onClose,
+  onSave,
+  onConflict,
+  projects = [],
+  onProjectCreated,
+  tags = [],
+  timeZone,
+  date,
+  entry
+}: LogEntryModalProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [newProjectName, setNewProjectName] = useState('');
+  const [isCreatingProject, setIsCreatingProject] = useState(false);
+  const [pendingProjectId, setPendingProjectId] = useState<string | null>(null);
+  const [entryTags, setEntryTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
 
   const {
     register,
     handleSubmit,
     reset,
+    setValue,
     formState: { errors },
   } = useForm<LogEntryForm>({
     resolver: zodResolver(logEntrySchema),
@@ -48,6 +78,9 @@ export default function LogEntryModal({ isOpen, onClose, onSave, date, entry }:
       description: '',
       startTime: '',
       endTime: '',
+      projectId: '',
+      billable: false,
+      hourlyRate: '',
     },
   });
 
@@ -56,58 +89,119 @@ export default function LogEntryModal({ isOpen, onClose, onSave, date, entry }:
       reset({
         title: entry.title,
         description: entry.description,
-        startTime: entry.startTime,
-        endTime: entry.endTime,
+        startTime: toDateTimeLocalValue(entry.startTime, timeZone),
+        endTime: toDateTimeLocalValue(entry.endTime, timeZone),
+        projectId: entry.projectId || '',
+        billable: entry.billable || false,
+        hourlyRate: entry.hourlyRate != null ? String(entry.hourlyRate) : '',
       });
+      setEntryTags(entry.tags || []);
     } else {
       reset({
         title: '',
         description: '',
         startTime: '',
         endTime: '',
+        projectId: '',
+        billable: false,
+        hourlyRate: '',
       });
+      setEntryTags([]);
     }
-  }, [entry, reset]);
+    setTagInput('');
+  }, [entry, reset, timeZone]);
 
-  const onSubmit = async (data: LogEntryForm) => {
-    setIsLoading(true);
+  const addTag = (value: string) => {
+    const tag = value.trim().toLowerCase().replace(/^#/, '');
+    if (tag && entryTags.indexOf(tag) === -1) {
+      setEntryTags([...entryTags, tag]);
+    }
+    setTagInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    setEntryTags(entryTags.filter(t => t !== tag));
+  };
+
+  // Select a newly created project once it shows up in the refreshed list
+  useEffect(() => {
+    if (pendingProjectId && projects.some((project) => project._id === pendingProjectId)) {
+      setValue('projectId', pendingProjectId);
+      setPendingProjectId(null);
+    }
+  }, [pendingProjectId, projects, setValue]);
+
+  const handleCreateProject = async () => {
+    const name = newProjectName.trim();
+    if (!name) return;
+
+    setIsCreatingProject(true);
     setError('');
 
     try {
-      // Get current log entries
-      const response = await fetch(`/api/logs/${date}`);
-      const currentLog = await response.json();
-      const entries = currentLog.entries || [];
-
-      let updatedEntries;
-      if (entry) {
-        // Update existing entry
-        updatedEntries = entries.map((e: LogEntry) => 
-          e._id === entry._id 
-            ? { ...e, ...data, type: 'manual' as const }
-            : e
-        );
+      const response = await fetch('/api/projects', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const result = await response.json();
+
+      if (response.ok) {
+        setNewProjectName('');
+        setPendingProjectId(result._id);
+        onProjectCreated?.();
       } else {
-        // Add new entry
-        const newEntry: LogEntry = {
-          ...data,
-          description: data.description || '',
-          type: 'manual',
-        };
-        updatedEntries = [...entries, newEntry];
+        setError(result.error || 'Failed to create project');
       }
+    } catch (error) {
+      setError('An error occurred while creating the project');
+    } finally {
+      setIsCreatingProject(false);
+    }
+  };
 
-      // Save updated entries
-      const saveResponse = await fetch(`/api/logs/${date}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ entries: updatedEntries }),
-      });
+  const onSubmit = async (data: LogEntryForm) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const payload = {
+        ...data,
+        // The inputs show wall-clock time in the user's zone; store absolute instants
+        startTime: fromDateTimeLocalValue(data.startTime, timeZone),
+        endTime: fromDateTimeLocalValue(data.endTime, timeZone),
+        description: data.description || '',
+        projectId: data.projectId || null,
+        billable: data.billable || false,
+        hourlyRate: data.hourlyRate ? Number(data.hourlyRate) : null,
+        // Include whatever is still in the tag input when the form is submitted
+        tags: tagInput.trim() ? [...entryTags, tagInput] : entryTags,
+        // Synced entries keep their type so the next sync merges instead of duplicating
+        type: entry ? entry.type : 'manual' as const,
+      };
+
+      const saveResponse = entry?._id
+        ? await fetch(`/api/logs/${date}/entries/${entry._id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+          })
+        : await fetch(`/api/logs/${date}/entries`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+          });
 
       if (saveResponse.ok) {
         onSave();
       } else {
-        setError('Failed to save entry');
+        const result = await saveResponse.json().catch(() => ({}));
+        // Invoiced entries answer 409 too, but reloading won't help with those
+        if (saveResponse.status === 409 && onConflict && !result.entry?.invoiceId) {
+          onConflict(result.error || 'This entry was changed in another session.');
+        } else {
+          setError(result.error || 'Failed to save entry');
+        }
       }
     } catch (error) {
       setError('An error occurred while saving');
@@ -186,6 +280,136 @@ export default function LogEntryModal({ isOpen, onClose, onSave, date, entry }:
                   )}
                 </div>
 
+                <div>
+                  <label htmlFor="projectId" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Project
+                  </label>
+                  <div className="mt-1 relative">
+                    <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                      <Folder className="h-4 w-4 sm:h-5 sm:w-5 text-gray-400 dark:text-gray-500" />
+                    </div>
+                    <select
+                      {...register('projectId')}
+                      className="appearance-none relative block w-full pl-9 sm:pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                    >
+                      <option value="">No project</option>
+                      {projects.map((project) => (
+                        <option key={project._id} value={project._id}>
+                          {project.name}
+                          {project.clientId && typeof project.clientId === 'object' ? ` (${project.clientId.name})` : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="mt-2 flex gap-2">
+                    <input
+                      type="text"
+                      value={newProjectName}
+                      onChange={(e) => setNewProjectName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          handleCreateProject();
+                        }
+                      }}
+                      className="appearance-none relative block w-full px-3 py-1.5 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                      placeholder="New project name"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleCreateProject}
+                      disabled={isCreatingProject || !newProjectName.trim()}
+                      className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+                      title="Create project"
+                    >
+                      <FolderPlus className="h-4 w-4 sm:mr-1" />
+                      <span className="hidden sm:inline">{isCreatingProject ? 'Adding...' : 'Add'}</span>
+                    </button>
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="tags" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Tags
+                  </label>
+                  <div className="mt-1 flex flex-wrap items-center gap-1 pl-3 pr-2 py-1.5 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 rounded-md focus-within:ring-1 focus-within:ring-blue-500 focus-within:border-blue-500">
+                    <TagIcon className="h-4 w-4 sm:h-5 sm:w-5 text-gray-400 dark:text-gray-500 mr-1" />
+                    {entryTags.map(tag => (
+                      <span
+                        key={tag}
+                        className="inline-flex items-center px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-600 text-gray-700 dark:text-gray-200"
+                      >
+                        #{tag}
+                        <button
+                          type="button"
+                          onClick={() => removeTag(tag)}
+                          className="ml-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                          title="Remove tag"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                    ))}
+                    <input
+                      id="tags"
+                      type="text"
+                      list="tag-suggestions"
+                      value={tagInput}
+                      onChange={(e) => setTagInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' || e.key === ',') {
+                          e.preventDefault();
+                          addTag(tagInput);
+                        } else if (e.key === 'Backspace' && !tagInput && entryTags.length > 0) {
+                          removeTag(entryTags[entryTags.length - 1]);
+                        }
+                      }}
+                      onBlur={() => tagInput.trim() && addTag(tagInput)}
+                      className="flex-1 min-w-[6rem] py-0.5 border-0 bg-transparent text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-0 text-sm"
+                      placeholder={entryTags.length === 0 ? 'Add tags (press Enter)' : ''}
+                    />
+                    <datalist id="tag-suggestions">
+                      {tags
+                        .filter(tag => entryTags.indexOf(tag.name) === -1)
+                        .map(tag => (
+                          <option key={tag._id} value={tag.name} />
+                        ))}
+                    </datalist>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4 sm:items-end">
+                  <label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300 py-2">
+                    <input
+                      {...register('billable')}
+                      type="checkbox"
+                      className="h-4 w-4 mr-2 rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                    />
+                    Billable
+                  </label>
+                  <div>
+                    <label htmlFor="hourlyRate" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Rate override
+                    </label>
+                    <div className="mt-1 relative">
+                      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                        <DollarSign className="h-4 w-4 sm:h-5 sm:w-5 text-gray-400 dark:text-gray-500" />
+                      </div>
+                      <input
+                        {...register('hourlyRate')}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="appearance-none relative block w-full pl-9 sm:pl-10 pr-3 py-2 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+                        placeholder="Project/default rate"
+                      />
+                    </div>
+                    {errors.hourlyRate && (
+                      <p className="mt-1 text-sm text-red-600 dark:text-red-400">{errors.hourlyRate.message}</p>
+                    )}
+                  </div>
+                </div>
+
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
                   <div>
                     <label htmlFor="startTime" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
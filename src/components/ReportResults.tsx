@@ -0,0 +1,206 @@
+'use client';
+
+import React from 'react';
+import { ArrowDown, ArrowUp, BarChart3 } from 'lucide-react';
+import { Report, ReportRow } from '@/types';
+import { formatCurrency } from '@/utils/billing';
+import { formatDuration } from '@/utils/exportRows';
+import { REPORT_GROUPING_LABELS } from '@/utils/reportRanges';
+
+interface ReportResultsProps {
+  report: Report;
+}
+
+type SortColumn = 'label' | 'totalMs' | 'billableMs' | 'amount' | 'entryCount' | 'daysTracked';
+
+const COLUMNS: { id: SortColumn; label: string; numeric: boolean }[] = [
+  { id: 'label', label: '', numeric: false },
+  { id: 'totalMs', label: 'Tracked', numeric: true },
+  { id: 'billableMs', label: 'Billable', numeric: true },
+  { id: 'amount', label: 'Amount', numeric: true },
+  { id: 'entryCount', label: 'Entries', numeric: true },
+  { id: 'daysTracked', label: 'Days', numeric: true },
+];
+
+// Summary cards, a chart and a sortable table for a report. Shared by the
+// Reports tab and read-only report pages, so it only renders what it's given.
+export default function ReportResults({ report }: ReportResultsProps) {
+  // Null keeps the server's order: chronological for days and weeks, largest first otherwise
+  const [sort, setSort] = React.useState<{ column: SortColumn; direction: 'asc' | 'desc' } | null>(null);
+
+  const { rows, totals, currency } = report;
+  const groupBy = report.definition.groupBy;
+  const isTimeline = groupBy === 'day' || groupBy === 'week';
+  const maxMs = rows.reduce((max, row) => Math.max(max, row.totalMs), 0);
+
+  const sortedRows = React.useMemo(() => {
+    if (!sort) return rows;
+    const direction = sort.direction === 'asc' ? 1 : -1;
+    // Dates and weeks sort by key, everything else by its label
+    const compareLabels = (a: ReportRow, b: ReportRow) => isTimeline
+      ? (a.key || '').localeCompare(b.key || '')
+      : a.label.localeCompare(b.label);
+
+    return rows.slice().sort((a, b) => sort.column === 'label'
+      ? direction * compareLabels(a, b)
+      : direction * (a[sort.column] - b[sort.column]) || compareLabels(a, b)
+    );
+  }, [rows, sort, isTimeline]);
+
+  const toggleSort = (column: SortColumn) => {
+    setSort(prev => prev && prev.column === column
+      ? { column, direction: prev.direction === 'asc' ? 'desc' : 'asc' }
+      // Numbers start with the largest, labels alphabetically
+      : { column, direction: column === 'label' ? 'asc' : 'desc' }
+    );
+  };
+
+  const formatCell = (row: ReportRow, column: SortColumn) => {
+    switch (column) {
+      case 'totalMs':
+      case 'billableMs':
+        return formatDuration(row[column]);
+      case 'amount':
+        return formatCurrency(row.amount, currency);
+      default:
+        return String(row[column]);
+    }
+  };
+
+  const cards = [
+    { label: 'Tracked', value: formatDuration(totals.totalMs) },
+    { label: 'Billable', value: formatDuration(totals.billableMs) },
+    { label: 'Amount', value: formatCurrency(totals.amount, currency) },
+    { label: 'Entries', value: String(totals.entryCount) },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+        {cards.map(card => (
+          <div key={card.label} className="bg-white dark:bg-gray-800 p-3 sm:p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+            <p className="text-xs sm:text-sm font-medium text-gray-500 dark:text-gray-400">{card.label}</p>
+            <p className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white truncate">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {totals.entryCount === 0 ? (
+        <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <BarChart3 className="h-8 w-8 sm:h-12 sm:w-12 mx-auto text-gray-400 dark:text-gray-500 mb-3" />
+          <p className="text-sm text-gray-500 dark:text-gray-400">No entries in this range.</p>
+        </div>
+      ) : (
+        <>
+          <div className="bg-white dark:bg-gray-800 p-4 sm:p-6 rounded-lg border border-gray-200 dark:border-gray-700">
+            {isTimeline ? (
+              // Columns in time order; the darker part is billable
+              <div className="flex items-end h-40 gap-1">
+                {rows.map(row => (
+                  <div
+                    key={row.key || 'none'}
+                    className="flex-1 flex flex-col justify-end h-full min-w-0"
+                    title={`${row.label}: ${formatDuration(row.totalMs)} (${formatDuration(row.billableMs)} billable)`}
+                  >
+                    <div
+                      className="bg-blue-200 dark:bg-blue-900 rounded-t flex flex-col justify-end overflow-hidden"
+                      style={{ height: `${maxMs > 0 ? (row.totalMs / maxMs) * 100 : 0}%` }}
+                    >
+                      <div
+                        className="bg-blue-600"
+                        style={{ height: `${row.totalMs > 0 ? (Math.min(row.billableMs, row.totalMs) / row.totalMs) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {rows.map(row => (
+                  <div key={row.key || 'none'}>
+                    <div className="flex justify-between items-center">
+                      <span className="flex items-center text-sm text-gray-600 dark:text-gray-400 min-w-0">
+                        {row.color && (
+                          <span className="w-2 h-2 sm:w-3 sm:h-3 rounded-full mr-2 flex-shrink-0" style={{ backgroundColor: row.color }} />
+                        )}
+                        <span className="truncate">{row.label}</span>
+                      </span>
+                      <span className="text-sm font-medium text-gray-900 dark:text-white ml-2 flex-shrink-0">{formatDuration(row.totalMs)}</span>
+                    </div>
+                    <div className="mt-1 h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                      <div
+                        className="h-full rounded-full bg-blue-600"
+                        style={{
+                          width: `${maxMs > 0 ? (row.totalMs / maxMs) * 100 : 0}%`,
+                          backgroundColor: row.color || undefined,
+                        }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  {COLUMNS.map(column => (
+                    <th
+                      key={column.id}
+                      className={`px-3 sm:px-4 py-2 font-medium text-gray-500 dark:text-gray-300 ${column.numeric ? 'text-right' : 'text-left'}`}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => toggleSort(column.id)}
+                        className="inline-flex items-center hover:text-gray-900 dark:hover:text-white"
+                      >
+                        {column.label || REPORT_GROUPING_LABELS[groupBy]}
+                        {sort && sort.column === column.id && (sort.direction === 'asc'
+                          ? <ArrowUp className="h-3 w-3 ml-1" />
+                          : <ArrowDown className="h-3 w-3 ml-1" />
+                        )}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {sortedRows.map(row => (
+                  <tr key={row.key || 'none'} className={row.entryCount === 0 ? 'text-gray-400 dark:text-gray-500' : 'text-gray-900 dark:text-white'}>
+                    {COLUMNS.map(column => (
+                      <td key={column.id} className={`px-3 sm:px-4 py-2 whitespace-nowrap ${column.numeric ? 'text-right tabular-nums' : ''}`}>
+                        {column.id === 'label' && row.color ? (
+                          <span className="flex items-center">
+                            <span className="w-2 h-2 rounded-full mr-2 flex-shrink-0" style={{ backgroundColor: row.color }} />
+                            {row.label}
+                          </span>
+                        ) : column.id === 'label' ? row.label : formatCell(row, column.id)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="border-t-2 border-gray-200 dark:border-gray-600 font-medium text-gray-900 dark:text-white">
+                <tr>
+                  <td className="px-3 sm:px-4 py-2">Total</td>
+                  <td className="px-3 sm:px-4 py-2 text-right tabular-nums">{formatDuration(totals.totalMs)}</td>
+                  <td className="px-3 sm:px-4 py-2 text-right tabular-nums">{formatDuration(totals.billableMs)}</td>
+                  <td className="px-3 sm:px-4 py-2 text-right tabular-nums">{formatCurrency(totals.amount, currency)}</td>
+                  <td className="px-3 sm:px-4 py-2 text-right tabular-nums">{totals.entryCount}</td>
+                  <td className="px-3 sm:px-4 py-2 text-right tabular-nums">{totals.daysTracked}</td>
+                </tr>
+              </tfoot>
+            </table>
+            {groupBy === 'tag' && (
+              <p className="px-3 sm:px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700">
+                Entries with several tags count towards each of them, so rows can add up to more than the total.
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+'use client';
+
+import React from 'react';
+import { FileBarChart, Save, Share2, Link2Off, Trash2 } from 'lucide-react';
+import { Project, Report, ReportGrouping, ReportRange, SavedReport, Tag } from '@/types';
+import { addDaysToKey, todayInTimeZone } from '@/utils/timezone';
+import { REPORT_GROUPINGS, REPORT_GROUPING_LABELS, REPORT_RANGES, REPORT_RANGE_LABELS } from '@/utils/reportRanges';
+import { NotificationType } from './NotificationModal';
+import ConfirmationModal from './ConfirmationModal';
+import ReportResults from './ReportResults';
+
+interface ReportsViewProps {
+  projects: Project[];
+  tags: Tag[];
+  timeZone: string;
+  onShowNotification: (type: NotificationType, title: string, message: string) => void;
+}
+
+const SHARE_DURATIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+];
+
+const inputClassName = 'block w-full px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+const labelClassName = 'block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1';
+const buttonClassName = 'flex items-center px-3 py-1.5 text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+const getErrorMessage = (data: { error?: string; details?: { message: string }[] }, fallback: string) =>
+  data.details?.[0]?.message || data.error || fallback;
+
+export default function ReportsView({ projects, tags, timeZone, onShowNotification }: ReportsViewProps) {
+  const [range, setRange] = React.useState<ReportRange>('this-week');
+  const [from, setFrom] = React.useState(() => addDaysToKey(todayInTimeZone(timeZone), -29));
+  const [to, setTo] = React.useState(() => todayInTimeZone(timeZone));
+  const [groupBy, setGroupBy] = React.useState<ReportGrouping>('day');
+  const [projectId, setProjectId] = React.useState('');
+  const [tagFilter, setTagFilter] = React.useState<string[]>([]);
+  const [report, setReport] = React.useState<Report | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+
+  const [savedReports, setSavedReports] = React.useState<SavedReport[]>([]);
+  const [savedReportId, setSavedReportId] = React.useState('');
+  // Null while the "Save as" name field is hidden
+  const [newName, setNewName] = React.useState<string | null>(null);
+  const [shareDays, setShareDays] = React.useState(7);
+  const [isBusy, setIsBusy] = React.useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = React.useState(false);
+
+  const selectedReport = savedReports.find(item => item._id === savedReportId) || null;
+
+  const definition = React.useMemo(() => ({
+    range,
+    groupBy,
+    tags: tagFilter,
+    ...(range === 'custom' ? { from, to } : {}),
+    ...(projectId ? { projectId } : {}),
+  }), [range, from, to, groupBy, projectId, tagFilter]);
+
+  const fetchReport = React.useCallback(async () => {
+    // Wait until a custom range is complete
+    if (range === 'custom' && (!from || !to || from > to)) return;
+
+    const params = new URLSearchParams({ range, groupBy });
+    if (range === 'custom') {
+      params.set('from', from);
+      params.set('to', to);
+    }
+    if (projectId) params.set('projectId', projectId);
+    if (tagFilter.length > 0) params.set('tags', tagFilter.join(','));
+
+    try {
+      setIsLoading(true);
+      const response = await fetch(`/api/reports?${params.toString()}`);
+      const data = await response.json();
+      if (response.ok) {
+        setReport(data);
+      } else {
+        onShowNotification('error', 'Report Failed', getErrorMessage(data, 'Failed to load the report'));
+      }
+    } catch (error) {
+      console.error('Error fetching report:', error);
+      onShowNotification('error', 'Report Failed', 'Failed to load the report');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [range, from, to, groupBy, projectId, tagFilter, onShowNotification]);
+
+  const fetchSavedReports = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/reports/saved');
+      if (response.ok) {
+        setSavedReports(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching saved reports:', error);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  React.useEffect(() => {
+    fetchSavedReports();
+  }, [fetchSavedReports]);
+
+  const openSavedReport = (id: string) => {
+    setSavedReportId(id);
+    setNewName(null);
+    const saved = savedReports.find(item => item._id === id);
+    if (!saved) return;
+
+    setRange(saved.definition.range);
+    setGroupBy(saved.definition.groupBy);
+    setProjectId(saved.definition.projectId || '');
+    setTagFilter(saved.definition.tags || []);
+    if (saved.definition.from && saved.definition.to) {
+      setFrom(saved.definition.from);
+      setTo(saved.definition.to);
+    }
+  };
+
+  // Creates a report when a new name was entered, otherwise updates the selected one
+  const saveReport = async () => {
+    const isNew = newName !== null;
+    if (isNew && !newName.trim()) return;
+
+    try {
+      setIsBusy(true);
+      const response = await fetch(isNew ? '/api/reports/saved' : `/api/reports/saved/${savedReportId}`, {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(isNew ? { name: newName, definition } : { definition }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        onShowNotification('error', 'Save Failed', getErrorMessage(data, 'Failed to save the report'));
+        return;
+      }
+
+      await fetchSavedReports();
+      setSavedReportId(data._id);
+      setNewName(null);
+      onShowNotification('success', 'Report Saved', `"${data.name}" was saved.`);
+    } catch (error) {
+      console.error('Error saving report:', error);
+      onShowNotification('error', 'Save Failed', 'Failed to save the report');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const shareReport = async () => {
+    if (!selectedReport) return;
+
+    try {
+      setIsBusy(true);
+      const response = await fetch(`/api/reports/saved/${selectedReport._id}/share`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expiresInDays: shareDays }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        onShowNotification('error', 'Sharing Failed', getErrorMessage(data, 'Failed to create a share link'));
+        return;
+      }
+
+      const expires = new Date(data.expiresAt).toLocaleDateString();
+      try {
+        await navigator.clipboard.writeText(data.url);
+        onShowNotification('success', 'Link Copied', `Anyone with the link can view "${selectedReport.name}" until ${expires}, without signing in.`);
+      } catch {
+        // Clipboard access can be denied; show the link instead
+        onShowNotification('info', 'Share Link', `${data.url} (valid until ${expires})`);
+      }
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      onShowNotification('error', 'Sharing Failed', 'Failed to create a share link');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const revokeLinks = async () => {
+    if (!selectedReport) return;
+
+    try {
+      setIsBusy(true);
+      const response = await fetch(`/api/reports/saved/${selectedReport._id}/share`, { method: 'DELETE' });
+      if (response.ok) {
+        onShowNotification('success', 'Links Revoked', `Links shared for "${selectedReport.name}" no longer work.`);
+      } else {
+        onShowNotification('error', 'Revoke Failed', 'Failed to revoke the share links');
+      }
+    } catch (error) {
+      console.error('Error revoking share links:', error);
+      onShowNotification('error', 'Revoke Failed', 'Failed to revoke the share links');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const deleteReport = async () => {
+    if (!selectedReport) return;
+
+    try {
+      setIsBusy(true);
+      const response = await fetch(`/api/reports/saved/${selectedReport._id}`, { method: 'DELETE' });
+      if (response.ok) {
+        setSavedReportId('');
+        await fetchSavedReports();
+      } else {
+        onShowNotification('error', 'Delete Failed', 'Failed to delete the report');
+      }
+    } catch (error) {
+      console.error('Error deleting saved report:', error);
+      onShowNotification('error', 'Delete Failed', 'Failed to delete the report');
+    } finally {
+      setIsBusy(false);
+      setIsDeleteOpen(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <h2 className="text-base sm:text-lg font-medium text-gray-900 dark:text-white flex items-center">
+        <FileBarChart className="h-4 w-4 sm:h-5 sm:w-5 mr-2 text-blue-600" />
+        Reports
+        {report && (
+          <span className="ml-2 text-xs sm:text-sm font-normal text-gray-500 dark:text-gray-400">
+            {report.from} to {report.to}
+          </span>
+        )}
+      </h2>
+
+      <div className="flex flex-wrap items-end gap-2 bg-white dark:bg-gray-800 p-3 sm:p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+        <div className="w-full sm:w-56">
+          <label className={labelClassName}>Saved report</label>
+          <select value={savedReportId} onChange={(e) => openSavedReport(e.target.value)} className={inputClassName}>
+            <option value="">Unsaved report</option>
+            {savedReports.map(item => (
+              <option key={item._id} value={item._id}>{item.name}</option>
+            ))}
+          </select>
+        </div>
+        {newName !== null ? (
+          <>
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && saveReport()}
+              placeholder="Report name"
+              maxLength={100}
+              autoFocus
+              className={`${inputClassName} sm:w-56`}
+            />
+            <button onClick={saveReport} disabled={isBusy || !newName.trim()} className={buttonClassName}>
+              Save
+            </button>
+            <button onClick={() => setNewName(null)} className={buttonClassName}>
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            {selectedReport && (
+              <button onClick={saveReport} disabled={isBusy} className={buttonClassName} title="Save the current settings to this report">
+                <Save className="h-3 w-3 sm:h-4 sm:w-4 mr-1" />
+                Update
+              </button>
+            )}
+            <button onClick={() => setNewName('')} className={buttonClassName}>
+              {!selectedReport && <Save className="h-3 w-3 sm:h-4 sm:w-4 mr-1" />}
+              Save as...
+            </button>
+          </>
+        )}
+        {selectedReport && newName === null && (
+          <>
+            <select
+              value={shareDays}
+              onChange={(e) => setShareDays(Number(e.target.value))}
+              className={`${inputClassName} w-auto`}
+              title="How long the share link works"
+            >
+              {SHARE_DURATIONS.map(option => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+            <button onClick={shareReport} disabled={isBusy} className={buttonClassName} title="Copy a read-only link that works without signing in">
+              <Share2 className="h-3 w-3 sm:h-4 sm:w-4 mr-1" />
+              Share link
+            </button>
+            <button onClick={revokeLinks} disabled={isBusy} className={buttonClassName} title="Stop all links shared for this report">
+              <Link2Off className="h-3 w-3 sm:h-4 sm:w-4 mr-1" />
+              Revoke links
+            </button>
+            <button onClick={() => setIsDeleteOpen(true)} disabled={isBusy} className={buttonClassName} title="Delete this saved report">
+              <Trash2 className="h-3 w-3 sm:h-4 sm:w-4" />
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 bg-white dark:bg-gray-800 p-3 sm:p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+        <div>
+          <label className={labelClassName}>Range</label>
+          <select value={range} onChange={(e) => setRange(e.target.value as ReportRange)} className={inputClassName}>
+            {REPORT_RANGES.map(option => (
+              <option key={option} value={option}>{REPORT_RANGE_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>Group by</label>
+          <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as ReportGrouping)} className={inputClassName}>
+            {REPORT_GROUPINGS.map(option => (
+              <option key={option} value={option}>{REPORT_GROUPING_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>Project</label>
+          <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={inputClassName}>
+            <option value="">All projects</option>
+            {projects.map(project => (
+              <option key={project._id} value={project._id}>{project.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>Tag</label>
+          <select
+            value={tagFilter.length === 1 ? tagFilter[0] : ''}
+            onChange={(e) => setTagFilter(e.target.value ? [e.target.value] : [])}
+            className={inputClassName}
+          >
+            <option value="">{tagFilter.length > 1 ? tagFilter.join(', ') : 'All tags'}</option>
+            {tags.map(item => (
+              <option key={item._id} value={item.name}>{item.name}</option>
+            ))}
+          </select>
+        </div>
+        {range === 'custom' && (
+          <>
+            <div>
+              <label className={labelClassName}>From</label>
+              <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputClassName} />
+            </div>
+            <div>
+              <label className={labelClassName}>To</label>
+              <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClassName} />
+            </div>
+          </>
+        )}
+      </div>
+
+      {isLoading && !report ? (
+        <div className="animate-pulse grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+          {Array.from({ length: 4 }).map((_, index) => (
+            <div key={index} className="bg-gray-200 dark:bg-gray-700 rounded-lg p-4 h-20"></div>
+          ))}
+        </div>
+      ) : report && (
+        <div className={isLoading ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+          <ReportResults report={report} />
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={isDeleteOpen}
+        onClose={() => setIsDeleteOpen(false)}
+        onConfirm={deleteReport}
+        title="Delete Report"
+        message={`Delete "${selectedReport?.name}"? Links shared for it will stop working.`}
+        confirmText="Delete"
+        type="danger"
+        isLoading={isBusy}
+      />
+    </div>
+  );
+}
@@ -1,11 +1,11 @@
 'use client';
 
 import React from 'react';
-import { BarChart3, Clock } from 'lucide-react';
+import { BarChart3, Clock, FileBarChart } from 'lucide-react';
 
 interface TabNavigationProps {
-  activeTab: 'dashboard' | 'timelog';
-  onTabChange: (tab: 'dashboard' | 'timelog') => void;
+  activeTab: 'dashboard' | 'timelog' | 'reports';
+  onTabChange: (tab: 'dashboard' | 'timelog' | 'reports') => void;
 }
 
 export default function TabNavigation({ activeTab, onTabChange }: TabNavigationProps) {
@@ -21,6 +21,12 @@ export default function TabNavigation({ activeTab, onTabChange }: TabNavigationP
       label: 'Time Log',
       icon: Clock,
       description: 'Manage time entries'
+    },
+    {
+      id: 'reports' as const,
+      label: 'Reports',
+      icon: FileBarChart,
+      description: 'Weekly and monthly reports'
     }
   ];
 
@@ -1,18 +1,26 @@
 'use client';
 
 import React from 'react';
-import { format, parseISO } from 'date-fns';
-import { Calendar, Plus, RefreshCw, Copy, Calendar as CalendarIcon, Download, Clock, Edit3, Trash2 } from 'lucide-react';
-import { LogEntry } from '@/types';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+import { Calendar, Plus, RefreshCw, Copy, Calendar as CalendarIcon, Download, Clock, Edit3, Trash2, Tag as TagIcon, X, AlertTriangle, Settings, Upload, FileText } from 'lucide-react';
+import { CalendarSyncStatus, LogEntry, Project, Tag } from '@/types';
 import LogEntryModal from './LogEntryModal';
 import CalendarView from './CalendarView';
+import CalendarSettingsModal from './CalendarSettingsModal';
+import ImportModal from './ImportModal';
+import TimesheetModal from './TimesheetModal';
+import TimesheetApprovalBar from './TimesheetApprovalBar';
 import NotificationModal, { NotificationType } from './NotificationModal';
 import ConfirmationModal from './ConfirmationModal';
 import { DayCardSkeleton, EntrySkeleton } from './LoadingSkeleton';
+import { formatEntryTime, parseEntryTime, todayInTimeZone } from '@/utils/timezone';
+import { EXPORT_COLUMNS, ExportFormat, formatDuration, sortEntriesByStart, toExportRow, toTsvLine } from '@/utils/exportRows';
+import { DayAnalysis, getUnionDuration } from '@/utils/intervals';
 
 interface DayLog {
   date: string;
   entries: LogEntry[];
+  version?: number;
 }
 
 interface TimeLogManagerProps {
@@ -21,20 +29,45 @@ interface TimeLogManagerProps {
   setSelectedDate: (date: string) => void;
   isLoading: boolean;
   onRefresh: () => void;
+  projects: Project[];
+  onProjectsChange: () => void;
+  tags: Tag[];
+  timeZone: string;
   onShowNotification: (type: NotificationType, title: string, message: string) => void;
 }
 
+const EXPORT_MENU: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'tsv', label: 'TSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'xlsx', label: 'Excel (.xlsx)' },
+];
+
 export default function TimeLogManager({
   logs,
   selectedDate,
   setSelectedDate,
   isLoading,
   onRefresh,
+  projects,
+  onProjectsChange,
+  tags,
+  timeZone,
   onShowNotification
 }: TimeLogManagerProps) {
   const [isModalOpen, setIsModalOpen] = React.useState(false);
+  const [tagFilter, setTagFilter] = React.useState<string[]>([]);
   const [editingEntry, setEditingEntry] = React.useState<LogEntry | null>(null);
+  const [analysis, setAnalysis] = React.useState<DayAnalysis | null>(null);
   const [isCalendarOpen, setIsCalendarOpen] = React.useState(false);
+  const [isCalendarSettingsOpen, setIsCalendarSettingsOpen] = React.useState(false);
+  const [isImportOpen, setIsImportOpen] = React.useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = React.useState(false);
+  const [isTimesheetOpen, setIsTimesheetOpen] = React.useState(false);
+  // The selected day's week is submitted or approved, so the server refuses edits
+  const [isWeekLocked, setIsWeekLocked] = React.useState(false);
+  const icsInputRef = React.useRef<HTMLInputElement>(null);
+  const [syncStatus, setSyncStatus] = React.useState<CalendarSyncStatus | null>(null);
   const [notification, setNotification] = React.useState<{
     isOpen: boolean;
     type: NotificationType;
@@ -51,6 +84,8 @@ export default function TimeLogManager({
     title: string;
     message: string;
     onConfirm: () => void;
+    type?: 'danger' | 'warning' | 'info';
+    confirmText?: string;
   }>({
     isOpen: false,
     title: '',
@@ -71,12 +106,18 @@ export default function TimeLogManager({
     setNotification(prev => ({ ...prev, isOpen: false }));
   };
 
-  const showConfirmation = (title: string, message: string, onConfirm: () => void) => {
+  const showConfirmation = (
+    title: string,
+    message: string,
+    onConfirm: () => void,
+    options: { type?: 'danger' | 'warning' | 'info'; confirmText?: string } = {}
+  ) => {
     setConfirmation({
       isOpen: true,
       title,
       message,
       onConfirm,
+      ...options,
     });
   };
 
@@ -84,44 +125,34 @@ export default function TimeLogManager({
     setConfirmation(prev => ({ ...prev, isOpen: false }));
   };
 
+  // Entries match the tag filter when they carry at least one of the selected tags
+  const filterByTags = React.useCallback((entries: LogEntry[]) => {
+    if (tagFilter.length === 0) return entries;
+    return entries.filter(entry => (entry.tags || []).some(tag => tagFilter.indexOf(tag) !== -1));
+  }, [tagFilter]);
+
+  const toggleTagFilter = (tag: string) => {
+    setTagFilter(prev => prev.indexOf(tag) !== -1 ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
   const copyTimeLogToClipboard = React.useCallback(async () => {
     const currentLog = logs.find(log => log.date === selectedDate);
+    const entries = currentLog ? filterByTags(currentLog.entries) : [];
     
-    if (!currentLog || currentLog.entries.length === 0) {
+    if (entries.length === 0) {
       showNotification('warning', 'No Data', 'No time entries found for this day.');
       return;
     }
 
-    // Sort entries by start time
-    const sortedEntries = currentLog.entries.sort((a, b) => 
-      new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
-    );
-
-    // Create formatted text for spreadsheet pasting
-    const formattedData = [
-      // Header row
-      ['Date', 'Start Time', 'End Time', 'Duration', 'Title', 'Description', 'Type'],
-      // Data rows
-      ...sortedEntries.map(entry => {
-        const startTime = parseISO(entry.startTime);
-        const endTime = parseISO(entry.endTime);
-        const duration = endTime.getTime() - startTime.getTime();
-        
-        return [
-          format(parseISO(selectedDate), 'yyyy-MM-dd'), // Date
-          format(startTime, 'HH:mm'), // Start time (24-hour format)
-          format(endTime, 'HH:mm'), // End time (24-hour format)
-          formatDuration(duration), // Duration
-          entry.title, // Title
-          entry.description || '', // Description
-          entry.type // Type (manual/calendar)
-        ];
-      })
-    ];
+    // Same columns as the export API, tab-separated for pasting into spreadsheets
+    const tsvData = [
+      toTsvLine(EXPORT_COLUMNS.slice()),
+      ...sortEntriesByStart(entries, timeZone).map(entry => {
+        const project = projects.find(p => p._id === entry.projectId);
+        return toTsvLine(toExportRow(selectedDate, entry, project ? project.name : '', timeZone));
+      }),
+    ].join('\n');
 
-    // Convert to tab-separated values for easy pasting into spreadsheets
-    const tsvData = formattedData.map(row => row.join('\t')).join('\n');
-    
     try {
       await navigator.clipboard.writeText(tsvData);
       showNotification('success', 'Copied!', 'Time log copied to clipboard. Ready to paste into spreadsheet!');
@@ -129,76 +160,34 @@ export default function TimeLogManager({
       console.error('Failed to copy to clipboard:', error);
       showNotification('error', 'Copy Failed', 'Failed to copy to clipboard. Please try again.');
     }
-  }, [logs, selectedDate, showNotification]);
-
-  const exportAllData = () => {
-    if (logs.length === 0) {
-      showNotification('warning', 'No Data', 'No time logs found to export.');
-      return;
-    }
-
-    // Create comprehensive export data
-    const exportData = logs.map(log => {
-      const sortedEntries = log.entries.sort((a, b) => 
-        new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
-      );
-
-      return sortedEntries.map(entry => {
-        const startTime = parseISO(entry.startTime);
-        const endTime = parseISO(entry.endTime);
-        const duration = endTime.getTime() - startTime.getTime();
-        
-        return {
-          Date: format(parseISO(log.date), 'yyyy-MM-dd'),
-          'Start Time': format(startTime, 'HH:mm'),
-          'End Time': format(endTime, 'HH:mm'),
-          Duration: formatDuration(duration),
-          Title: entry.title,
-          Description: entry.description || '',
-          Type: entry.type,
-          'Day of Week': format(parseISO(log.date), 'EEEE'),
-          'Week Number': format(parseISO(log.date), 'w'),
-          'Month': format(parseISO(log.date), 'MMMM'),
-          'Year': format(parseISO(log.date), 'yyyy')
-        };
-      });
-    }).flat();
-
-    // Convert to CSV format
-    const headers = Object.keys(exportData[0]);
-    const csvContent = [
-      headers.join(','),
-      ...exportData.map(row => 
-        headers.map(header => {
-          const value = row[header as keyof typeof row];
-          // Escape commas and quotes in CSV
-          return typeof value === 'string' && (value.includes(',') || value.includes('"')) 
-            ? `"${value.replace(/"/g, '""')}"` 
-            : value;
-        }).join(',')
-      )
-    ].join('\n');
+  }, [logs, selectedDate, filterByTags, timeZone, projects, showNotification]);
+
+  // Downloads the whole history from the server, limited to the active tag filter
+  const exportAllData = (exportFormat: ExportFormat) => {
+    setIsExportMenuOpen(false);
+    const params = new URLSearchParams({ format: exportFormat });
+    if (tagFilter.length > 0) params.set('tags', tagFilter.join(','));
+    window.location.href = `/api/export?${params.toString()}`;
+  };
 
-    // Create and download file
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `time-log-export-${format(new Date(), 'yyyy-MM-dd')}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-
-    showNotification('success', 'Export Complete', 'All time log data has been exported to CSV file.');
+  const showWeekLocked = () => {
+    showNotification('warning', 'Week Locked', "This week's timesheet is submitted or approved. Withdraw it, or ask an approver to send it back, to make changes.");
   };
 
   const handleAddEntry = () => {
+    if (isWeekLocked) {
+      showWeekLocked();
+      return;
+    }
     setEditingEntry(null);
     setIsModalOpen(true);
   };
 
   const handleEditEntry = (entry: LogEntry) => {
+    if (isWeekLocked) {
+      showWeekLocked();
+      return;
+    }
     setEditingEntry(entry);
     setIsModalOpen(true);
   };
@@ -209,20 +198,21 @@ export default function TimeLogManager({
       'Are you sure you want to delete this entry? This action cannot be undone.',
       async () => {
         try {
-          const log = logs.find(l => l.date === selectedDate);
-          if (!log) return;
-
-          const updatedEntries = log.entries.filter(entry => entry._id !== entryId);
-          
-          const response = await fetch(`/api/logs/${selectedDate}`, {
-            method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ entries: updatedEntries }),
+          const response = await fetch(`/api/logs/${selectedDate}/entries/${entryId}`, {
+            method: 'DELETE',
           });
 
           if (response.ok) {
             onRefresh();
             showNotification('success', 'Entry Deleted', 'The entry has been deleted successfully.');
+          } else if (response.status === 404) {
+            onRefresh();
+            showNotification('warning', 'Entry Not Found', 'This entry was already removed in another session.');
+          } else if (response.status === 423) {
+            showWeekLocked();
+          } else if (response.status === 409) {
+            const result = await response.json().catch(() => ({}));
+            showNotification('error', 'Entry Invoiced', result.error || 'This entry is on an invoice.');
           } else {
             showNotification('error', 'Delete Failed', 'Failed to delete the entry. Please try again.');
           }
@@ -235,6 +225,35 @@ export default function TimeLogManager({
     );
   };
 
+  const handleConflict = (message: string) => {
+    setIsModalOpen(false);
+    showConfirmation(
+      'Log Changed Elsewhere',
+      `${message} Reload to see the latest entries, then re-apply your edit.`,
+      () => {
+        closeConfirmation();
+        onRefresh();
+      },
+      { type: 'warning', confirmText: 'Reload' }
+    );
+  };
+
+  const fetchSyncStatus = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/calendar/sync');
+      if (response.ok) {
+        setSyncStatus(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching sync status:', error);
+    }
+  }, []);
+
+  // Scheduled syncs run in the background, so the status is refreshed along with the logs
+  React.useEffect(() => {
+    fetchSyncStatus();
+  }, [fetchSyncStatus, logs]);
+
   const handleSyncCalendar = React.useCallback(async () => {
     try {
       const response = await fetch('/api/calendar/sync', {
@@ -244,33 +263,108 @@ export default function TimeLogManager({
       });
 
       if (response.ok) {
+        const data = await response.json();
         onRefresh();
-        showNotification('success', 'Calendar Synced', 'Your calendar has been synced successfully!');
+        showNotification(
+          'success',
+          'Calendar Synced',
+          `Your calendar has been synced: ${data.entriesAdded} added, ${data.entriesUpdated} updated, ${data.entriesRemoved} removed.` +
+            (data.eventsSkipped ? ` ${data.eventsSkipped} unreadable events were skipped.` : '')
+        );
+      } else if (response.status === 409) {
+        showNotification('info', 'Sync In Progress', 'Your calendars are already being synced. Please try again in a moment.');
       } else {
-        showNotification('error', 'Sync Failed', 'Failed to sync calendar. Make sure you\'re connected to Google.');
+        showNotification('error', 'Sync Failed', 'Failed to sync calendar. Make sure you\'re connected to Google or a CalDAV server.');
       }
     } catch (error) {
       console.error('Error syncing calendar:', error);
       showNotification('error', 'Sync Failed', 'Failed to sync calendar. Please try again.');
+    } finally {
+      fetchSyncStatus();
+    }
+  }, [selectedDate, onRefresh, showNotification, fetchSyncStatus]);
+
+  const handleImportIcs = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/import/ics', { method: 'POST', body: formData });
+      const data = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        onRefresh();
+        showNotification(
+          'success',
+          'Calendar Imported',
+          `${file.name}: ${data.entriesAdded} added, ${data.entriesUpdated} updated, ${data.entriesRemoved} removed.`
+        );
+      } else {
+        showNotification('error', 'Import Failed', data.error || 'Failed to import calendar file.');
+      }
+    } catch (error) {
+      console.error('Error importing calendar file:', error);
+      showNotification('error', 'Import Failed', 'Failed to import calendar file. Please try again.');
     }
-  }, [selectedDate, onRefresh, showNotification]);
-
-  const getTotalDuration = (entries: LogEntry[]) => {
-    return entries.reduce((total, entry) => {
-      const start = parseISO(entry.startTime);
-      const end = parseISO(entry.endTime);
-      return total + (end.getTime() - start.getTime());
-    }, 0);
   };
 
-  const formatDuration = (ms: number) => {
-    const hours = Math.floor(ms / (1000 * 60 * 60));
-    const minutes = Math.floor((ms % (1000 * 60 * 60)) / (1000 * 60));
-    return `${hours}h ${minutes}m`;
+  // Downloads the loaded days as an .ics feed
+  const exportIcs = () => {
+    if (logs.length === 0) {
+      showNotification('warning', 'No Data', 'No time logs found to export.');
+      return;
+    }
+
+    const dates = logs.map(log => log.date).sort();
+    window.location.href = `/api/export/ics?from=${dates[0]}&to=${dates[dates.length - 1]}`;
   };
 
-  const currentLog = logs.find(log => log.date === selectedDate);
+  // Overlapping entries (e.g. a synced meeting over a manual entry) count once
+  const getTotalDuration = (entries: LogEntry[]) => getUnionDuration(entries, timeZone);
+
+  const projectsById = projects.reduce<Record<string, Project>>((acc, project) => {
+    acc[project._id] = project;
+    return acc;
+  }, {});
+
+  // Tags available for filtering: everything in the Tag collection plus anything on loaded entries
+  const availableTags = logs
+    .reduce<string[]>((acc, log) => acc.concat(...log.entries.map(entry => entry.tags || [])), tags.map(tag => tag.name))
+    .filter((tag, index, all) => all.indexOf(tag) === index)
+    .sort();
+  const tagColors = tags.reduce<Record<string, string>>((acc, tag) => {
+    acc[tag.name] = tag.color;
+    return acc;
+  }, {});
+
+  const selectedLog = logs.find(log => log.date === selectedDate);
+  const currentLog = selectedLog && { ...selectedLog, entries: filterByTags(selectedLog.entries) };
   const totalDuration = currentLog ? getTotalDuration(currentLog.entries) : 0;
+  const selectedVersion = selectedLog?.version;
+
+  // Re-analyze whenever the selected day's log changes
+  React.useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/logs/${selectedDate}/analysis`)
+      .then(response => (response.ok ? response.json() : null))
+      .then((data: DayAnalysis | null) => {
+        if (!cancelled) setAnalysis(data);
+      })
+      .catch(error => console.error('Error analyzing log:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDate, selectedVersion]);
+
+  const dayAnalysis = analysis && analysis.date === selectedDate ? analysis : null;
+  const overlappingIds = dayAnalysis
+    ? dayAnalysis.overlaps.reduce<string[]>((acc, overlap) => acc.concat(overlap.entryIds), [])
+    : [];
 
   return (
     <div className="space-y-6 sm:space-y-8">
@@ -285,7 +379,7 @@ export default function TimeLogManager({
           ) : (
             logs.map((log, index) => {
             const dayDuration = getTotalDuration(log.entries);
-            const isToday = log.date === format(new Date(), 'yyyy-MM-dd');
+            const isToday = log.date === todayInTimeZone(timeZone);
             const isSelected = log.date === selectedDate;
             
             return (
@@ -333,13 +427,27 @@ export default function TimeLogManager({
               </h3>
               <p className="text-sm text-gray-500 dark:text-gray-400">
                 Total time: {formatDuration(totalDuration)}
+                {dayAnalysis && dayAnalysis.overlapMs > 0 && (
+                  <span className="ml-1">({formatDuration(dayAnalysis.overlapMs)} overlapping, counted once)</span>
+                )}
               </p>
+              {syncStatus && syncStatus.lastRunAt && (
+                <p
+                  className={`text-xs ${syncStatus.status === 'error' ? 'text-red-600 dark:text-red-400' : 'text-gray-400 dark:text-gray-500'}`}
+                  title={syncStatus.error || undefined}
+                >
+                  {syncStatus.status === 'error'
+                    ? `Last ${syncStatus.trigger === 'scheduled' ? 'automatic ' : ''}calendar sync failed ${formatDistanceToNow(new Date(syncStatus.lastRunAt), { addSuffix: true })}${syncStatus.error ? `: ${syncStatus.error}` : ''}`
+                    : `Calendar ${syncStatus.trigger === 'scheduled' ? 'synced automatically' : 'synced'} ${formatDistanceToNow(new Date(syncStatus.lastRunAt), { addSuffix: true })}`}
+                  {syncStatus.isRunning && ' · syncing now'}
+                </p>
+              )}
             </div>
             <div className="flex flex-wrap gap-2">
               <button
                 onClick={handleAddEntry}
-                className="flex items-center px-3 sm:px-4 py-2 text-xs sm:text-sm font-medium text-white bg-blue-600 border border-transparent rounded-lg hover:bg-blue-700 transition-colors"
-                title="Add new time entry (Ctrl+N)"
+                className={`flex items-center px-3 sm:px-4 py-2 text-xs sm:text-sm font-medium text-white bg-blue-600 border border-transparent rounded-lg hover:bg-blue-700 transition-colors ${isWeekLocked ? 'opacity-50' : ''}`}
+                title={isWeekLocked ? "This week's timesheet is locked" : 'Add new time entry (Ctrl+N)'}
               >
                 <Plus className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
                 <span className="hidden sm:inline">Add Entry</span>
@@ -354,6 +462,13 @@ export default function TimeLogManager({
                 <span className="hidden sm:inline">Sync Calendar</span>
                 <span className="sm:hidden">Sync</span>
               </button>
+              <button
+                onClick={() => setIsCalendarSettingsOpen(true)}
+                className="flex items-center px-3 py-2 text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+                title="Choose calendars and import rules"
+              >
+                <Settings className="h-3 w-3 sm:h-4 sm:w-4" />
+              </button>
               <button
                 onClick={copyTimeLogToClipboard}
                 className="flex items-center px-3 sm:px-4 py-2 text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
@@ -372,19 +487,117 @@ export default function TimeLogManager({
                 <span className="hidden sm:inline">Calendar</span>
                 <span className="sm:hidden">Cal</span>
               </button>
+              <div className="relative">
+                <button
+                  onClick={() => setIsExportMenuOpen(open => !open)}
+                  className="flex items-center px-3 sm:px-4 py-2 text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+                  title="Export all data"
+                >
+                  <Download className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                  <span className="hidden sm:inline">Export All</span>
+                  <span className="sm:hidden">Export</span>
+                </button>
+                {isExportMenuOpen && (
+                  <div className="absolute right-0 z-20 mt-1 w-36 py-1 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg">
+                    {EXPORT_MENU.map(option => (
+                      <button
+                        key={option.format}
+                        onClick={() => exportAllData(option.format)}
+                        className="block w-full px-3 py-1.5 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600"
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => setIsTimesheetOpen(true)}
+                className="flex items-center px-3 sm:px-4 py-2 text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+                title="Download a printable weekly or monthly timesheet"
+              >
+                <FileText className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                <span className="hidden sm:inline">Timesheet</span>
+                <span className="sm:hidden">PDF</span>
+              </button>
               <button
-                onClick={exportAllData}
+                onClick={exportIcs}
                 className="flex items-center px-3 sm:px-4 py-2 text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
-                title="Export all data to CSV"
+                title="Export all data as an iCalendar file"
               >
                 <Download className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
-                <span className="hidden sm:inline">Export All</span>
-                <span className="sm:hidden">Export</span>
+                <span className="hidden sm:inline">Export ICS</span>
+                <span className="sm:hidden">ICS</span>
+              </button>
+              <button
+                onClick={() => icsInputRef.current?.click()}
+                className="flex items-center px-3 sm:px-4 py-2 text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+                title="Import events from an iCalendar (.ics) file"
+              >
+                <Upload className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                <span className="hidden sm:inline">Import ICS</span>
+                <span className="sm:hidden">Import</span>
               </button>
+              <button
+                onClick={() => setIsImportOpen(true)}
+                className="flex items-center px-3 sm:px-4 py-2 text-xs sm:text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+                title="Import entries from a CSV file or a Toggl, Clockify or Harvest export"
+              >
+                <Upload className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+                <span className="hidden sm:inline">Import File</span>
+                <span className="sm:hidden">File</span>
+              </button>
+              <input
+                ref={icsInputRef}
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={handleImportIcs}
+                className="hidden"
+              />
             </div>
           </div>
         </div>
 
+        <TimesheetApprovalBar
+          date={selectedDate}
+          refreshKey={logs}
+          onLockChange={setIsWeekLocked}
+          onShowNotification={showNotification}
+        />
+
+        {availableTags.length > 0 && (
+          <div className="px-4 sm:px-6 py-3 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center gap-2">
+            <TagIcon className="h-4 w-4 text-gray-400 dark:text-gray-500" />
+            {availableTags.map(tag => {
+              const isActive = tagFilter.indexOf(tag) !== -1;
+              return (
+                <button
+                  key={tag}
+                  onClick={() => toggleTagFilter(tag)}
+                  className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                    isActive
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600'
+                  }`}
+                  title={isActive ? 'Remove tag filter' : 'Filter by tag'}
+                >
+                  #{tag}
+                </button>
+              );
+            })}
+            {tagFilter.length > 0 && (
+              <button
+                onClick={() => setTagFilter([])}
+                className="flex items-center text-xs text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+                title="Clear tag filter"
+              >
+                <X className="h-3 w-3 mr-1" />
+                Clear
+              </button>
+            )}
+          </div>
+        )}
+
         <div className="px-4 sm:px-6 py-4">
           {isLoading ? (
             <div className="space-y-3">
@@ -402,6 +615,27 @@ export default function TimeLogManager({
                   {currentLog.entries.length} {currentLog.entries.length === 1 ? 'entry' : 'entries'}
                 </span>
               </div>
+              {dayAnalysis && (dayAnalysis.overlaps.length > 0 || dayAnalysis.gaps.length > 0) && (
+                <div className="mb-3 sm:mb-4 p-3 rounded-lg border border-yellow-200 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20 text-xs sm:text-sm text-yellow-800 dark:text-yellow-200 space-y-1">
+                  {dayAnalysis.overlaps.map((overlap, index) => (
+                    <div key={`overlap-${index}`} className="flex items-start">
+                      <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+                      <span>
+                        &ldquo;{overlap.titles[0]}&rdquo; and &ldquo;{overlap.titles[1]}&rdquo; overlap
+                        from {formatEntryTime(overlap.start, timeZone)} to {formatEntryTime(overlap.end, timeZone)}
+                      </span>
+                    </div>
+                  ))}
+                  {dayAnalysis.gaps.map((gap, index) => (
+                    <div key={`gap-${index}`} className="flex items-start">
+                      <Clock className="h-4 w-4 mr-2 flex-shrink-0" />
+                      <span>
+                        Untracked from {formatEntryTime(gap.start, timeZone)} to {formatEntryTime(gap.end, timeZone)} ({formatDuration(gap.durationMs)})
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
               <div className="space-y-3">
               {currentLog.entries
                 .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
@@ -420,6 +654,11 @@ export default function TimeLogManager({
                           entry.type === 'manual' ? 'bg-green-500' : 'bg-blue-500'
                         }`} />
                         <h4 className="text-sm font-medium text-gray-900 dark:text-white truncate">{entry.title}</h4>
+                        {entry._id && overlappingIds.indexOf(entry._id) !== -1 && (
+                          <span title="Overlaps another entry">
+                            <AlertTriangle className="h-4 w-4 text-yellow-500 flex-shrink-0" />
+                          </span>
+                        )}
                         <span className={`px-2 py-1 text-xs rounded-full flex-shrink-0 ${
                           entry.type === 'manual'
                             ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300'
@@ -427,39 +666,84 @@ export default function TimeLogManager({
                         }`}>
                           {entry.type}
                         </span>
+                        {entry.locallyModified && (
+                          <span
+                            className="px-2 py-1 text-xs rounded-full flex-shrink-0 bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300"
+                            title={entry.original ? `Calendar event: ${entry.original.title}` : 'Edited after syncing'}
+                          >
+                            edited
+                          </span>
+                        )}
+                        {entry.billable && (
+                          <span className="px-2 py-1 text-xs rounded-full flex-shrink-0 bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-300">
+                            billable
+                          </span>
+                        )}
+                        {entry.invoiceId && (
+                          <span
+                            className="px-2 py-1 text-xs rounded-full flex-shrink-0 bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300"
+                            title="Already on an invoice"
+                          >
+                            invoiced
+                          </span>
+                        )}
+                        {projectsById[entry.projectId || ''] && (
+                          <span className="flex items-center px-2 py-1 text-xs rounded-full flex-shrink-0 bg-gray-100 dark:bg-gray-600 text-gray-700 dark:text-gray-200">
+                            <span
+                              className="w-2 h-2 rounded-full mr-1"
+                              style={{ backgroundColor: projectsById[entry.projectId!].color }}
+                            />
+                            {projectsById[entry.projectId!].name}
+                          </span>
+                        )}
                       </div>
                       {entry.description && (
                         <p className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 mt-1 line-clamp-2">{entry.description}</p>
                       )}
+                      {entry.tags && entry.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {entry.tags.map(tag => (
+                            <span
+                              key={tag}
+                              className="px-1.5 py-0.5 text-xs rounded text-white"
+                              style={{ backgroundColor: tagColors[tag] || '#6b7280' }}
+                            >
+                              #{tag}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                       <div className="flex items-center mt-2 text-xs text-gray-500 dark:text-gray-400">
                         <Clock className="h-3 w-3 mr-1 flex-shrink-0" />
                         <span className="truncate">
-                          {format(parseISO(entry.startTime), 'h:mm a')} - {format(parseISO(entry.endTime), 'h:mm a')}
+                          {formatEntryTime(entry.startTime, timeZone)} - {formatEntryTime(entry.endTime, timeZone)}
                         </span>
                         <span className="ml-2 flex-shrink-0">
-                          ({formatDuration(parseISO(entry.endTime).getTime() - parseISO(entry.startTime).getTime())})
+                          ({formatDuration(getTotalDuration([entry]))})
                         </span>
                       </div>
                     </div>
                   </div>
-                  <div className="flex space-x-2 sm:ml-4">
-                    <button
-                      onClick={() => handleEditEntry(entry)}
-                      className="flex items-center text-xs sm:text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 transition-colors px-2 py-1"
-                      title="Edit entry"
-                    >
-                      <Edit3 className="h-3 w-3 sm:h-4 sm:w-4 mr-1" />
-                      <span className="hidden sm:inline">Edit</span>
-                    </button>
-                    <button
-                      onClick={() => handleDeleteEntry(entry._id!)}
-                      className="flex items-center text-xs sm:text-sm text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 transition-colors px-2 py-1"
-                      title="Delete entry"
-                    >
-                      <Trash2 className="h-3 w-3 sm:h-4 sm:w-4 mr-1" />
-                      <span className="hidden sm:inline">Delete</span>
-                    </button>
-                  </div>
+                  {!isWeekLocked && (
+                    <div className="flex space-x-2 sm:ml-4">
+                      <button
+                        onClick={() => handleEditEntry(entry)}
+                        className="flex items-center text-xs sm:text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 transition-colors px-2 py-1"
+                        title="Edit entry"
+                      >
+                        <Edit3 className="h-3 w-3 sm:h-4 sm:w-4 mr-1" />
+                        <span className="hidden sm:inline">Edit</span>
+                      </button>
+                      <button
+                        onClick={() => handleDeleteEntry(entry._id!)}
+                        className="flex items-center text-xs sm:text-sm text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 transition-colors px-2 py-1"
+                        title="Delete entry"
+                      >
+                        <Trash2 className="h-3 w-3 sm:h-4 sm:w-4 mr-1" />
+                        <span className="hidden sm:inline">Delete</span>
+                      </button>
+                    </div>
+                  )}
                 </div>
               ))}
               </div>
@@ -502,10 +786,37 @@ export default function TimeLogManager({
           setIsModalOpen(false);
           onRefresh();
         }}
+        onConflict={handleConflict}
+        projects={projects}
+        onProjectCreated={onProjectsChange}
+        tags={tags}
+        timeZone={timeZone}
         date={selectedDate}
         entry={editingEntry}
       />
 
+      <CalendarSettingsModal
+        isOpen={isCalendarSettingsOpen}
+        onClose={() => setIsCalendarSettingsOpen(false)}
+        projects={projects}
+        onShowNotification={showNotification}
+      />
+
+      <TimesheetModal
+        isOpen={isTimesheetOpen}
+        onClose={() => setIsTimesheetOpen(false)}
+        projects={projects}
+        date={selectedDate}
+      />
+
+      <ImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        onImported={onRefresh}
+        timeZone={timeZone}
+        onShowNotification={showNotification}
+      />
+
       <CalendarView
         isOpen={isCalendarOpen}
         onClose={() => setIsCalendarOpen(false)}
@@ -514,6 +825,7 @@ export default function TimeLogManager({
           setIsCalendarOpen(false);
         }}
         selectedDate={selectedDate}
+        timeZone={timeZone}
       />
 
       <NotificationModal
@@ -530,8 +842,8 @@ export default function TimeLogManager({
         onConfirm={confirmation.onConfirm}
         title={confirmation.title}
         message={confirmation.message}
-        type="danger"
-        confirmText="Delete"
+        type={confirmation.type || 'danger'}
+        confirmText={confirmation.confirmText || 'Delete'}
         cancelText="Cancel"
       />
     </div>
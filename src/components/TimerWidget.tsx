@@ -0,0 +1,176 @@
+'use client';
+
+import React from 'react';
+import { Play, Square } from 'lucide-react';
+import { Project, Timer } from '@/types';
+import { NotificationType } from './NotificationModal';
+
+interface TimerWidgetProps {
+  projects: Project[];
+  onStopped: () => void;
+  onShowNotification: (type: NotificationType, title: string, message: string) => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+  return `${hours}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+export default function TimerWidget({ projects, onStopped, onShowNotification }: TimerWidgetProps) {
+  const [timer, setTimer] = React.useState<Timer | null>(null);
+  const [title, setTitle] = React.useState('');
+  const [projectId, setProjectId] = React.useState('');
+  const [isBusy, setIsBusy] = React.useState(false);
+  const [now, setNow] = React.useState(Date.now());
+  // Difference between the server clock and ours, so elapsed time matches other devices
+  const [clockOffset, setClockOffset] = React.useState(0);
+
+  const applyResponse = (data: { timer: Timer | null; serverTime?: string }) => {
+    setTimer(data.timer);
+    if (data.serverTime) {
+      setClockOffset(new Date(data.serverTime).getTime() - Date.now());
+    }
+  };
+
+  const fetchTimer = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/timer');
+      if (response.ok) {
+        applyResponse(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching timer:', error);
+    }
+  }, []);
+
+  // Pick up timers started or stopped on another device when the tab regains focus
+  React.useEffect(() => {
+    fetchTimer();
+    window.addEventListener('focus', fetchTimer);
+    return () => window.removeEventListener('focus', fetchTimer);
+  }, [fetchTimer]);
+
+  React.useEffect(() => {
+    if (!timer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const handleStart = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsBusy(true);
+
+    try {
+      const response = await fetch('/api/timer/start', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: title.trim() || 'Untitled timer',
+          projectId: projectId || null,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        applyResponse(data);
+        setTitle('');
+      } else if (response.status === 409) {
+        // Already running elsewhere - show that timer instead
+        await fetchTimer();
+        onShowNotification('warning', 'Timer Running', 'A timer was already running on another device.');
+      } else {
+        onShowNotification('error', 'Timer Failed', data.error || 'Failed to start the timer.');
+      }
+    } catch (error) {
+      console.error('Error starting timer:', error);
+      onShowNotification('error', 'Timer Failed', 'An error occurred while starting the timer.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStop = async () => {
+    setIsBusy(true);
+
+    try {
+      const response = await fetch('/api/timer/stop', { method: 'POST' });
+
+      if (response.ok || response.status === 404 || response.status === 423) {
+        setTimer(null);
+        onStopped();
+        if (response.ok) {
+          onShowNotification('success', 'Timer Stopped', 'Your time has been logged.');
+        } else if (response.status === 423) {
+          const data = await response.json();
+          onShowNotification('warning', 'Timer Stopped', `${data.error} Time on those days wasn't logged.`);
+        }
+      } else {
+        onShowNotification('error', 'Timer Failed', 'Failed to stop the timer. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error stopping timer:', error);
+      onShowNotification('error', 'Timer Failed', 'An error occurred while stopping the timer.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (timer) {
+    const elapsed = now + clockOffset - new Date(timer.startTime).getTime();
+
+    return (
+      <div className="flex items-center space-x-2 px-2 sm:px-3 py-1 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+        <span className="h-2 w-2 rounded-full bg-red-500 animate-pulse flex-shrink-0" />
+        <span className="hidden md:inline text-sm text-gray-700 dark:text-gray-300 truncate max-w-32" title={timer.title}>
+          {timer.title}
+        </span>
+        <span className="text-sm font-mono font-medium text-gray-900 dark:text-white">{formatElapsed(elapsed)}</span>
+        <button
+          onClick={handleStop}
+          disabled={isBusy}
+          className="p-1 text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300 disabled:opacity-50"
+          title="Stop timer"
+        >
+          <Square className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleStart} className="flex items-center space-x-1 sm:space-x-2">
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        className="hidden md:block w-40 lg:w-56 px-3 py-1.5 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+        placeholder="What are you working on?"
+      />
+      {projects.length > 0 && (
+        <select
+          value={projectId}
+          onChange={(e) => setProjectId(e.target.value)}
+          className="hidden lg:block w-32 px-2 py-1.5 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm"
+        >
+          <option value="">No project</option>
+          {projects.map((project) => (
+            <option key={project._id} value={project._id}>{project.name}</option>
+          ))}
+        </select>
+      )}
+      <button
+        type="submit"
+        disabled={isBusy}
+        className="flex items-center p-1.5 sm:px-3 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 transition-colors disabled:opacity-50"
+        title="Start timer"
+      >
+        <Play className="h-4 w-4 sm:mr-1" />
+        <span className="hidden sm:inline">Start</span>
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { Lock, Send, Undo2, XCircle, CheckCircle2 } from 'lucide-react';
+import { TimesheetRecord, WorkspaceSummary } from '@/types';
+import { formatDuration } from '@/utils/exportRows';
+import { TIMESHEET_STATUS_LABELS, canSubmit, isLockedStatus } from '@/utils/timesheetStatus';
+import { can } from '@/utils/workspaceRoles';
+import { NotificationType } from './NotificationModal';
+
+interface TimesheetApprovalBarProps {
+  date: string;
+  refreshKey?: unknown; // Refetches when it changes, e.g. the day's log version
+  onLockChange: (locked: boolean) => void;
+  onShowNotification: (type: NotificationType, title: string, message: string) => void;
+}
+
+const STATUS_CLASSES: Record<TimesheetRecord['status'], string> = {
+  draft: 'bg-gray-100 dark:bg-gray-600 text-gray-700 dark:text-gray-300',
+  submitted: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300',
+  approved: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+  rejected: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+};
+
+// Approval state of the selected day's week, with submit and withdraw controls.
+// Hidden for people who don't track time in any workspace and never submitted.
+export default function TimesheetApprovalBar({
+  date,
+  refreshKey,
+  onLockChange,
+  onShowNotification
+}: TimesheetApprovalBarProps) {
+  const [timesheet, setTimesheet] = React.useState<TimesheetRecord | null>(null);
+  const [workspaces, setWorkspaces] = React.useState<WorkspaceSummary[]>([]);
+  const [workspaceId, setWorkspaceId] = React.useState('');
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    fetch('/api/workspaces')
+      .then(response => (response.ok ? response.json() : []))
+      .then((data: WorkspaceSummary[]) => {
+        const trackable = data.filter(workspace => can(workspace.role, 'trackTime'));
+        setWorkspaces(trackable);
+        setWorkspaceId(prev => prev || trackable[0]?._id || '');
+      })
+      .catch(error => console.error('Error fetching workspaces:', error));
+  }, []);
+
+  const fetchTimesheet = React.useCallback(async () => {
+    try {
+      const response = await fetch(`/api/timesheets/${date}`);
+      if (response.ok) {
+        const data: TimesheetRecord = await response.json();
+        setTimesheet(data);
+        if (data.workspaceId) setWorkspaceId(data.workspaceId._id);
+      }
+    } catch (error) {
+      console.error('Error fetching timesheet:', error);
+    }
+  }, [date]);
+
+  React.useEffect(() => {
+    fetchTimesheet();
+  }, [fetchTimesheet, refreshKey]);
+
+  const isLocked = isLockedStatus(timesheet?.status);
+
+  React.useEffect(() => {
+    onLockChange(isLocked);
+  }, [isLocked, onLockChange]);
+
+  const runAction = async (action: 'submit' | 'withdraw') => {
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(`/api/timesheets/${date}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: action === 'submit' ? JSON.stringify({ workspaceId }) : undefined,
+      });
+
+      if (response.ok) {
+        onShowNotification(
+          'success',
+          action === 'submit' ? 'Timesheet Submitted' : 'Timesheet Withdrawn',
+          action === 'submit'
+            ? "The week is locked until it's approved or sent back."
+            : 'The week is a draft again and can be edited.'
+        );
+      } else {
+        const data = await response.json();
+        onShowNotification('error', action === 'submit' ? 'Submit Failed' : 'Withdraw Failed', data.error || 'Please try again.');
+      }
+      fetchTimesheet();
+    } catch (error) {
+      console.error(`Error running timesheet ${action}:`, error);
+      onShowNotification('error', 'Timesheet Error', 'An error occurred. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!timesheet || (workspaces.length === 0 && !timesheet._id)) return null;
+
+  const weekLabel = `Week of ${format(parseISO(timesheet.weekStart), 'MMM d')} to ${format(parseISO(timesheet.weekEnd), 'MMM d')}`;
+  const reviewer = timesheet.reviewedBy?.name;
+
+  return (
+    <div className="px-4 sm:px-6 py-2 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-xs sm:text-sm">
+      <div className="flex items-center flex-wrap gap-2 min-w-0">
+        {isLocked && <Lock className="h-4 w-4 text-gray-400 dark:text-gray-500 flex-shrink-0" />}
+        <span className="text-gray-700 dark:text-gray-300">{weekLabel}</span>
+        <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_CLASSES[timesheet.status]}`}>
+          {TIMESHEET_STATUS_LABELS[timesheet.status]}
+        </span>
+        {timesheet.status === 'submitted' && timesheet.workspaceId && (
+          <span className="text-gray-500 dark:text-gray-400">
+            in {timesheet.workspaceId.name}{timesheet.totalMs !== undefined && `, ${formatDuration(timesheet.totalMs)}`}
+          </span>
+        )}
+        {timesheet.status === 'approved' && (
+          <span className="flex items-center text-gray-500 dark:text-gray-400">
+            <CheckCircle2 className="h-3 w-3 mr-1 text-green-500" />
+            {reviewer ? `by ${reviewer}` : ''}{timesheet.reviewedAt && ` on ${format(new Date(timesheet.reviewedAt), 'MMM d')}`}
+          </span>
+        )}
+        {timesheet.status === 'rejected' && (
+          <span className="flex items-start text-red-700 dark:text-red-300">
+            <XCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+            {reviewer ? `${reviewer}: ` : ''}&ldquo;{timesheet.comment}&rdquo;
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        {canSubmit(timesheet.status) && workspaces.length > 0 && (
+          <>
+            {workspaces.length > 1 && (
+              <select
+                value={workspaceId}
+                onChange={(e) => setWorkspaceId(e.target.value)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md text-xs sm:text-sm"
+                title="Workspace that approves this week"
+              >
+                {workspaces.map(workspace => (
+                  <option key={workspace._id} value={workspace._id}>{workspace.name}</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => runAction('submit')}
+              disabled={isSubmitting || !workspaceId}
+              className="flex items-center px-3 py-1 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              title={workspaces.length === 1 ? `Send this week to ${workspaces[0].name} for approval` : 'Send this week for approval'}
+            >
+              <Send className="h-3 w-3 mr-1" />
+              {timesheet.status === 'rejected' ? 'Resubmit' : 'Submit week'}
+            </button>
+          </>
+        )}
+        {timesheet.status === 'submitted' && (
+          <button
+            onClick={() => runAction('withdraw')}
+            disabled={isSubmitting}
+            className="flex items-center px-3 py-1 font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50"
+            title="Take the week back to edit it"
+          >
+            <Undo2 className="h-3 w-3 mr-1" />
+            Withdraw
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
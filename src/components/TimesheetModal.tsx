@@ -0,0 +1,124 @@
+'use client';
+
+import React from 'react';
+import { X, FileText } from 'lucide-react';
+import { Project } from '@/types';
+
+interface TimesheetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: Project[];
+  date: string; // Preselected day; the timesheet covers its week or month
+}
+
+const inputClassName = 'block w-full px-3 py-1.5 border border-gray-300 dark:border-gray-600 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+
+export default function TimesheetModal({
+  isOpen,
+  onClose,
+  projects,
+  date
+}: TimesheetModalProps) {
+  const [period, setPeriod] = React.useState<'week' | 'month'>('week');
+  const [day, setDay] = React.useState(date);
+  const [projectId, setProjectId] = React.useState('');
+
+  React.useEffect(() => {
+    if (isOpen) setDay(date);
+  }, [isOpen, date]);
+
+  const handleDownload = () => {
+    const params = new URLSearchParams({ period, date: day });
+    if (projectId) params.set('projectId', projectId);
+    window.location.href = `/api/export/timesheet?${params.toString()}`;
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-3 sm:px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} />
+
+        <div className="inline-block align-bottom bg-white dark:bg-gray-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-md sm:w-full w-full mx-3 sm:mx-0">
+          <div className="bg-white dark:bg-gray-800 px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="flex items-center text-base sm:text-lg font-medium text-gray-900 dark:text-white">
+                <FileText className="h-5 w-5 mr-2 text-gray-400 dark:text-gray-500" />
+                Timesheet PDF
+              </h3>
+              <button
+                type="button"
+                onClick={onClose}
+                className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 p-1"
+              >
+                <X className="h-5 w-5 sm:h-6 sm:w-6" />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                  Period
+                </label>
+                <select
+                  value={period}
+                  onChange={(e) => setPeriod(e.target.value as 'week' | 'month')}
+                  className={inputClassName}
+                >
+                  <option value="week">Week (Monday to Sunday)</option>
+                  <option value="month">Month</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                  Any day in the {period}
+                </label>
+                <input
+                  type="date"
+                  value={day}
+                  onChange={(e) => setDay(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                  Project
+                </label>
+                <select
+                  value={projectId}
+                  onChange={(e) => setProjectId(e.target.value)}
+                  className={inputClassName}
+                >
+                  <option value="">All projects</option>
+                  {projects.map(project => (
+                    <option key={project._id} value={project._id}>{project.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-gray-50 dark:bg-gray-700 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse gap-3">
+            <button
+              type="button"
+              onClick={handleDownload}
+              disabled={!day}
+              className="w-full sm:w-auto inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-blue-600 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Download PDF
+            </button>
+            <button
+              type="button"
+              onClick={onClose}
+              className="mt-3 sm:mt-0 w-full sm:w-auto inline-flex justify-center rounded-md border border-gray-300 dark:border-gray-600 shadow-sm px-4 py-2 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,482 @@
+'use client';
+
+import React from 'react';
+import { X, Users, Trash2, Copy, Mail } from 'lucide-react';
+import { LogEntry, WorkspaceDetails, WorkspaceRole, WorkspaceSummary } from '@/types';
+import { formatDuration } from '@/utils/exportRows';
+import { getUnionDuration } from '@/utils/intervals';
+import { addDaysToKey, todayInTimeZone } from '@/utils/timezone';
+import { ASSIGNABLE_ROLES, can, canManageRole } from '@/utils/workspaceRoles';
+import { NotificationType } from './NotificationModal';
+import ConfirmationModal from './ConfirmationModal';
+
+interface WorkspacesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentUserId: string;
+  timeZone: string;
+  onProjectsChange: () => void;
+  onShowNotification: (type: NotificationType, title: string, message: string) => void;
+}
+
+interface TeamLog {
+  userId: string;
+  date: string;
+  entries: LogEntry[];
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+const inputClassName = 'block w-full px-3 py-1.5 border border-gray-300 dark:border-gray-600 placeholder-gray-500 dark:placeholder-gray-400 text-gray-900 dark:text-white bg-white dark:bg-gray-700 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-sm';
+const smallButtonClassName = 'px-3 py-1.5 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0';
+const sectionTitleClassName = 'text-sm font-medium text-gray-900 dark:text-white mb-2';
+
+const getErrorMessage = (data: { error?: string; details?: { message: string }[] }, fallback: string) =>
+  data.details?.[0]?.message || data.error || fallback;
+
+export default function WorkspacesModal({
+  isOpen,
+  onClose,
+  currentUserId,
+  timeZone,
+  onProjectsChange,
+  onShowNotification
+}: WorkspacesModalProps) {
+  const [workspaces, setWorkspaces] = React.useState<WorkspaceSummary[]>([]);
+  const [selectedId, setSelectedId] = React.useState('');
+  const [details, setDetails] = React.useState<WorkspaceDetails | null>(null);
+  const [teamLogs, setTeamLogs] = React.useState<TeamLog[]>([]);
+  const [newWorkspaceName, setNewWorkspaceName] = React.useState('');
+  const [invite, setInvite] = React.useState<{ email: string; role: Exclude<WorkspaceRole, 'owner'> }>({ email: '', role: 'member' });
+  // Link for the most recent invitation, to hand to the invitee
+  const [inviteLink, setInviteLink] = React.useState('');
+  const [newProjectName, setNewProjectName] = React.useState('');
+  const [isBusy, setIsBusy] = React.useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = React.useState(false);
+
+  const role = details?.role;
+
+  const fetchWorkspaces = React.useCallback(async () => {
+    try {
+      const response = await fetch('/api/workspaces');
+      if (response.ok) {
+        const data: WorkspaceSummary[] = await response.json();
+        setWorkspaces(data);
+        setSelectedId(prev => prev && data.some(item => item._id === prev) ? prev : data[0]?._id || '');
+      }
+    } catch (error) {
+      console.error('Error fetching workspaces:', error);
+    }
+  }, []);
+
+  const fetchDetails = React.useCallback(async (id: string) => {
+    if (!id) {
+      setDetails(null);
+      setTeamLogs([]);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/workspaces/${id}`);
+      if (!response.ok) {
+        setDetails(null);
+        return;
+      }
+      const data: WorkspaceDetails = await response.json();
+      setDetails(data);
+
+      // The last seven days of the team's time on workspace projects
+      if (can(data.role, 'viewTeamLogs')) {
+        const to = todayInTimeZone(timeZone);
+        const logsResponse = await fetch(`/api/workspaces/${id}/logs?from=${addDaysToKey(to, -6)}&to=${to}`);
+        setTeamLogs(logsResponse.ok ? (await logsResponse.json()).logs : []);
+      } else {
+        setTeamLogs([]);
+      }
+    } catch (error) {
+      console.error('Error fetching workspace:', error);
+    }
+  }, [timeZone]);
+
+  React.useEffect(() => {
+    if (isOpen) {
+      fetchWorkspaces();
+      setInviteLink('');
+    }
+  }, [isOpen, fetchWorkspaces]);
+
+  React.useEffect(() => {
+    if (isOpen) fetchDetails(selectedId);
+  }, [isOpen, selectedId, fetchDetails]);
+
+  // Sends a request and refreshes the workspace; returns the response body, or null on failure
+  const send = async (url: string, method: string, body: unknown, failureTitle: string) => {
+    try {
+      setIsBusy(true);
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        onShowNotification('error', failureTitle, getErrorMessage(data, 'Something went wrong'));
+        return null;
+      }
+      return data;
+    } catch (error) {
+      console.error(`${failureTitle}:`, error);
+      onShowNotification('error', failureTitle, 'Something went wrong');
+      return null;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const createWorkspace = async () => {
+    if (!newWorkspaceName.trim()) return;
+    const data = await send('/api/workspaces', 'POST', { name: newWorkspaceName }, 'Create Failed');
+    if (data) {
+      setNewWorkspaceName('');
+      setSelectedId(data._id);
+      fetchWorkspaces();
+    }
+  };
+
+  const inviteMember = async () => {
+    if (!details || !invite.email.trim()) return;
+    const data = await send(`/api/workspaces/${details._id}/invitations`, 'POST', invite, 'Invitation Failed');
+    if (data) {
+      setInvite(prev => ({ ...prev, email: '' }));
+      setInviteLink(data.url);
+      fetchDetails(details._id);
+    }
+  };
+
+  const copyInviteLink = async () => {
+    try {
+      await navigator.clipboard.writeText(inviteLink);
+      onShowNotification('success', 'Link Copied', 'Send the link to the person you invited. It works for 7 days.');
+    } catch (error) {
+      console.error('Failed to copy to clipboard:', error);
+    }
+  };
+
+  const withdrawInvitation = async (invitationId: string) => {
+    if (!details) return;
+    if (await send(`/api/workspaces/${details._id}/invitations/${invitationId}`, 'DELETE', null, 'Withdraw Failed')) {
+      fetchDetails(details._id);
+    }
+  };
+
+  const changeRole = async (userId: string, newRole: WorkspaceRole) => {
+    if (!details) return;
+    if (await send(`/api/workspaces/${details._id}/members/${userId}`, 'PATCH', { role: newRole }, 'Role Change Failed')) {
+      fetchDetails(details._id);
+    }
+  };
+
+  // Also used to leave the workspace
+  const removeMember = async (userId: string) => {
+    if (!details) return;
+    if (await send(`/api/workspaces/${details._id}/members/${userId}`, 'DELETE', null, 'Remove Failed')) {
+      if (userId === currentUserId) {
+        fetchWorkspaces();
+        onProjectsChange();
+      } else {
+        fetchDetails(details._id);
+      }
+    }
+  };
+
+  const addProject = async () => {
+    if (!details || !newProjectName.trim()) return;
+    const data = await send('/api/projects', 'POST', { name: newProjectName, workspaceId: details._id }, 'Create Failed');
+    if (data) {
+      setNewProjectName('');
+      fetchDetails(details._id);
+      onProjectsChange();
+    }
+  };
+
+  const deleteWorkspace = async () => {
+    if (!details) return;
+    if (await send(`/api/workspaces/${details._id}`, 'DELETE', null, 'Delete Failed')) {
+      setSelectedId('');
+      fetchWorkspaces();
+      onProjectsChange();
+    }
+    setIsDeleteOpen(false);
+  };
+
+  // Per-member totals, counting each member's overlapping entries once
+  const teamTotals = React.useMemo(() => {
+    const totals: Record<string, { duration: number; entries: number }> = {};
+    teamLogs.forEach(log => {
+      const total = totals[log.userId] || { duration: 0, entries: 0 };
+      total.duration += getUnionDuration(log.entries, timeZone);
+      total.entries += log.entries.length;
+      totals[log.userId] = total;
+    });
+    return totals;
+  }, [teamLogs, timeZone]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      <div className="flex items-center justify-center min-h-screen pt-4 px-3 sm:px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={onClose} />
+
+        <div className="inline-block align-bottom bg-white dark:bg-gray-800 rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full w-full mx-3 sm:mx-0">
+          <div className="bg-white dark:bg-gray-800 px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="flex items-center text-base sm:text-lg font-medium text-gray-900 dark:text-white">
+                <Users className="h-5 w-5 mr-2 text-gray-400 dark:text-gray-500" />
+                Workspaces
+              </h3>
+              <button
+                type="button"
+                onClick={onClose}
+                className="text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 p-1"
+              >
+                <X className="h-5 w-5 sm:h-6 sm:w-6" />
+              </button>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-2 mb-4">
+              {workspaces.length > 0 && (
+                <select value={selectedId} onChange={(e) => setSelectedId(e.target.value)} className={`${inputClassName} sm:w-1/2`}>
+                  {workspaces.map(workspace => (
+                    <option key={workspace._id} value={workspace._id}>
+                      {workspace.name} ({ROLE_LABELS[workspace.role]})
+                    </option>
+                  ))}
+                </select>
+              )}
+              <div className="flex gap-2 flex-1">
+                <input
+                  type="text"
+                  value={newWorkspaceName}
+                  onChange={(e) => setNewWorkspaceName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && createWorkspace()}
+                  placeholder="New workspace name"
+                  maxLength={100}
+                  className={inputClassName}
+                />
+                <button onClick={createWorkspace} disabled={isBusy || !newWorkspaceName.trim()} className={smallButtonClassName}>
+                  Create
+                </button>
+              </div>
+            </div>
+
+            {workspaces.length === 0 && (
+              <div className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">
+                <Users className="h-8 w-8 mx-auto mb-2 text-gray-400 dark:text-gray-500" />
+                Create a workspace to share projects with your team.
+              </div>
+            )}
+
+            {details && role && (
+              <div className="space-y-5 max-h-[60vh] overflow-y-auto pr-1">
+                <div>
+                  <h4 className={sectionTitleClassName}>Members</h4>
+                  <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-md">
+                    {details.members.map(member => {
+                      const isSelf = member.userId === currentUserId;
+                      const canChange = canManageRole(role, member.role);
+                      return (
+                        <li key={member.userId} className="flex items-center justify-between px-3 py-2 gap-2">
+                          <div className="min-w-0">
+                            <p className="text-sm text-gray-900 dark:text-white truncate">
+                              {member.name}{isSelf && ' (you)'}
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{member.email}</p>
+                          </div>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            {canChange && !isSelf ? (
+                              <select
+                                value={member.role}
+                                onChange={(e) => changeRole(member.userId, e.target.value as WorkspaceRole)}
+                                disabled={isBusy}
+                                className={`${inputClassName} w-auto`}
+                              >
+                                {ASSIGNABLE_ROLES.filter(option => canManageRole(role, option)).map(option => (
+                                  <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                                ))}
+                              </select>
+                            ) : (
+                              <span className="px-2 py-0.5 text-xs rounded-full bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-300">
+                                {ROLE_LABELS[member.role]}
+                              </span>
+                            )}
+                            {member.role !== 'owner' && (isSelf || canChange) && (
+                              <button
+                                onClick={() => removeMember(member.userId)}
+                                disabled={isBusy}
+                                className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                              >
+                                {isSelf ? 'Leave' : 'Remove'}
+                              </button>
+                            )}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+
+                {can(role, 'manageMembers') && (
+                  <div>
+                    <h4 className={sectionTitleClassName}>Invite by email</h4>
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <input
+                        type="email"
+                        value={invite.email}
+                        onChange={(e) => setInvite(prev => ({ ...prev, email: e.target.value }))}
+                        onKeyDown={(e) => e.key === 'Enter' && inviteMember()}
+                        placeholder="name@example.com"
+                        className={inputClassName}
+                      />
+                      <select
+                        value={invite.role}
+                        onChange={(e) => setInvite(prev => ({ ...prev, role: e.target.value as Exclude<WorkspaceRole, 'owner'> }))}
+                        className={`${inputClassName} sm:w-32`}
+                      >
+                        {ASSIGNABLE_ROLES.filter(option => canManageRole(role, option)).map(option => (
+                          <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                        ))}
+                      </select>
+                      <button onClick={inviteMember} disabled={isBusy || !invite.email.trim()} className={smallButtonClassName}>
+                        Invite
+                      </button>
+                    </div>
+                    {inviteLink && (
+                      <div className="mt-2 flex items-center gap-2 p-2 rounded-md bg-blue-50 dark:bg-blue-900/20 text-xs text-blue-800 dark:text-blue-200">
+                        <span className="truncate flex-1" title={inviteLink}>{inviteLink}</span>
+                        <button onClick={copyInviteLink} className="flex items-center flex-shrink-0 hover:underline">
+                          <Copy className="h-3 w-3 mr-1" />
+                          Copy link
+                        </button>
+                      </div>
+                    )}
+                    {details.invitations.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {details.invitations.map(invitation => (
+                          <li key={invitation._id} className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
+                            <span className="flex items-center min-w-0">
+                              <Mail className="h-3 w-3 mr-1 flex-shrink-0" />
+                              <span className="truncate">
+                                {invitation.email} as {ROLE_LABELS[invitation.role]}, expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                              </span>
+                            </span>
+                            <button
+                              onClick={() => withdrawInvitation(invitation._id)}
+                              disabled={isBusy}
+                              className="text-red-600 dark:text-red-400 hover:underline flex-shrink-0 ml-2"
+                            >
+                              Withdraw
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <h4 className={sectionTitleClassName}>Projects</h4>
+                  {details.projects.length > 0 ? (
+                    <div className="flex flex-wrap gap-2">
+                      {details.projects.map(project => (
+                        <span key={project._id} className="flex items-center px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                          <span className="w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: project.color }} />
+                          {project.name}{project.archived && ' (archived)'}
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">No shared projects yet.</p>
+                  )}
+                  {can(role, 'manageProjects') && (
+                    <div className="mt-2 flex gap-2">
+                      <input
+                        type="text"
+                        value={newProjectName}
+                        onChange={(e) => setNewProjectName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && addProject()}
+                        placeholder="New shared project"
+                        className={inputClassName}
+                      />
+                      <button onClick={addProject} disabled={isBusy || !newProjectName.trim()} className={smallButtonClassName}>
+                        Add
+                      </button>
+                    </div>
+                  )}
+                  {!can(role, 'trackTime') && (
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">Viewers can&apos;t log time on workspace projects.</p>
+                  )}
+                </div>
+
+                {can(role, 'viewTeamLogs') && (
+                  <div>
+                    <h4 className={sectionTitleClassName}>Last 7 days on workspace projects</h4>
+                    <table className="min-w-full text-sm">
+                      <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {details.members.map(member => (
+                          <tr key={member.userId} className="text-gray-700 dark:text-gray-300">
+                            <td className="py-1.5 pr-2 truncate">{member.name}</td>
+                            <td className="py-1.5 px-2 text-right tabular-nums">{teamTotals[member.userId]?.entries || 0} entries</td>
+                            <td className="py-1.5 pl-2 text-right tabular-nums font-medium text-gray-900 dark:text-white">
+                              {formatDuration(teamTotals[member.userId]?.duration || 0)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-gray-50 dark:bg-gray-700 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse sm:justify-between gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="w-full sm:w-auto inline-flex justify-center rounded-md border border-gray-300 dark:border-gray-600 shadow-sm px-4 py-2 bg-white dark:bg-gray-800 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            >
+              Close
+            </button>
+            {details && can(role, 'manageWorkspace') && (
+              <button
+                type="button"
+                onClick={() => setIsDeleteOpen(true)}
+                className="mt-3 sm:mt-0 w-full sm:w-auto inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-red-600 dark:text-red-400 hover:text-red-700"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete workspace
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ConfirmationModal
+        isOpen={isDeleteOpen}
+        onClose={() => setIsDeleteOpen(false)}
+        onConfirm={deleteWorkspace}
+        title="Delete Workspace"
+        message={`Delete "${details?.name}"? Members lose access to its projects, which go back to the people who created them.`}
+        confirmText="Delete"
+        type="danger"
+        isLoading={isBusy}
+      />
+    </div>
+  );
+}
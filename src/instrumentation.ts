@@ -0,0 +1,19 @@
+// Runs once when the server starts. Credentials stored in plain text by
+// older versions are encrypted first. Long-running deployments (Render,
+// Railway, `npm start`) can sync calendars in-process by setting
+// CALENDAR_SYNC_SCHEDULER=internal; serverless hosts call
+// /api/cron/calendar-sync from a cron service instead.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { default: connectDB } = await import('@/lib/mongodb');
+  const { encryptLegacySecrets } = await import('@/lib/legacySecrets');
+  await connectDB().then(encryptLegacySecrets).catch((error) => {
+    console.error('Error encrypting stored credentials:', error);
+  });
+
+  if (process.env.CALENDAR_SYNC_SCHEDULER !== 'internal') return;
+
+  const { startCalendarSyncScheduler } = await import('@/lib/calendarScheduler');
+  startCalendarSyncScheduler();
+}
@@ -1,16 +1,31 @@
 import { NextAuthOptions } from 'next-auth';
+import { Adapter, AdapterAccount } from 'next-auth/adapters';
 import GoogleProvider from 'next-auth/providers/google';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import { MongoDBAdapter } from '@next-auth/mongodb-adapter';
 import { MongoClient } from 'mongodb';
 import User from '@/lib/models/User';
 import connectDB from '@/lib/mongodb';
+import { saveGoogleTokens } from '@/lib/googleTokens';
 
 const client = new MongoClient(process.env.MONGODB_URI!);
 const clientPromise = client.connect();
 
+// OAuth tokens are kept encrypted on the user by lib/googleTokens, so the
+// adapter's account records don't get plain-text copies
+const baseAdapter = MongoDBAdapter(clientPromise);
+const adapter: Adapter = {
+  ...baseAdapter,
+  linkAccount: (account: AdapterAccount) => baseAdapter.linkAccount!({
+    ...account,
+    access_token: undefined,
+    refresh_token: undefined,
+    id_token: undefined,
+  }),
+};
+
 export const authOptions: NextAuthOptions = {
-  adapter: MongoDBAdapter(clientPromise),
+  adapter,
   providers: [
     GoogleProvider({
       clientId: process.env.GOOGLE_CLIENT_ID!,
@@ -81,21 +96,16 @@ export const authOptions: NextAuthOptions = {
           scope: account.scope
         });
         
-        token.googleAccessToken = account.access_token;
-        token.googleRefreshToken = account.refresh_token;
-        token.googleExpiryDate = account.expires_at;
-        
-        // Store tokens in User model for calendar sync
+        // Store tokens encrypted in the User model; they never go into the JWT
         try {
           await connectDB();
-          const updateResult = await User.findByIdAndUpdate(user.id, {
-            googleAuthTokens: {
-              accessToken: account.access_token,
-              refreshToken: account.refresh_token,
-              expiryDate: account.expires_at,
-            },
+          await saveGoogleTokens(user.id, {
+            access_token: account.access_token,
+            refresh_token: account.refresh_token,
+            expiry_date: account.expires_at ? account.expires_at * 1000 : null,
+            scope: account.scope,
           });
-          console.log('Tokens stored in User model:', updateResult ? 'Success' : 'Failed');
+          console.log('Tokens stored in User model');
         } catch (error) {
           console.error('Error storing Google tokens:', error);
         }
@@ -106,9 +116,6 @@ export const authOptions: NextAuthOptions = {
     async session({ session, token }) {
       if (token) {
         session.user.id = token.id as string;
-        session.googleAccessToken = token.googleAccessToken as string;
-        session.googleRefreshToken = token.googleRefreshToken as string;
-        session.googleExpiryDate = token.googleExpiryDate as number;
       }
       return session;
     },
@@ -133,9 +140,6 @@ declare module 'next-auth' {
       name: string;
       email: string;
     };
-    googleAccessToken?: string;
-    googleRefreshToken?: string;
-    googleExpiryDate?: number;
   }
 }
 
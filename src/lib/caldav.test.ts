@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createCalDavProvider } from '@/lib/caldav';
+import { CalDavStandIn, startCalDavStandIn } from '@/test/caldavStandIn';
+import { ics, vevent } from '@/test/ics';
+
+const RANGE_START = new Date('2024-01-08T00:00:00Z');
+const RANGE_END = new Date('2024-01-15T00:00:00Z');
+
+describe('CalDAV provider', () => {
+  let server: CalDavStandIn;
+
+  beforeEach(async () => {
+    // The stand-in listens on loopback
+    process.env.CALDAV_ALLOW_PRIVATE_HOSTS = 'true';
+    server = await startCalDavStandIn({
+      username: 'alex',
+      password: 'secret',
+      calendars: [
+        {
+          id: 'work',
+          name: 'Work & Meetings',
+          color: '#3366CCFF',
+          ctag: 'ctag-1',
+          objects: {
+            'standup.ics': ics([vevent('standup', [
+              'DTSTART:20240108T090000Z',
+              'DTEND:20240108T091500Z',
+              'SUMMARY:Standup',
+              'DESCRIPTION:Daily sync',
+            ])]),
+            'offsite.ics': ics([vevent('offsite', [
+              'DTSTART;VALUE=DATE:20240110',
+              'DTEND;VALUE=DATE:20240111',
+              'SUMMARY:Offsite',
+            ])]),
+            'cancelled.ics': ics([vevent('cancelled', [
+              'DTSTART:20240109T140000Z',
+              'DTEND:20240109T150000Z',
+              'SUMMARY:Planning',
+              'STATUS:CANCELLED',
+            ])]),
+            'later.ics': ics([vevent('later', [
+              'DTSTART:20240301T090000Z',
+              'DTEND:20240301T100000Z',
+              'SUMMARY:Out of range',
+            ])]),
+            'broken.ics': 'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nthis is not iCalendar',
+          },
+        },
+        { id: 'personal', name: 'Personal', ctag: 'ctag-9', objects: {} },
+        { id: 'tasks', name: 'Tasks', components: ['VTODO'], ctag: 'ctag-3', objects: {} },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    delete process.env.CALDAV_ALLOW_PRIVATE_HOSTS;
+    await server.close();
+  });
+
+  const provider = (password = 'secret') =>
+    createCalDavProvider({ serverUrl: server.url, username: 'alex', password });
+
+  it('discovers event calendars through the principal and calendar home', async () => {
+    const calendars = await provider().listCalendars();
+
+    expect(calendars).toEqual([
+      { calendarId: server.calendarUrl('work'), name: 'Work & Meetings', color: '#3366CC', primary: false },
+      { calendarId: server.calendarUrl('personal'), name: 'Personal', color: null, primary: false },
+    ]);
+    expect(server.requests.map((request) => `${request.method} ${request.path}`)).toEqual([
+      'PROPFIND /',
+      'PROPFIND /principals/alex/',
+      'PROPFIND /calendars/alex/',
+    ]);
+  });
+
+  it('lists the events in the range with the collection CTag as sync token', async () => {
+    const { events, nextSyncToken, skipped } = await provider().listEvents(server.calendarUrl('work'), RANGE_START, RANGE_END, 'UTC');
+
+    expect(nextSyncToken).toBe('ctag-1');
+
+    const report = server.requests.filter((request) => request.method === 'REPORT')[0];
+    expect(report.depth).toBe('1');
+    expect(report.body).toContain('<c:time-range start="20240108T000000Z" end="20240115T000000Z"/>');
+
+    const byId: Record<string, (typeof events)[number]> = {};
+    events.forEach((event) => {
+      byId[event.id] = event;
+    });
+
+    // The broken object is skipped and the out-of-range one filtered
+    expect(Object.keys(byId).sort()).toEqual(['cancelled', 'offsite', 'standup']);
+    expect(skipped).toBe(1);
+    expect(byId.standup.fields).toMatchObject({ title: 'Standup', description: 'Daily sync' });
+    expect(new Date(byId.standup.fields!.startTime).toISOString()).toBe('2024-01-08T09:00:00.000Z');
+    expect(byId.offsite.allDay).toBe(true);
+    expect(byId.cancelled.cancelled).toBe(true);
+  });
+
+  it('skips the download while the CTag is unchanged', async () => {
+    const calendarId = server.calendarUrl('work');
+
+    expect(await provider().listChanges(calendarId, 'ctag-1', 'UTC')).toEqual({ events: [], nextSyncToken: 'ctag-1' });
+    expect(server.requests.some((request) => request.method === 'REPORT')).toBe(false);
+
+    server.calendars[0].ctag = 'ctag-2';
+    expect(await provider().listChanges(calendarId, 'ctag-1', 'UTC')).toBeNull();
+  });
+
+  it('refuses URLs outside the configured server', async () => {
+    await expect(provider().listEvents('https://example.com/calendars/alex/work/', RANGE_START, RANGE_END, 'UTC'))
+      .rejects.toThrow('outside the server');
+    expect(server.requests).toEqual([]);
+  });
+
+  it('refuses servers on private networks unless allowed', async () => {
+    delete process.env.CALDAV_ALLOW_PRIVATE_HOSTS;
+
+    await expect(provider().listCalendars()).rejects.toThrow('private network');
+    expect(server.requests).toEqual([]);
+  });
+
+  it('reports rejected credentials', async () => {
+    await expect(provider('wrong').listCalendars()).rejects.toThrow('failed with status 401');
+  });
+});
@@ -0,0 +1,270 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { XMLParser } from 'fast-xml-parser';
+import User from '@/lib/models/User';
+import { decryptSecret } from '@/lib/encryption';
+import { encryptPlainTextSecrets } from '@/lib/legacySecrets';
+import { CalendarEvent, CalendarProvider, ProviderCalendar } from '@/lib/calendarSync';
+import { parseIcsEvents } from '@/lib/ics';
+
+// CalDAV (RFC 4791) as a sync provider, for Nextcloud, Fastmail, Radicale and
+// other self-hosted servers. Calendars are discovered from the configured URL
+// via the current user principal and its calendar home; events are fetched
+// with a time-range calendar-query and parsed like an .ics import. CalDAV has
+// no portable change feed, so the collection's CTag (or sync-token) serves as
+// the sync token: an unchanged collection skips the download, anything else
+// falls back to a full sync of the window.
+//
+// The server URL comes from the user, so every request stays on its origin
+// and, unless CALDAV_ALLOW_PRIVATE_HOSTS is set, off loopback and private
+// networks: hrefs and redirects elsewhere are refused, not followed.
+
+export interface CalDavAccount {
+  serverUrl: string;
+  username: string;
+  password: string;
+}
+
+interface DavResource {
+  href: string; // Absolute URL
+  props: Record<string, unknown>;
+}
+
+// Servers that don't answer within this are treated as unreachable
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Servers move collections around, e.g. from /.well-known/caldav
+const MAX_REDIRECTS = 5;
+
+const PRIVATE_NETWORKS = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([address, prefix]) => PRIVATE_NETWORKS.addSubnet(address as string, prefix as number, 'ipv4'));
+[['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]]
+  .forEach(([address, prefix]) => PRIVATE_NETWORKS.addSubnet(address as string, prefix as number, 'ipv6'));
+
+const NAMESPACES = 'xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav" ' +
+  'xmlns:cs="http://calendarserver.org/ns/" xmlns:ic="http://apple.com/ns/ical/"';
+
+const parser = new XMLParser({
+  removeNSPrefix: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false,
+  isArray: (name) => ['response', 'propstat', 'href', 'comp'].indexOf(name) !== -1,
+});
+
+// Text content of a parsed element, with or without attributes
+function textOf(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && typeof (value as Record<string, unknown>)['#text'] === 'string') {
+    return (value as Record<string, string>)['#text'];
+  }
+  return null;
+}
+
+function hrefOf(value: unknown, base: string): string | null {
+  const hrefs = value && typeof value === 'object' ? (value as { href?: unknown[] }).href : null;
+  const href = hrefs && hrefs.length > 0 ? textOf(hrefs[0]) : null;
+  return href ? new URL(href.trim(), base).toString() : null;
+}
+
+function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return PRIVATE_NETWORKS.check(mapped[1], 'ipv4');
+  return PRIVATE_NETWORKS.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+// Throws unless `url` is on the account's server and that server is public
+async function checkRequestUrl(account: CalDavAccount, url: string): Promise<void> {
+  const target = new URL(url);
+  const server = new URL(account.serverUrl);
+
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new Error(`CalDAV URL ${url} is not http(s)`);
+  }
+  if (target.origin !== server.origin) {
+    throw new Error(`CalDAV URL ${url} is outside the server ${server.origin}`);
+  }
+  if (process.env.CALDAV_ALLOW_PRIVATE_HOSTS === 'true') return;
+
+  const hostname = target.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map((entry) => entry.address);
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`CalDAV server ${target.hostname} is on a private network`);
+  }
+}
+
+function toCalDavTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+async function davRequest(
+  account: CalDavAccount,
+  url: string,
+  method: 'PROPFIND' | 'REPORT',
+  depth: '0' | '1',
+  body: string
+): Promise<DavResource[]> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    let current = url;
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      await checkRequestUrl(account, current);
+      response = await fetch(current, {
+        method,
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${account.username}:${account.password}`).toString('base64')}`,
+          'Content-Type': 'application/xml; charset=utf-8',
+          Depth: depth,
+        },
+        body: `<?xml version="1.0" encoding="utf-8"?>${body}`,
+        signal: controller.signal,
+        redirect: 'manual',
+      });
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || !location || redirects === MAX_REDIRECTS) break;
+      current = new URL(location, current).toString();
+    }
+
+    if (response.status !== 207) {
+      throw new Error(`CalDAV ${method} ${url} failed with status ${response.status}`);
+    }
+
+    const xml = parser.parse(await response.text());
+    const responses: Record<string, unknown>[] = (xml.multistatus && xml.multistatus.response) || [];
+
+    const origin = new URL(current).origin;
+    return responses.map((item) => {
+      const props: Record<string, unknown> = {};
+      ((item.propstat as Record<string, unknown>[]) || []).forEach((propstat) => {
+        // Unknown properties come back in a separate 404 propstat
+        if (!/\s2\d\d\s/.test(` ${textOf(propstat.status) || ''} `)) return;
+        const prop = propstat.prop as Record<string, unknown> | string;
+        if (prop && typeof prop === 'object') {
+          Object.keys(prop).forEach((name) => {
+            props[name] = prop[name];
+          });
+        }
+      });
+
+      return { href: new URL((textOf((item.href as unknown[])[0]) || '').trim(), current).toString(), props };
+    }).filter((resource) => new URL(resource.href).origin === origin); // A server only describes its own resources
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+function propfind(account: CalDavAccount, url: string, depth: '0' | '1', props: string): Promise<DavResource[]> {
+  return davRequest(account, url, 'PROPFIND', depth, `<d:propfind ${NAMESPACES}><d:prop>${props}</d:prop></d:propfind>`);
+}
+
+// Follows the principal to the collection holding the user's calendars.
+// Servers without discovery support are expected to be given the home URL.
+async function findCalendarHome(account: CalDavAccount): Promise<string> {
+  const [root] = await propfind(account, account.serverUrl, '0', '<d:current-user-principal/>');
+  const principal = (root && hrefOf(root.props['current-user-principal'], root.href)) || account.serverUrl;
+
+  const [principalResource] = await propfind(account, principal, '0', '<c:calendar-home-set/>');
+  return (principalResource && hrefOf(principalResource.props['calendar-home-set'], principalResource.href)) || principal;
+}
+
+function isEventCalendar(resource: DavResource): boolean {
+  const types = resource.props.resourcetype;
+  if (!types || typeof types !== 'object' || !('calendar' in types)) return false;
+
+  // Task lists and journals are calendars too, but hold no events
+  const componentSet = resource.props['supported-calendar-component-set'];
+  const components = componentSet && typeof componentSet === 'object'
+    ? ((componentSet as { comp?: Record<string, string>[] }).comp || [])
+    : [];
+  return components.length === 0 || components.some((comp) => (comp['@_name'] || '').toUpperCase() === 'VEVENT');
+}
+
+// The collection's change marker, or null when the server has none
+async function getCollectionState(account: CalDavAccount, calendarId: string): Promise<string | null> {
+  const [resource] = await propfind(account, calendarId, '0', '<cs:getctag/><d:sync-token/>');
+  if (!resource) return null;
+  return textOf(resource.props.getctag) || textOf(resource.props['sync-token']);
+}
+
+export function createCalDavProvider(account: CalDavAccount): CalendarProvider {
+  return {
+    name: 'caldav',
+
+    async listCalendars() {
+      const home = await findCalendarHome(account);
+      const resources = await propfind(
+        account,
+        home,
+        '1',
+        '<d:resourcetype/><d:displayname/><ic:calendar-color/><c:supported-calendar-component-set/>'
+      );
+
+      return resources.filter(isEventCalendar).map((resource): ProviderCalendar => {
+        const color = textOf(resource.props['calendar-color']);
+        return {
+          calendarId: resource.href,
+          name: textOf(resource.props.displayname) || decodeURIComponent(resource.href.replace(/\/$/, '').split('/').pop() || ''),
+          // Some servers append an alpha channel (#RRGGBBAA)
+          color: color ? color.slice(0, 7) : null,
+          primary: false,
+        };
+      });
+    },
+
+    async listEvents(calendarId, timeMin, timeMax, timeZone) {
+      // Read before listing so changes made meanwhile are picked up next time
+      const nextSyncToken = await getCollectionState(account, calendarId);
+      const resources = await davRequest(account, calendarId, 'REPORT', '1',
+        `<c:calendar-query ${NAMESPACES}>` +
+          '<d:prop><d:getetag/><c:calendar-data/></d:prop>' +
+          '<c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">' +
+            `<c:time-range start="${toCalDavTime(timeMin)}" end="${toCalDavTime(timeMax)}"/>` +
+          '</c:comp-filter></c:comp-filter></c:filter>' +
+        '</c:calendar-query>'
+      );
+
+      let events: CalendarEvent[] = [];
+      let skipped = 0;
+      resources.forEach((resource) => {
+        const data = textOf(resource.props['calendar-data']);
+        if (!data) return;
+
+        try {
+          events = events.concat(parseIcsEvents(data, timeMin, timeMax, timeZone));
+        } catch {
+          // One malformed event shouldn't stop the rest of the calendar from syncing
+          skipped++;
+        }
+      });
+
+      return { events, nextSyncToken, skipped };
+    },
+
+    async listChanges(calendarId, syncToken) {
+      const state = await getCollectionState(account, calendarId);
+      return state === syncToken ? { events: [], nextSyncToken: syncToken } : null;
+    },
+  };
+}
+
+// A provider for the user's connected CalDAV server, or null when there is none
+export async function getCalDavProvider(userId: string): Promise<CalendarProvider | null> {
+  const user = await User.findById(userId).select('+caldavAccount.password');
+  const account = user?.caldavAccount;
+  if (!account?.serverUrl) return null;
+
+  await encryptPlainTextSecrets(user);
+  return createCalDavProvider({
+    serverUrl: account.serverUrl,
+    username: account.username,
+    password: decryptSecret(account.password),
+  });
+}
@@ -0,0 +1,48 @@
+import { CalendarProvider } from '@/lib/calendarSync';
+import { getCalDavProvider } from '@/lib/caldav';
+import { createGoogleProvider } from '@/lib/google';
+import { getGoogleAuthClient } from '@/lib/googleTokens';
+
+export const GOOGLE_REVOKED_MESSAGE =
+  'Google Calendar access was revoked. Please sign in with Google again or disconnect Google Calendar.';
+
+export const NO_CALENDAR_MESSAGE = 'No calendar connected. Please sign in with Google or connect a CalDAV server first.';
+
+export type CalendarProviders =
+  | { status: 'connected'; providers: CalendarProvider[] }
+  | { status: 'revoked' } // Google access was revoked; see GOOGLE_REVOKED_MESSAGE
+  | { status: 'not_connected' };
+
+// The calendar providers the user has connected, Google first. Google is
+// optional once a CalDAV server is connected, but a revoked grant is always
+// reported so the user knows to reconnect.
+export async function getCalendarProviders(userId: string): Promise<CalendarProviders> {
+  const providers: CalendarProvider[] = [];
+  const caldav = await getCalDavProvider(userId);
+  const connection = await getGoogleAuthClient(userId);
+
+  if (connection.status === 'revoked') return { status: 'revoked' };
+
+  if (connection.status === 'connected') {
+    providers.push(createGoogleProvider(connection.auth));
+  } else if (!caldav) {
+    return { status: 'not_connected' };
+  }
+
+  if (caldav) providers.push(caldav);
+  return { status: 'connected', providers };
+}
+
+// The same for background syncs, which report problems by throwing
+export async function getStoredCalendarProviders(userId: string): Promise<CalendarProvider[]> {
+  const providers: CalendarProvider[] = [];
+  const connection = await getGoogleAuthClient(userId);
+
+  if (connection.status === 'revoked') throw new Error(GOOGLE_REVOKED_MESSAGE);
+  if (connection.status === 'connected') providers.push(createGoogleProvider(connection.auth));
+
+  const caldav = await getCalDavProvider(userId);
+  if (caldav) providers.push(caldav);
+
+  return providers;
+}
@@ -0,0 +1,170 @@
+import connectDB from '@/lib/mongodb';
+import User from '@/lib/models/User';
+import { CalendarSyncResult, syncCalendars } from '@/lib/calendarSync';
+import { getStoredCalendarProviders, GOOGLE_REVOKED_MESSAGE } from '@/lib/calendarProviders';
+import { isRevokedGrantError, markGoogleGrantRevoked } from '@/lib/googleTokens';
+import { getUserTimeZone } from '@/lib/users';
+import { addDaysToKey, todayInTimeZone } from '@/utils/timezone';
+
+// Background calendar sync. Each run picks the connected users whose last
+// sync is older than the interval and syncs their last 7 days from the
+// credentials stored on the user. Runs are triggered by the in-process timer
+// started in instrumentation.ts on long-running servers, or by a cron service
+// calling /api/cron/calendar-sync on serverless hosts.
+
+export type SyncTrigger = 'manual' | 'scheduled';
+
+export interface ScheduledSyncSummary {
+  users: number;
+  succeeded: number;
+  failed: number;
+  skipped: number; // Already being synced elsewhere
+}
+
+// How often each user is synced
+export const SYNC_INTERVAL_MINUTES = Number(process.env.CALENDAR_SYNC_INTERVAL_MINUTES) || 60;
+
+// Users per run, so a run fits in a serverless function's time limit
+const BATCH_SIZE = 25;
+
+// A lock older than this belongs to a sync that crashed
+const STALE_LOCK_MS = 15 * 60 * 1000;
+
+// How often the in-process timer looks for due users
+const SCHEDULER_TICK_MS = 5 * 60 * 1000;
+
+// Takes the user's sync lock so manual and scheduled syncs (possibly on
+// different instances) never write the same logs at once
+export async function claimCalendarSync(userId: string, now: Date = new Date()): Promise<boolean> {
+  const claimed = await User.findOneAndUpdate(
+    {
+      _id: userId,
+      $or: [
+        { 'calendarSyncStatus.runningSince': null },
+        { 'calendarSyncStatus.runningSince': { $lt: new Date(now.getTime() - STALE_LOCK_MS) } },
+      ],
+    },
+    { $set: { 'calendarSyncStatus.runningSince': now } },
+    { new: true }
+  ).select('_id');
+
+  return !!claimed;
+}
+
+// Stores the outcome and releases the lock
+export async function recordCalendarSync(
+  userId: string,
+  trigger: SyncTrigger,
+  outcome: { result: CalendarSyncResult } | { error: unknown }
+): Promise<void> {
+  const now = new Date();
+  const $set: Record<string, unknown> = {
+    'calendarSyncStatus.trigger': trigger,
+    'calendarSyncStatus.lastRunAt': now,
+    'calendarSyncStatus.runningSince': null,
+  };
+
+  if ('result' in outcome) {
+    $set['calendarSyncStatus.status'] = 'success';
+    $set['calendarSyncStatus.lastSuccessAt'] = now;
+    $set['calendarSyncStatus.error'] = null;
+    $set['calendarSyncStatus.entriesAdded'] = outcome.result.added;
+    $set['calendarSyncStatus.entriesUpdated'] = outcome.result.updated;
+    $set['calendarSyncStatus.entriesRemoved'] = outcome.result.removed;
+  } else {
+    $set['calendarSyncStatus.status'] = 'error';
+    $set['calendarSyncStatus.error'] = outcome.error instanceof Error ? outcome.error.message : 'Sync failed';
+  }
+
+  await User.updateOne({ _id: userId }, { $set });
+}
+
+// Syncs one user's last 7 days from their stored credentials. The caller must hold the lock.
+async function syncStoredCalendars(userId: string): Promise<CalendarSyncResult> {
+  const providers = await getStoredCalendarProviders(userId);
+  if (providers.length === 0) {
+    throw new Error('No calendar connected');
+  }
+
+  const timeZone = await getUserTimeZone(userId);
+  const today = todayInTimeZone(timeZone);
+
+  return syncCalendars(providers, userId, timeZone, { from: addDaysToKey(today, -6), to: today });
+}
+
+export async function runScheduledCalendarSync(now: Date = new Date()): Promise<ScheduledSyncSummary> {
+  const cutoff = new Date(now.getTime() - SYNC_INTERVAL_MINUTES * 60 * 1000);
+
+  const users = await User.find({
+    $and: [
+      {
+        $or: [
+          { 'googleAuthTokens.refreshToken': { $nin: [null, ''] } },
+          { 'caldavAccount.serverUrl': { $nin: [null, ''] } },
+        ],
+      },
+      {
+        $or: [
+          { 'calendarSyncStatus.lastRunAt': null },
+          { 'calendarSyncStatus.lastRunAt': { $lte: cutoff } },
+        ],
+      },
+    ],
+  })
+    .sort({ 'calendarSyncStatus.lastRunAt': 1 })
+    .limit(BATCH_SIZE)
+    .select('_id');
+
+  const summary: ScheduledSyncSummary = { users: users.length, succeeded: 0, failed: 0, skipped: 0 };
+
+  // One user at a time keeps the load on the database and providers low
+  for (const user of users) {
+    const userId = user._id.toString();
+
+    if (!(await claimCalendarSync(userId, now))) {
+      summary.skipped++;
+      continue;
+    }
+
+    try {
+      const result = await syncStoredCalendars(userId);
+      await recordCalendarSync(userId, 'scheduled', { result });
+      summary.succeeded++;
+    } catch (error) {
+      console.error(`Error in scheduled calendar sync for user ${userId}:`, error);
+
+      if (isRevokedGrantError(error)) {
+        await markGoogleGrantRevoked(userId);
+        await recordCalendarSync(userId, 'scheduled', { error: new Error(GOOGLE_REVOKED_MESSAGE) });
+      } else {
+        await recordCalendarSync(userId, 'scheduled', { error });
+      }
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+let schedulerTimer: ReturnType<typeof setInterval> | null = null;
+let isTickRunning = false;
+
+// Runs the scheduled sync on a timer inside this server process
+export function startCalendarSyncScheduler(): void {
+  if (schedulerTimer) return;
+
+  schedulerTimer = setInterval(async () => {
+    // A slow run shouldn't overlap the next tick
+    if (isTickRunning) return;
+    isTickRunning = true;
+
+    try {
+      await connectDB();
+      await runScheduledCalendarSync();
+    } catch (error) {
+      console.error('Error running scheduled calendar sync:', error);
+    } finally {
+      isTickRunning = false;
+    }
+  }, SCHEDULER_TICK_MS);
+}
@@ -0,0 +1,166 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLogStore, LogStore } from '@/test/logStore';
+
+const state = vi.hoisted(() => ({ store: null as unknown as LogStore, locked: [] as string[] }));
+
+vi.mock('@/lib/models/Log', () => ({
+  default: { find: async () => state.store.find() },
+}));
+
+vi.mock('@/lib/concurrency', () => ({
+  replaceLogEntries: (...args: Parameters<LogStore['replaceLogEntries']>) => state.store.replaceLogEntries(...args),
+}));
+
+vi.mock('@/lib/timesheetApproval', () => ({
+  findLockedDates: async (userId: string, dates: string[]) => dates.filter((date) => state.locked.indexOf(date) !== -1),
+}));
+
+import { applyCalendarEvents, CalendarEvent, SyncTarget } from '@/lib/calendarSync';
+
+const target = {
+  userId: 'user-1',
+  calendarId: 'primary',
+  rules: { skipAllDay: false, skipDeclined: false, tags: [] },
+} as unknown as SyncTarget;
+
+const synced = {
+  startTime: '2024-01-08T09:00:00.000Z',
+  endTime: '2024-01-08T10:00:00.000Z',
+  title: 'Design review',
+  description: '',
+};
+
+function movedEvent(): CalendarEvent {
+  return {
+    id: 'event-1',
+    cancelled: false,
+    allDay: false,
+    declined: false,
+    fields: { ...synced, startTime: '2024-01-09T09:00:00.000Z', endTime: '2024-01-09T10:00:00.000Z' },
+  };
+}
+
+describe('applyCalendarEvents', () => {
+  beforeEach(() => {
+    state.locked = [];
+    state.store = createLogStore([
+      {
+        date: '2024-01-08',
+        version: 3,
+        entries: [{
+          _id: 'entry-1',
+          type: 'calendar',
+          sourceId: 'event-1',
+          calendarId: 'primary',
+          ...synced,
+          title: 'Client review', // Renamed by the user
+          locallyModified: true,
+          original: synced,
+          projectId: 'project-1',
+          tags: ['client'],
+          billable: true,
+          hourlyRate: 120,
+        }],
+      },
+      {
+        date: '2024-01-09',
+        version: 1,
+        entries: [{ _id: 'entry-2', type: 'manual', startTime: '2024-01-09T13:00:00.000Z', endTime: '2024-01-09T14:00:00.000Z', title: 'Focus' }],
+      },
+    ]);
+  });
+
+  it('keeps a moved entry when its new day changes during the sync', async () => {
+    let interrupted = false;
+    state.store.beforeWrite = (date) => {
+      if (date !== '2024-01-09' || interrupted) return;
+      // Another session edits the destination day between the read and the write
+      interrupted = true;
+      const log = state.store.logs[date];
+      log.entries.push({ _id: 'entry-3', type: 'manual', startTime: '2024-01-09T15:00:00.000Z', endTime: '2024-01-09T16:00:00.000Z', title: 'Call' });
+      log.version++;
+    };
+
+    const result = await applyCalendarEvents(target, 'UTC', [movedEvent()], null);
+
+    expect(result).toEqual({ added: 0, updated: 1, removed: 0, dates: ['2024-01-08', '2024-01-09'] });
+    expect(state.store.logs['2024-01-08'].entries).toEqual([]);
+
+    const entries = state.store.logs['2024-01-09'].entries;
+    expect(entries.map((entry) => entry._id)).toEqual(['entry-1', 'entry-2', 'entry-3']);
+    expect(entries[0]).toMatchObject({
+      sourceId: 'event-1',
+      startTime: '2024-01-09T09:00:00.000Z',
+      title: 'Client review',
+      locallyModified: true,
+      projectId: 'project-1',
+      tags: ['client'],
+      billable: true,
+      hourlyRate: 120,
+    });
+  });
+
+  it('moves an entry in one attempt when nothing else writes', async () => {
+    const result = await applyCalendarEvents(target, 'UTC', [movedEvent()], null);
+
+    expect(result.updated).toBe(1);
+    expect(state.store.writes.sort()).toEqual(['2024-01-08', '2024-01-09']);
+    expect(state.store.logs['2024-01-09'].entries.map((entry) => entry._id)).toEqual(['entry-1', 'entry-2']);
+  });
+
+  it('leaves days in a locked week alone', async () => {
+    state.locked = ['2024-01-09'];
+    const added: CalendarEvent = {
+      id: 'event-2',
+      cancelled: false,
+      allDay: false,
+      declined: false,
+      fields: { ...synced, startTime: '2024-01-09T11:00:00.000Z', endTime: '2024-01-09T12:00:00.000Z', title: 'Planning' },
+    };
+
+    const result = await applyCalendarEvents(target, 'UTC', [movedEvent(), added], null);
+
+    expect(result).toEqual({ added: 0, updated: 0, removed: 0, dates: [] });
+    expect(state.store.writes).toEqual([]);
+    expect(state.store.logs['2024-01-08'].entries.map((entry) => entry._id)).toEqual(['entry-1']);
+  });
+
+  it('keeps entries on a locked day when their event is cancelled', async () => {
+    state.locked = ['2024-01-08'];
+    const cancelled: CalendarEvent = { id: 'event-1', cancelled: true, allDay: false, declined: false, fields: null };
+
+    const result = await applyCalendarEvents(target, 'UTC', [cancelled], null);
+
+    expect(result.removed).toBe(0);
+    expect(state.store.logs['2024-01-08'].entries).toHaveLength(1);
+  });
+
+  it('ignores changes outside the synced window of an incremental sync', async () => {
+    const syncedWindow = { from: '2024-01-08', to: '2024-01-14' };
+    const future: CalendarEvent = {
+      id: 'event-2',
+      cancelled: false,
+      allDay: false,
+      declined: false,
+      fields: { ...synced, startTime: '2024-03-01T09:00:00.000Z', endTime: '2024-03-01T10:00:00.000Z', title: 'Offsite' },
+    };
+    const inside: CalendarEvent = { ...future, id: 'event-3', fields: { ...synced, startTime: '2024-01-10T09:00:00.000Z', endTime: '2024-01-10T10:00:00.000Z', title: 'Sync' } };
+
+    const result = await applyCalendarEvents(target, 'UTC', [future, inside], null, syncedWindow);
+
+    expect(result).toEqual({ added: 1, updated: 0, removed: 0, dates: ['2024-01-10'] });
+    expect(state.store.logs['2024-03-01']).toBeUndefined();
+  });
+
+  it('removes an entry whose event moved out of the synced window', async () => {
+    const untouched = state.store.logs['2024-01-08'].entries[0];
+    untouched.title = synced.title;
+    const moved: CalendarEvent = { ...movedEvent(), fields: { ...synced, startTime: '2024-03-01T09:00:00.000Z', endTime: '2024-03-01T10:00:00.000Z' } };
+
+    const result = await applyCalendarEvents(target, 'UTC', [moved], null, { from: '2024-01-08', to: '2024-01-14' });
+
+    expect(result.removed).toBe(1);
+    expect(state.store.logs['2024-01-08'].entries).toEqual([]);
+    expect(state.store.logs['2024-03-01']).toBeUndefined();
+  });
+});
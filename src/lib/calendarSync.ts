@@ -0,0 +1,488 @@
+import CalendarSource, { ICalendarRules, ICalendarSource } from '@/lib/models/CalendarSource';
+import Log, { ILog, ILogEntry, ISyncedSnapshot } from '@/lib/models/Log';
+import { ensureTags } from '@/lib/tags';
+import { replaceLogEntries } from '@/lib/concurrency';
+import { findLockedDates } from '@/lib/timesheetApproval';
+import { MAX_RANGE_DAYS } from '@/lib/validation';
+import { matchesTitlePattern } from '@/utils/patterns';
+import { getDayBounds, parseEntryTime, toDateKey } from '@/utils/timezone';
+
+// Calendar sync, independent of where the events come from. The first sync of
+// a calendar for a range lists every event in it and stores the provider's
+// sync token on its CalendarSource; later syncs inside that window only fetch
+// what changed since. Entries are matched to events by `sourceId`, and fields
+// the user edited are kept while untouched ones follow the calendar.
+
+export type CalendarSyncMode = 'full' | 'incremental';
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface CalendarSyncResult {
+  mode: CalendarSyncMode;
+  added: number;
+  updated: number;
+  removed: number;
+  skipped: number; // Events the provider couldn't read
+  dates: string[]; // Days whose log changed
+}
+
+// The parts of a log entry that come from the calendar event
+type EventFields = ISyncedSnapshot;
+
+export const SYNCED_FIELDS: (keyof ISyncedSnapshot)[] = ['startTime', 'endTime', 'title', 'description'];
+
+// Times are compared as instants, since the editor may re-serialize them with another offset
+function isSameValue(field: keyof ISyncedSnapshot, a: string, b: string, timeZone: string): boolean {
+  if (field === 'startTime' || field === 'endTime') {
+    return parseEntryTime(a, timeZone).getTime() === parseEntryTime(b, timeZone).getTime();
+  }
+  return (a || '') === (b || '');
+}
+
+// Fields that differ from the last synced snapshot are user overrides. Entries
+// synced before snapshots existed count as untouched unless they were
+// converted to manual entries by an edit.
+function isOverridden(entry: ILogEntry, field: keyof ISyncedSnapshot, timeZone: string): boolean {
+  if (!entry.original) return entry.type !== 'calendar';
+  return !isSameValue(field, entry[field], entry.original[field], timeZone);
+}
+
+export function isLocallyModified(entry: ILogEntry, timeZone: string): boolean {
+  return SYNCED_FIELDS.some((field) => isOverridden(entry, field, timeZone));
+}
+
+// Upstream values for untouched fields, the user's values for overridden ones
+function mergeEventFields(entry: ILogEntry, upstream: EventFields, timeZone: string): EventFields {
+  return SYNCED_FIELDS.reduce((merged, field) => {
+    merged[field] = isOverridden(entry, field, timeZone) ? entry[field] : upstream[field];
+    return merged;
+  }, {} as EventFields);
+}
+
+// Entries synced before calendar selection existed all came from the primary calendar
+export const DEFAULT_CALENDAR_ID = 'primary';
+
+function entryCalendarId(entry: ILogEntry): string {
+  return entry.calendarId || DEFAULT_CALENDAR_ID;
+}
+
+// A calendar event in provider-neutral form
+export interface CalendarEvent {
+  id: string; // Becomes the entry's sourceId
+  cancelled: boolean;
+  allDay: boolean;
+  declined: boolean; // The user declined the invitation
+  fields: EventFields | null; // null when the event has no usable times
+}
+
+// Where synced entries go and what new ones start out with
+export interface SyncTarget {
+  userId: ICalendarSource['userId'] | string;
+  calendarId: string;
+  rules: ICalendarRules;
+}
+
+// Skipped events are handled like cancelled ones, so tightening a rule cleans up earlier imports
+function isSkipped(event: CalendarEvent, rules: ICalendarRules): boolean {
+  if (rules.skipAllDay && event.allDay) return true;
+  if (rules.skipDeclined && event.declined) return true;
+  return !!rules.skipTitlePattern && !!event.fields && matchesTitlePattern(rules.skipTitlePattern, event.fields.title);
+}
+
+export type CalendarProviderName = ICalendarSource['provider'];
+
+// A calendar as listed by its provider
+export interface ProviderCalendar {
+  calendarId: string;
+  name: string;
+  color: string | null;
+  primary: boolean;
+}
+
+export interface CalendarEventBatch {
+  events: CalendarEvent[];
+  nextSyncToken: string | null; // Passed to listChanges on the next sync; null when unsupported
+  skipped?: number; // Events left out because their data couldn't be parsed
+}
+
+// A source of calendar events, e.g. a Google account or a CalDAV server
+export interface CalendarProvider {
+  name: CalendarProviderName;
+  listCalendars(): Promise<ProviderCalendar[]>;
+  // Every event overlapping [timeMin, timeMax), recurring ones expanded
+  listEvents(calendarId: string, timeMin: Date, timeMax: Date, timeZone: string): Promise<CalendarEventBatch>;
+  // Events changed since the batch that returned `syncToken`, or null once the token has expired
+  listChanges(calendarId: string, syncToken: string, timeZone: string): Promise<CalendarEventBatch | null>;
+}
+
+// How often a sync re-reads and re-merges days that changed while it ran
+const MAX_WRITE_ATTEMPTS = 3;
+
+type SyncCounts = Omit<CalendarSyncResult, 'mode' | 'skipped' | 'dates'>;
+
+// An entry the merge moved to another day, as it was before the move
+interface MovedEntry {
+  sourceId: string;
+  to: string;
+  entry: ILogEntry;
+}
+
+// A day's entries after merging a batch, with the log version they were
+// read at and what the batch changed on that day
+interface MergedDay {
+  version: number;
+  entries: ILogEntry[];
+  changed: boolean;
+  counts: SyncCounts;
+  movedOut: MovedEntry[];
+}
+
+// Merges a batch into plain copies of the loaded logs, without writing anything.
+// `carried` holds entries an earlier attempt already took off their old day
+// without landing them on the new one; they are merged as if still linked.
+// Events touching a `locked` day or an invoiced entry are left as they are.
+function mergeCalendarEvents(
+  logs: ILog[],
+  target: SyncTarget,
+  timeZone: string,
+  upserts: Record<string, EventFields>,
+  cancelled: string[],
+  range: DateRange | null,
+  carried: Record<string, ILogEntry>,
+  locked: string[]
+): Record<string, MergedDay> {
+  const { rules, calendarId } = target;
+  const days: Record<string, MergedDay> = {};
+  // Entries currently linked to each event, usually one
+  // (date is null for carried entries, which are on no loaded day)
+  const linked: Record<string, { date: string | null; entry: ILogEntry }[]> = {};
+
+  // Days without a log start at version 0, which creates the log on write
+  const day = (date: string) => {
+    if (!days[date]) {
+      days[date] = {
+        version: 0,
+        entries: [],
+        changed: false,
+        counts: { added: 0, updated: 0, removed: 0 },
+        movedOut: [],
+      };
+    }
+    return days[date];
+  };
+
+  const removeEntry = (date: string, entry: ILogEntry) => {
+    day(date).entries = day(date).entries.filter((candidate) => candidate !== entry);
+    day(date).changed = true;
+  };
+
+  const isLocked = (date: string | null) => date !== null && locked.indexOf(date) !== -1;
+
+  const addEntry = (date: string, entry: ILogEntry) => {
+    day(date).entries = day(date).entries.concat(entry);
+    day(date).changed = true;
+  };
+
+  logs.forEach((log) => {
+    const entries = (log.toObject() as { entries: ILogEntry[] }).entries;
+    days[log.date] = { ...day(log.date), version: log.version || 0, entries };
+    entries.forEach((entry) => {
+      if (!entry.sourceId) return;
+      (linked[entry.sourceId] = linked[entry.sourceId] || []).push({ date: log.date, entry });
+    });
+  });
+
+  Object.keys(carried).forEach((id) => {
+    if (!linked[id]) linked[id] = [{ date: null, entry: carried[id] }];
+  });
+
+  // Cancelled events, and on a full sync events that vanished from the range.
+  // An event can appear in several calendars, so only this calendar's entries go.
+  Object.keys(linked).forEach((id) => {
+    if (upserts[id]) return;
+
+    linked[id].forEach(({ date, entry }) => {
+      if (date === null || isLocked(date) || entry.invoiceId || entryCalendarId(entry) !== calendarId) return;
+      const inRange = range !== null && date >= range.from && date <= range.to;
+      if ((cancelled.indexOf(id) !== -1 || inRange) && !isLocallyModified(entry, timeZone)) {
+        removeEntry(date, entry);
+        day(date).counts.removed++;
+      }
+    });
+  });
+
+  Object.keys(upserts).forEach((id) => {
+    const upstream = upserts[id];
+    const matches = linked[id] || [];
+    if (matches.some((match) => isLocked(match.date) || match.entry.invoiceId)) return;
+
+    // Earlier versions could leave both an edited copy and a fresh calendar
+    // entry for one event; keep the edited one and drop the rest
+    const keeper = matches.filter(({ entry }) => isLocallyModified(entry, timeZone))[0] || matches[0];
+    matches.forEach((match) => {
+      if (match !== keeper && match.date !== null) {
+        removeEntry(match.date, match.entry);
+        day(match.date).counts.removed++;
+      }
+    });
+
+    if (!keeper) {
+      const date = toDateKey(parseEntryTime(upstream.startTime, timeZone), timeZone);
+      if (isLocked(date)) return;
+      addEntry(date, {
+        type: 'calendar',
+        sourceId: id,
+        calendarId,
+        ...upstream,
+        locallyModified: false,
+        original: upstream,
+        projectId: rules.projectId || null,
+        tags: rules.tags || [],
+      } as ILogEntry);
+      day(date).counts.added++;
+      return;
+    }
+
+    const { entry } = keeper;
+    const merged = mergeEventFields(entry, upstream, timeZone);
+    const isUnchanged = entry.type === 'calendar' && !!entry.original &&
+      SYNCED_FIELDS.every((field) => entry[field] === merged[field] && entry.original![field] === upstream[field]);
+    if (isUnchanged && keeper.date !== null) return;
+
+    const date = toDateKey(parseEntryTime(merged.startTime, timeZone), timeZone);
+    if (isLocked(date)) return;
+    const synced: ILogEntry = {
+      ...entry,
+      ...merged,
+      type: 'calendar',
+      locallyModified: SYNCED_FIELDS.some((field) => !isSameValue(field, merged[field], upstream[field], timeZone)),
+      original: upstream,
+    };
+
+    // Replacing the entry keeps its _id, project, tags and rates, even when the event moved to another day
+    if (keeper.date !== null) {
+      removeEntry(keeper.date, entry);
+      if (keeper.date !== date) day(keeper.date).movedOut.push({ sourceId: id, to: date, entry });
+    }
+    addEntry(date, synced);
+    day(date).counts.updated++;
+  });
+
+  return days;
+}
+
+// Applies a batch of one calendar's events to the user's logs. With a range
+// (full sync), that calendar's entries on those days whose event no longer
+// exists are removed. With a window (incremental sync, whose changes cover the
+// whole calendar), events starting outside it are handled like cancelled
+// ones, so they never add entries there. Entries the user edited are never
+// removed by a sync.
+// Each day is written only if its log is still at the version the merge
+// started from; days that changed in the meantime are read and merged again,
+// so entries added or edited during a sync are never overwritten. An entry
+// whose old day was written but whose new day conflicted is carried into the
+// next attempt, so it keeps its identity and user edits. Days in a submitted
+// or approved week are never written; events on or moving to them wait until
+// the week is unlocked. Invoiced entries likewise stay as billed until their
+// invoice is voided.
+export async function applyCalendarEvents(
+  target: SyncTarget,
+  timeZone: string,
+  events: CalendarEvent[],
+  range: DateRange | null,
+  syncedWindow: DateRange | null = null
+): Promise<Omit<CalendarSyncResult, 'mode' | 'skipped'>> {
+  const { userId, rules } = target;
+  const upserts: Record<string, EventFields> = {};
+  const cancelled: string[] = [];
+
+  const isOutsideWindow = (fields: EventFields) => {
+    if (!syncedWindow) return false;
+    const date = toDateKey(parseEntryTime(fields.startTime, timeZone), timeZone);
+    return date < syncedWindow.from || date > syncedWindow.to;
+  };
+
+  events.forEach((event) => {
+    if (event.cancelled || isSkipped(event, rules) || (event.fields && isOutsideWindow(event.fields))) {
+      cancelled.push(event.id);
+    } else if (event.fields) {
+      upserts[event.id] = event.fields;
+    }
+  });
+
+  const sourceIds = Object.keys(upserts).concat(cancelled);
+  const dates = Object.keys(upserts)
+    .map((id) => toDateKey(parseEntryTime(upserts[id].startTime, timeZone), timeZone))
+    .filter((date, index, all) => all.indexOf(date) === index);
+
+  const $or: Record<string, unknown>[] = [
+    { date: { $in: dates } },
+    { 'entries.sourceId': { $in: sourceIds } },
+  ];
+  if (range) {
+    $or.push({ date: { $gte: range.from, $lte: range.to } });
+  }
+
+  const total: SyncCounts = { added: 0, updated: 0, removed: 0 };
+  const written: string[] = [];
+  const carried: Record<string, ILogEntry> = {};
+
+  for (let attempt = 1; ; attempt++) {
+    const logs: ILog[] = await Log.find({ userId, $or });
+    const locked = await findLockedDates(String(userId), dates.concat(logs.map((log) => log.date)));
+    const days = mergeCalendarEvents(logs, target, timeZone, upserts, cancelled, range, carried, locked);
+    const conflicts: string[] = [];
+    const landed: string[] = [];
+
+    await Promise.all(Object.keys(days).filter((date) => days[date].changed).map(async (date) => {
+      const { entries, version, counts } = days[date];
+      const sorted = entries.sort((a, b) =>
+        parseEntryTime(a.startTime, timeZone).getTime() - parseEntryTime(b.startTime, timeZone).getTime()
+      );
+
+      if (!await replaceLogEntries(String(userId), date, sorted, version)) {
+        conflicts.push(date);
+        return;
+      }
+
+      total.added += counts.added;
+      total.updated += counts.updated;
+      total.removed += counts.removed;
+      landed.push(date);
+      if (written.indexOf(date) === -1) written.push(date);
+    }));
+
+    landed.forEach((date) => {
+      days[date].movedOut.forEach(({ sourceId, to, entry }) => {
+        if (conflicts.indexOf(to) !== -1) carried[sourceId] = entry;
+      });
+    });
+
+    if (conflicts.length === 0) break;
+    if (attempt === MAX_WRITE_ATTEMPTS) {
+      throw new Error(`Logs for ${conflicts.sort().join(', ')} kept changing during the calendar sync`);
+    }
+
+    // A conflicting day may be one the query didn't load, e.g. where an edited entry moved to
+    conflicts.forEach((date) => {
+      if (dates.indexOf(date) === -1) dates.push(date);
+    });
+  }
+
+  return { ...total, dates: written.sort() };
+}
+
+// Grows the synced window to include the new range when the result still fits
+function mergeWindow(range: DateRange, previous?: { syncedFrom?: string | null; syncedTo?: string | null }): DateRange {
+  if (!previous?.syncedFrom || !previous.syncedTo) return range;
+
+  const merged = {
+    from: previous.syncedFrom < range.from ? previous.syncedFrom : range.from,
+    to: previous.syncedTo > range.to ? previous.syncedTo : range.to,
+  };
+  const days = (Date.parse(merged.to) - Date.parse(merged.from)) / 86400000;
+
+  return days < MAX_RANGE_DAYS ? merged : range;
+}
+
+async function syncCalendarSource(
+  provider: CalendarProvider,
+  source: ICalendarSource,
+  timeZone: string,
+  range: DateRange
+): Promise<CalendarSyncResult> {
+  const isCovered = !!source.syncToken && !!source.syncedFrom && !!source.syncedTo &&
+    source.syncedFrom <= range.from && range.to <= source.syncedTo;
+
+  if (isCovered) {
+    const changes = await provider.listChanges(source.calendarId, source.syncToken!, timeZone);
+
+    // Otherwise the token expired; fall back to a full sync of the stored window
+    if (changes) {
+      const syncedWindow = { from: source.syncedFrom!, to: source.syncedTo! };
+      const result = await applyCalendarEvents(source, timeZone, changes.events, null, syncedWindow);
+
+      source.syncToken = changes.nextSyncToken;
+      source.lastSyncedAt = new Date();
+      await source.save();
+
+      return { mode: 'incremental', ...result, skipped: changes.skipped || 0 };
+    }
+  }
+
+  const window = mergeWindow(range, source);
+  const { events, nextSyncToken, skipped } = await provider.listEvents(
+    source.calendarId,
+    getDayBounds(window.from, timeZone).start,
+    getDayBounds(window.to, timeZone).end,
+    timeZone
+  );
+  const result = await applyCalendarEvents(source, timeZone, events, window);
+
+  source.syncToken = nextSyncToken;
+  source.syncedFrom = window.from;
+  source.syncedTo = window.to;
+  source.lastSyncedAt = new Date();
+  await source.save();
+
+  return { mode: 'full', ...result, skipped: skipped || 0 };
+}
+
+function emptyResult(): CalendarSyncResult {
+  return { mode: 'incremental', added: 0, updated: 0, removed: 0, skipped: 0, dates: [] };
+}
+
+function addResult(total: CalendarSyncResult, result: CalendarSyncResult) {
+  if (result.mode === 'full') total.mode = 'full';
+  total.added += result.added;
+  total.updated += result.updated;
+  total.removed += result.removed;
+  total.skipped += result.skipped;
+  total.dates = total.dates.concat(result.dates.filter((date) => total.dates.indexOf(date) === -1));
+}
+
+// Syncs every enabled calendar of one provider in turn. Users who never
+// picked Google calendars get their primary calendar.
+export async function syncProviderCalendars(
+  provider: CalendarProvider,
+  userId: string,
+  timeZone: string,
+  range: DateRange
+): Promise<CalendarSyncResult> {
+  let sources: ICalendarSource[] = await CalendarSource.find({ userId, provider: provider.name });
+
+  if (sources.length === 0 && provider.name === 'google') {
+    sources = [await CalendarSource.create({ userId, provider: 'google', calendarId: DEFAULT_CALENDAR_ID, name: 'Primary' })];
+  }
+
+  const total = emptyResult();
+
+  // One calendar at a time, since calendars can write to the same day's log
+  for (const source of sources.filter((candidate) => candidate.enabled)) {
+    await ensureTags(userId, source.rules.tags);
+    addResult(total, await syncCalendarSource(provider, source, timeZone, range));
+  }
+
+  total.dates.sort();
+  return total;
+}
+
+// Syncs the user's calendars from each connected provider
+export async function syncCalendars(
+  providers: CalendarProvider[],
+  userId: string,
+  timeZone: string,
+  range: DateRange
+): Promise<CalendarSyncResult> {
+  const total = emptyResult();
+
+  for (const provider of providers) {
+    addResult(total, await syncProviderCalendars(provider, userId, timeZone, range));
+  }
+
+  total.dates.sort();
+  return total;
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Log from '@/lib/models/Log';
+
+// Optimistic concurrency helpers for Log documents. The numeric `version` is
+// sent to clients as an ETag and must be echoed back in If-Match on writes.
+
+export function toETag(version: number | undefined): string {
+  return `"${version || 0}"`;
+}
+
+// Returns null when the header is missing or malformed
+export function parseIfMatch(request: NextRequest): number | null {
+  const header = request.headers.get('if-match');
+  if (!header) return null;
+
+  const match = header.trim().match(/^(?:W\/)?"?(\d+)"?$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+// Logs written before versioning have no `version` field and count as version 0
+export function versionFilter(version: number) {
+  return version === 0 ? { $in: [0, null] } : version;
+}
+
+export function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number })?.code === 11000;
+}
+
+export function preconditionRequiredResponse() {
+  return NextResponse.json(
+    { error: 'If-Match header with the current log version is required' },
+    { status: 428 }
+  );
+}
+
+export function versionConflictResponse(serverLog: unknown, date: string) {
+  const log = serverLog || { date, entries: [], version: 0 };
+  const version = (log as { version?: number }).version;
+
+  return NextResponse.json(
+    {
+      error: 'This log was changed by another session. Reload or merge your changes.',
+      log,
+    },
+    { status: 409, headers: { ETag: toETag(version) } }
+  );
+}
+
+// Replaces a day's entries only if the stored version still matches. Returns
+// null on a version mismatch so the caller can answer with a 409.
+export async function replaceLogEntries(
+  userId: string,
+  date: string,
+  entries: unknown[],
+  expectedVersion: number
+) {
+  try {
+    return await Log.findOneAndUpdate(
+      { userId, date, version: versionFilter(expectedVersion) },
+      {
+        $set: { entries },
+        $inc: { version: 1 },
+        $setOnInsert: { userId, date },
+      },
+      // Only a client that saw no log (version 0) may create one
+      { upsert: expectedVersion === 0, new: true, runValidators: true }
+    );
+  } catch (error) {
+    // The upsert raced with an existing log for the same day
+    if (isDuplicateKeyError(error)) return null;
+    throw error;
+  }
+}
@@ -0,0 +1,69 @@
+// Delimited text (CSV/TSV) parsing following RFC 4180: fields may be quoted,
+// quotes inside quoted fields are doubled, and quoted fields may span lines.
+
+export type Delimiter = ',' | '\t' | ';';
+
+const DELIMITERS: Delimiter[] = [',', '\t', ';'];
+
+// Picks the delimiter that splits the header line into the most columns
+export function detectDelimiter(text: string): Delimiter {
+  const firstLine = text.split(/\r?\n/)[0] || '';
+  let best: Delimiter = ',';
+  let bestCount = 0;
+
+  DELIMITERS.forEach((delimiter) => {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+
+  return best;
+}
+
+// Returns every record as an array of fields. Blank lines are skipped.
+export function parseDelimited(text: string, delimiter: Delimiter): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== '') records.push(record);
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) endRecord();
+
+  return records;
+}
@@ -0,0 +1,153 @@
+import { Delimiter, detectDelimiter, parseDelimited } from '@/lib/csv';
+import {
+  combineDateAndTime,
+  ImportCandidate,
+  parseBooleanValue,
+  parseDateTimeValue,
+  parseDateValue,
+  parseDuration,
+  parseTimeOfDay,
+} from '@/lib/logImport';
+import { normalizeTags } from '@/lib/tags';
+
+// Generic CSV/TSV import with a user-chosen column for each entry field.
+// Files exported from the dashboard map automatically.
+
+export const CSV_IMPORT_FIELDS = [
+  'date',
+  'start',
+  'end',
+  'duration',
+  'title',
+  'description',
+  'type',
+  'tags',
+  'billable',
+] as const;
+
+export type CsvImportField = typeof CSV_IMPORT_FIELDS[number];
+
+// Header name for each field; unmapped fields are left out
+export type CsvColumnMapping = Partial<Record<CsvImportField, string | null>>;
+
+// Header names tried for each field when no mapping is given, lowercase
+const HEADER_ALIASES: Record<CsvImportField, string[]> = {
+  date: ['date', 'day', 'start date'],
+  start: ['start time', 'start', 'from', 'started'],
+  end: ['end time', 'end', 'to', 'stopped'],
+  duration: ['duration', 'hours', 'time'],
+  title: ['title', 'task', 'name', 'summary'],
+  description: ['description', 'notes', 'note', 'details'],
+  type: ['type'],
+  tags: ['tags', 'tag', 'labels'],
+  billable: ['billable'],
+};
+
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  const mapping: CsvColumnMapping = {};
+
+  CSV_IMPORT_FIELDS.forEach((field) => {
+    const alias = HEADER_ALIASES[field].filter((candidate) => normalized.indexOf(candidate) !== -1)[0];
+    mapping[field] = alias ? headers[normalized.indexOf(alias)] : null;
+  });
+
+  return mapping;
+}
+
+export interface ParsedCsv {
+  delimiter: Delimiter;
+  headers: string[];
+  records: string[][]; // Without the header
+}
+
+export function readCsv(text: string, delimiter?: Delimiter): ParsedCsv {
+  const used = delimiter || detectDelimiter(text);
+  const [headers, ...records] = parseDelimited(text, used);
+  return { delimiter: used, headers: (headers || []).map((header) => header.trim()), records };
+}
+
+// Turns each record into a candidate entry. Times of day are read on the row's
+// date in the user's zone; an end at or before the start is on the next day.
+export function toImportCandidates(csv: ParsedCsv, mapping: CsvColumnMapping, timeZone: string): ImportCandidate[] {
+  const columnOf = (field: CsvImportField) => {
+    const header = mapping[field];
+    return header ? csv.headers.indexOf(header) : -1;
+  };
+  const columns = {} as Record<CsvImportField, number>;
+  CSV_IMPORT_FIELDS.forEach((field) => {
+    columns[field] = columnOf(field);
+  });
+
+  return csv.records.map((record, index): ImportCandidate => {
+    const row = index + 2;
+    const errors: string[] = [];
+    const value = (field: CsvImportField) => (columns[field] === -1 ? '' : (record[columns[field]] || '').trim());
+
+    const date = value('date') ? parseDateValue(value('date')) : null;
+    if (value('date') && !date) errors.push(`Unrecognised date "${value('date')}"`);
+
+    const readTime = (field: 'start' | 'end'): Date | null => {
+      const raw = value(field);
+      if (!raw) return null;
+
+      const dateTime = parseDateTimeValue(raw, timeZone);
+      if (dateTime) return dateTime;
+
+      const time = parseTimeOfDay(raw);
+      if (!time) {
+        errors.push(`Unrecognised ${field} time "${raw}"`);
+      } else if (!date) {
+        if (!value('date')) errors.push(`A date is needed for the ${field} time "${raw}"`);
+      } else {
+        return combineDateAndTime(date, time, timeZone);
+      }
+      return null;
+    };
+
+    const start = readTime('start');
+    let end = readTime('end');
+    const duration = value('duration') ? parseDuration(value('duration')) : null;
+    if (value('duration') && duration === null) errors.push(`Unrecognised duration "${value('duration')}"`);
+
+    if (start && end && end.getTime() < start.getTime() && !parseDateTimeValue(value('end'), timeZone)) {
+      // Overnight entries only give the time of day
+      end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+    }
+    if (start && !end && duration) {
+      end = new Date(start.getTime() + duration);
+    }
+
+    if (!start && !value('start')) errors.push('Start time is required');
+    if (start && !end && !value('end') && !value('duration')) errors.push('End time or duration is required');
+    if (start && end && end.getTime() <= start.getTime()) errors.push('End time must be after start time');
+
+    const title = value('title');
+    if (!title) errors.push('Title is required');
+
+    const type = (value('type') || 'manual').toLowerCase();
+    if (type !== 'manual' && type !== 'calendar') errors.push(`Unknown type "${value('type')}"`);
+
+    const billable = parseBooleanValue(value('billable'));
+    if (billable === null) errors.push(`Unrecognised billable value "${value('billable')}"`);
+
+    if (errors.length > 0 || !start || !end) {
+      return { row, entry: null, errors };
+    }
+
+    return {
+      row,
+      entry: {
+        type: type as 'manual' | 'calendar',
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+        title,
+        description: value('description'),
+        // Our own export separates tags with semicolons
+        tags: normalizeTags(value('tags').split(/[;,]/)),
+        billable: !!billable,
+      },
+      errors,
+    };
+  });
+}
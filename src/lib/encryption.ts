@@ -0,0 +1,40 @@
+import crypto from 'crypto';
+
+// Encryption for credentials kept in the database (OAuth tokens, CalDAV
+// passwords). AES-256-GCM with a key from TOKEN_ENCRYPTION_KEY, or derived
+// from NEXTAUTH_SECRET when that isn't set. Values are stored as
+// "v1:<iv>:<auth tag>:<ciphertext>" in base64.
+
+const PREFIX = 'v1:';
+
+function getKey(): Buffer {
+  const secret = process.env.TOKEN_ENCRYPTION_KEY || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('Please define the TOKEN_ENCRYPTION_KEY or NEXTAUTH_SECRET environment variable');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+export function encryptSecret(value: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  return PREFIX + [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':');
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.indexOf(PREFIX) === 0;
+}
+
+// Values written before encryption was introduced are returned unchanged
+// until lib/legacySecrets encrypts them
+export function decryptSecret(value: string): string {
+  if (!isEncrypted(value)) return value;
+
+  const [iv, tag, ciphertext] = value.slice(PREFIX.length).split(':').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,93 @@
+import { google, calendar_v3, Auth } from 'googleapis';
+import { CalendarEvent, CalendarEventBatch, CalendarProvider, DEFAULT_CALENDAR_ID } from '@/lib/calendarSync';
+
+function fromGoogleEvent(event: calendar_v3.Schema$Event): CalendarEvent | null {
+  if (!event.id) return null;
+
+  const startTime = event.start?.dateTime || event.start?.date;
+  const endTime = event.end?.dateTime || event.end?.date;
+  const self = (event.attendees || []).filter((attendee) => attendee.self)[0];
+
+  return {
+    id: event.id,
+    cancelled: event.status === 'cancelled',
+    allDay: !!event.start?.date && !event.start.dateTime,
+    declined: !!self && self.responseStatus === 'declined',
+    fields: startTime && endTime
+      ? { startTime, endTime, title: event.summary || 'Untitled Event', description: event.description || '' }
+      : null,
+  };
+}
+
+// Google answers 410 Gone once a sync token has expired
+function isSyncTokenExpired(error: unknown): boolean {
+  const { code, status, response } = error as { code?: number | string; status?: number; response?: { status?: number } };
+  return status === 410 || response?.status === 410 || code === 410 || code === '410';
+}
+
+async function listEvents(
+  calendar: calendar_v3.Calendar,
+  calendarId: string,
+  params: calendar_v3.Params$Resource$Events$List
+): Promise<CalendarEventBatch> {
+  const events: CalendarEvent[] = [];
+  let nextSyncToken: string | null = null;
+  let pageToken: string | undefined;
+
+  do {
+    const response = await calendar.events.list({
+      ...params,
+      calendarId,
+      singleEvents: true,
+      maxResults: 250,
+      pageToken,
+    });
+    (response.data.items || []).forEach((item) => {
+      const event = fromGoogleEvent(item);
+      if (event) events.push(event);
+    });
+    pageToken = response.data.nextPageToken || undefined;
+    // Only the last page carries the token
+    nextSyncToken = response.data.nextSyncToken || nextSyncToken;
+  } while (pageToken);
+
+  return { events, nextSyncToken };
+}
+
+// Google Calendar as a sync provider, for a client from lib/googleTokens. The
+// primary calendar is always listed under the "primary" alias, which is how it
+// has been stored since before calendar selection existed.
+export function createGoogleProvider(auth: Auth.OAuth2Client): CalendarProvider {
+  const calendar = google.calendar({ version: 'v3', auth });
+
+  return {
+    name: 'google',
+
+    async listCalendars() {
+      const response = await calendar.calendarList.list({ minAccessRole: 'reader' });
+      return (response.data.items || []).map((item) => ({
+        calendarId: item.primary ? DEFAULT_CALENDAR_ID : item.id!,
+        name: item.summaryOverride || item.summary || item.id!,
+        color: item.backgroundColor || null,
+        primary: !!item.primary,
+      }));
+    },
+
+    listEvents(calendarId, timeMin, timeMax, timeZone) {
+      return listEvents(calendar, calendarId, {
+        timeMin: timeMin.toISOString(),
+        timeMax: timeMax.toISOString(),
+        timeZone,
+      });
+    },
+
+    async listChanges(calendarId, syncToken) {
+      try {
+        return await listEvents(calendar, calendarId, { syncToken });
+      } catch (error) {
+        if (isSyncTokenExpired(error)) return null;
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,143 @@
+import { google, Auth } from 'googleapis';
+import CalendarSource from '@/lib/models/CalendarSource';
+import User from '@/lib/models/User';
+import { decryptSecret, encryptSecret } from '@/lib/encryption';
+import { encryptPlainTextSecrets } from '@/lib/legacySecrets';
+
+// Google OAuth tokens live encrypted on the user, not in the session JWT.
+// Access tokens are refreshed on demand and saved back, and a refresh that
+// fails with `invalid_grant` (the user revoked access or the grant expired)
+// marks the connection as revoked until they sign in with Google again.
+
+export type GoogleConnection =
+  | { status: 'connected'; auth: Auth.OAuth2Client }
+  | { status: 'not_connected' }
+  | { status: 'revoked' };
+
+// Refresh this long before expiry so a token doesn't expire mid-sync
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+function createOAuthClient(): Auth.OAuth2Client {
+  return new google.auth.OAuth2(
+    process.env.GOOGLE_CLIENT_ID,
+    process.env.GOOGLE_CLIENT_SECRET
+  );
+}
+
+// Tokens stored before this service existed have NextAuth's `expires_at` in seconds
+function toExpiryMs(expiryDate?: number | null): number | null {
+  if (!expiryDate) return null;
+  return expiryDate < 1e12 ? expiryDate * 1000 : expiryDate;
+}
+
+// Google only sends a refresh token when the user consents, so an existing
+// one is kept when a refresh or sign-in comes without it
+export async function saveGoogleTokens(userId: string, credentials: Auth.Credentials): Promise<void> {
+  if (!credentials.access_token) return;
+
+  const $set: Record<string, unknown> = {
+    'googleAuthTokens.accessToken': encryptSecret(credentials.access_token),
+    'googleAuthTokens.expiryDate': credentials.expiry_date || null,
+    'googleAuthTokens.revokedAt': null,
+  };
+  if (credentials.refresh_token) {
+    $set['googleAuthTokens.refreshToken'] = encryptSecret(credentials.refresh_token);
+  }
+  if (credentials.scope) {
+    $set['googleAuthTokens.scope'] = credentials.scope;
+  }
+
+  await User.updateOne({ _id: userId }, { $set });
+}
+
+export function isRevokedGrantError(error: unknown): boolean {
+  const { response, message } = (error || {}) as { response?: { data?: { error?: string } }; message?: string };
+  return response?.data?.error === 'invalid_grant' ||
+    (typeof message === 'string' && message.indexOf('invalid_grant') !== -1);
+}
+
+// The tokens are useless once revoked; the flag tells the user to reconnect
+export async function markGoogleGrantRevoked(userId: string): Promise<void> {
+  await User.updateOne({ _id: userId }, {
+    $set: { 'googleAuthTokens.revokedAt': new Date() },
+    $unset: { 'googleAuthTokens.accessToken': 1, 'googleAuthTokens.refreshToken': 1 },
+  });
+}
+
+// An authorized client for the user's Google account, refreshed if needed
+export async function getGoogleAuthClient(userId: string): Promise<GoogleConnection> {
+  const user = await User.findById(userId).select('googleAuthTokens');
+  const tokens = user?.googleAuthTokens;
+
+  if (tokens?.revokedAt) return { status: 'revoked' };
+  if (!tokens?.refreshToken) return { status: 'not_connected' };
+
+  await encryptPlainTextSecrets(user);
+  const refreshToken = decryptSecret(tokens.refreshToken);
+  const expiryDate = toExpiryMs(tokens.expiryDate);
+  const auth = createOAuthClient();
+
+  auth.setCredentials({
+    access_token: tokens.accessToken ? decryptSecret(tokens.accessToken) : null,
+    refresh_token: refreshToken,
+    expiry_date: expiryDate,
+  });
+
+  if (!tokens.accessToken || !expiryDate || expiryDate < Date.now() + REFRESH_MARGIN_MS) {
+    try {
+      const { credentials } = await auth.refreshAccessToken();
+      auth.setCredentials({ ...credentials, refresh_token: credentials.refresh_token || refreshToken });
+      await saveGoogleTokens(userId, credentials);
+    } catch (error) {
+      if (!isRevokedGrantError(error)) throw error;
+
+      await markGoogleGrantRevoked(userId);
+      return { status: 'revoked' };
+    }
+  }
+
+  // Refreshes the client does on its own during long syncs are saved too
+  auth.on('tokens', (credentials) => {
+    saveGoogleTokens(userId, credentials).catch((error) => {
+      console.error('Error saving refreshed Google tokens:', error);
+    });
+  });
+
+  return { status: 'connected', auth };
+}
+
+export async function getGoogleConnectionStatus(userId: string): Promise<{
+  connected: boolean;
+  revoked: boolean;
+  scope: string | null;
+}> {
+  const user = await User.findById(userId).select('googleAuthTokens');
+  const tokens = user?.googleAuthTokens;
+
+  return {
+    connected: !!tokens?.refreshToken && !tokens.revokedAt,
+    revoked: !!tokens?.revokedAt,
+    scope: tokens?.scope || null,
+  };
+}
+
+// Revokes the grant at Google and forgets the tokens and Google calendar
+// settings. Entries synced from Google stay in the logs.
+export async function disconnectGoogle(userId: string): Promise<void> {
+  const user = await User.findById(userId).select('googleAuthTokens');
+  const tokens = user?.googleAuthTokens;
+  const token = tokens?.refreshToken || tokens?.accessToken;
+
+  if (token) {
+    try {
+      // Revoking either token revokes the whole grant
+      await createOAuthClient().revokeToken(decryptSecret(token));
+    } catch (error) {
+      // Already revoked or expired grants can't be revoked again
+      console.error('Error revoking Google token:', error);
+    }
+  }
+
+  await User.updateOne({ _id: userId }, { $unset: { googleAuthTokens: 1 } });
+  await CalendarSource.deleteMany({ userId, provider: 'google' });
+}
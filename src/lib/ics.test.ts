@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { parseIcsEvents } from '@/lib/ics';
+import { ics, vevent } from '@/test/ics';
+
+const RANGE_START = new Date('2024-01-08T00:00:00Z');
+const RANGE_END = new Date('2024-01-15T00:00:00Z');
+
+describe('parseIcsEvents', () => {
+  it('expands a long-running series inside the range', () => {
+    const text = ics([vevent('standup', [
+      'DTSTART:20100104T090000Z',
+      'DTEND:20100104T091500Z',
+      'RRULE:FREQ=DAILY',
+      'SUMMARY:Standup',
+    ])]);
+
+    const events = parseIcsEvents(text, RANGE_START, RANGE_END, 'UTC');
+
+    expect(events.map((event) => event.fields?.startTime)).toEqual([
+      '2024-01-08T09:00:00.000Z',
+      '2024-01-09T09:00:00.000Z',
+      '2024-01-10T09:00:00.000Z',
+      '2024-01-11T09:00:00.000Z',
+      '2024-01-12T09:00:00.000Z',
+      '2024-01-13T09:00:00.000Z',
+      '2024-01-14T09:00:00.000Z',
+    ]);
+    expect(events[0].id).toBe('standup_2024-01-08T09:00:00Z');
+  });
+
+  it('keeps moved occurrences of a series', () => {
+    const text = ics([
+      vevent('review', [
+        'DTSTART:20230102T140000Z',
+        'DTEND:20230102T150000Z',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO',
+        'SUMMARY:Review',
+      ]),
+      vevent('review', [
+        'RECURRENCE-ID:20240108T140000Z',
+        'DTSTART:20240109T100000Z',
+        'DTEND:20240109T110000Z',
+        'SUMMARY:Review (moved)',
+      ]),
+    ]);
+
+    const events = parseIcsEvents(text, RANGE_START, RANGE_END, 'UTC');
+
+    expect(events).toHaveLength(1);
+    expect(events[0].fields).toMatchObject({ startTime: '2024-01-09T10:00:00.000Z', title: 'Review (moved)' });
+  });
+
+  it('reaches the range of an hourly series started years before it', () => {
+    const text = ics([vevent('ping', [
+      'DTSTART:20100101T000000Z',
+      'DTEND:20100101T000500Z',
+      'RRULE:FREQ=HOURLY',
+      'SUMMARY:Ping',
+    ])]);
+
+    const events = parseIcsEvents(text, RANGE_START, new Date('2024-01-08T04:00:00Z'), 'UTC');
+
+    expect(events.map((event) => event.fields?.startTime)).toEqual([
+      '2024-01-08T00:00:00.000Z',
+      '2024-01-08T01:00:00.000Z',
+      '2024-01-08T02:00:00.000Z',
+      '2024-01-08T03:00:00.000Z',
+    ]);
+  });
+
+  it('keeps the weekday pattern and local time of a skipped-ahead series', () => {
+    const text = ics([vevent('gym', [
+      'DTSTART;TZID=America/New_York:20150112T070000',
+      'DTEND;TZID=America/New_York:20150112T080000',
+      'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE',
+      'SUMMARY:Gym',
+    ])]);
+
+    // 2024-01-08 is an odd number of weeks after 2015-01-12, so only the week after matches
+    const events = parseIcsEvents(text, RANGE_START, new Date('2024-01-22T00:00:00Z'), 'UTC');
+
+    expect(events.map((event) => event.fields?.startTime)).toEqual([
+      '2024-01-15T12:00:00.000Z',
+      '2024-01-17T12:00:00.000Z',
+    ]);
+  });
+
+  it('keeps an occurrence moved into the range from long before it', () => {
+    const text = ics([
+      vevent('standup', [
+        'DTSTART:20100104T090000Z',
+        'DTEND:20100104T091500Z',
+        'RRULE:FREQ=DAILY',
+        'SUMMARY:Standup',
+      ]),
+      vevent('standup', [
+        'RECURRENCE-ID:20200101T090000Z',
+        'DTSTART:20240108T160000Z',
+        'DTEND:20240108T161500Z',
+        'SUMMARY:Standup (rescheduled)',
+      ]),
+    ]);
+
+    const events = parseIcsEvents(text, RANGE_START, new Date('2024-01-09T00:00:00Z'), 'UTC');
+
+    expect(events.map((event) => event.id)).toEqual(['standup_2020-01-01T09:00:00Z', 'standup_2024-01-08T09:00:00Z']);
+  });
+});
@@ -0,0 +1,215 @@
+import ICAL from 'ical.js';
+import { zonedTimeToUtc } from 'date-fns-tz';
+import { ILogEntry } from '@/lib/models/Log';
+import { CalendarEvent } from '@/lib/calendarSync';
+import { isValidTimeZone, parseEntryTime } from '@/utils/timezone';
+
+// iCalendar (RFC 5545) parsing and generation. Parsed events are returned in
+// the same provider-neutral form the calendar sync uses.
+
+type IcalTime = InstanceType<typeof ICAL.Time>;
+type IcalTimezone = InstanceType<typeof ICAL.Timezone>;
+type IcalEvent = InstanceType<typeof ICAL.Event>;
+
+// Expanding an endless RRULE stops after this many occurrences in the range
+const MAX_OCCURRENCES = 5000;
+
+// Series with a fixed period are entered just before the range (see
+// getExpansionStart); others are walked from DTSTART, up to this many
+// occurrences, which covers a monthly series over thousands of years
+const MAX_ITERATIONS = 50000;
+
+// RRULE frequencies whose periods have a fixed length in wall-clock time
+const FIXED_PERIOD_SECONDS: Record<string, number> = {
+  SECONDLY: 1,
+  MINUTELY: 60,
+  HOURLY: 3600,
+  DAILY: 86400,
+  WEEKLY: 604800,
+};
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Converts an iCalendar time into the string stored on entries: a plain date
+// for all-day values, an ISO instant when the zone is known, and a naive
+// wall-clock value (read in the user's zone) for floating times
+function toEntryTime(time: IcalTime, tzid: string | null, timezones: Record<string, IcalTimezone>): string {
+  if (time.isDate) return time.toString();
+
+  const zoneId = time.zone ? time.zone.tzid : null;
+  if (zoneId === 'UTC' || zoneId === 'Z') return time.toJSDate().toISOString();
+
+  if (tzid && isValidTimeZone(tzid)) {
+    return zonedTimeToUtc(time.toString(), tzid).toISOString();
+  }
+
+  if (tzid && timezones[tzid]) {
+    const zoned = new ICAL.Time({
+      year: time.year,
+      month: time.month,
+      day: time.day,
+      hour: time.hour,
+      minute: time.minute,
+      second: time.second,
+      isDate: false,
+    }, timezones[tzid]);
+    return zoned.toJSDate().toISOString();
+  }
+
+  return time.toString();
+}
+
+function getTzid(component: InstanceType<typeof ICAL.Component>, name: string): string | null {
+  const property = component.getFirstProperty(name);
+  const tzid = property ? property.getParameter('tzid') : null;
+  return typeof tzid === 'string' ? tzid : null;
+}
+
+// Where to start expanding a recurring event so the range is reached without
+// walking years of earlier occurrences. Skipping whole periods of the rule
+// from DTSTART lands on an occurrence with the same pattern, so the series is
+// unchanged from there on. Series limited by COUNT have to be counted from
+// DTSTART, and the start stays before any occurrence that could overlap the
+// range, including moved exceptions.
+function getExpansionStart(event: IcalEvent, exceptions: IcalEvent[], rangeStart: Date): IcalTime {
+  const start = event.startDate;
+  const rules = event.component.getAllProperties('rrule');
+  const rule = rules.length === 1 ? (rules[0].getFirstValue() as InstanceType<typeof ICAL.Recur>) : null;
+  const periodSeconds = rule && !rule.count ? FIXED_PERIOD_SECONDS[rule.freq] * (rule.interval || 1) : 0;
+  if (!periodSeconds) return start;
+
+  let limitMs = rangeStart.getTime() - event.duration.toSeconds() * 1000;
+  exceptions.forEach((exception) => {
+    if (exception.endDate.toJSDate().getTime() > rangeStart.getTime()) {
+      limitMs = Math.min(limitMs, exception.recurrenceId.toJSDate().getTime());
+    }
+  });
+
+  // One period of slack for DST shifts
+  const periods = Math.floor((limitMs - start.toJSDate().getTime()) / 1000 / periodSeconds) - 1;
+  if (periods <= 0) return start;
+
+  const expansionStart = start.clone();
+  expansionStart.adjust(0, 0, 0, periods * periodSeconds);
+  return expansionStart;
+}
+
+// Parses every VEVENT in the file that overlaps [rangeStart, rangeEnd).
+// Recurring events are expanded into one event per occurrence, identified by
+// the UID plus the occurrence's RECURRENCE-ID since they all share one UID.
+// Floating times are read in the given zone.
+export function parseIcsEvents(text: string, rangeStart: Date, rangeEnd: Date, timeZone: string): CalendarEvent[] {
+  const calendar = new ICAL.Component(ICAL.parse(text));
+
+  const timezones: Record<string, IcalTimezone> = {};
+  calendar.getAllSubcomponents('vtimezone').forEach((component) => {
+    const timezone = new ICAL.Timezone(component);
+    timezones[timezone.tzid] = timezone;
+  });
+
+  const vevents = calendar.getAllSubcomponents('vevent');
+  const exceptions = vevents.filter((component) => component.hasProperty('recurrence-id'));
+  const events: CalendarEvent[] = [];
+
+  // Returns the occurrence's start so expansion can stop past the range
+  const addEvent = (id: string, item: IcalEvent, start: IcalTime, end: IcalTime): number => {
+    const startTzid = getTzid(item.component, 'dtstart');
+    const startTime = toEntryTime(start, startTzid, timezones);
+    const endTime = toEntryTime(end, getTzid(item.component, 'dtend') || startTzid, timezones);
+    const startMs = parseEntryTime(startTime, timeZone).getTime();
+    const endMs = parseEntryTime(endTime, timeZone).getTime();
+
+    if (startMs < rangeEnd.getTime() && endMs > rangeStart.getTime()) {
+      const status = item.component.getFirstPropertyValue('status');
+      events.push({
+        id,
+        cancelled: typeof status === 'string' && status.toUpperCase() === 'CANCELLED',
+        allDay: start.isDate,
+        declined: false,
+        fields: {
+          startTime,
+          endTime,
+          title: item.summary || 'Untitled Event',
+          description: item.description || '',
+        },
+      });
+    }
+
+    return startMs;
+  };
+
+  vevents
+    .filter((component) => !component.hasProperty('recurrence-id'))
+    .forEach((component) => {
+      const event = new ICAL.Event(component);
+      if (!event.uid || !event.startDate) return;
+
+      if (!event.isRecurring()) {
+        addEvent(event.uid, event, event.startDate, event.endDate);
+        return;
+      }
+
+      const related = exceptions.filter((exception) => exception.getFirstPropertyValue('uid') === event.uid);
+      related.forEach((exception) => event.relateException(exception));
+
+      const iterator = event.iterator(getExpansionStart(event, related.map((exception) => new ICAL.Event(exception)), rangeStart));
+      let next: IcalTime | null;
+      let iterations = 0;
+      let count = 0;
+
+      while ((next = iterator.next()) && iterations++ < MAX_ITERATIONS) {
+        const details = event.getOccurrenceDetails(next);
+        const id = `${event.uid}_${details.recurrenceId.toString()}`;
+        const added = events.length;
+        // A moved exception can start after the range while later occurrences don't
+        const startMs = addEvent(id, details.item, details.startDate, details.endDate);
+        if (startMs >= rangeEnd.getTime() && details.item === event) break;
+        if (events.length > added && ++count >= MAX_OCCURRENCES) break;
+      }
+    });
+
+  return events;
+}
+
+// Builds an iCalendar feed with one VEVENT per entry
+export function buildIcs(
+  entries: (ILogEntry & { _id?: unknown })[],
+  timeZone: string
+): string {
+  const calendar = new ICAL.Component(['vcalendar', [], []]);
+  calendar.updatePropertyWithValue('prodid', '-//Daily Time Log//EN');
+  calendar.updatePropertyWithValue('version', '2.0');
+  calendar.updatePropertyWithValue('calscale', 'GREGORIAN');
+  calendar.updatePropertyWithValue('x-wr-timezone', timeZone);
+
+  const stamp = ICAL.Time.fromJSDate(new Date(), true);
+
+  entries.forEach((entry) => {
+    const vevent = new ICAL.Component('vevent');
+    const uid = entry.sourceId || `${String(entry._id)}@daily-time-log`;
+
+    vevent.updatePropertyWithValue('uid', uid);
+    vevent.updatePropertyWithValue('dtstamp', stamp);
+
+    if (DATE_ONLY_PATTERN.test(entry.startTime) && DATE_ONLY_PATTERN.test(entry.endTime)) {
+      vevent.updatePropertyWithValue('dtstart', ICAL.Time.fromDateString(entry.startTime));
+      vevent.updatePropertyWithValue('dtend', ICAL.Time.fromDateString(entry.endTime));
+    } else {
+      vevent.updatePropertyWithValue('dtstart', ICAL.Time.fromJSDate(parseEntryTime(entry.startTime, timeZone), true));
+      vevent.updatePropertyWithValue('dtend', ICAL.Time.fromJSDate(parseEntryTime(entry.endTime, timeZone), true));
+    }
+
+    vevent.updatePropertyWithValue('summary', entry.title);
+    if (entry.description) {
+      vevent.updatePropertyWithValue('description', entry.description);
+    }
+    if (entry.tags && entry.tags.length > 0) {
+      const categories = vevent.addPropertyWithValue('categories', entry.tags[0]);
+      categories.setValues(entry.tags);
+    }
+
+    calendar.addSubcomponent(vevent);
+  });
+
+  return calendar.toString();
+}
@@ -0,0 +1,120 @@
+import { format, parseISO } from 'date-fns';
+import { IInvoice, IInvoiceParty } from '@/lib/models/Invoice';
+import { formatCurrency } from '@/utils/billing';
+
+// Renders an invoice as a standalone HTML page with inline styles, so it can
+// be opened in a browser, printed or attached to an email as is.
+
+const STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; color: #1f2023; margin: 0; background: #f9fafb; }
+  .invoice { max-width: 760px; margin: 40px auto; padding: 48px; background: #fff; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1); }
+  header { display: flex; justify-content: space-between; align-items: baseline; }
+  h1 { font-size: 32px; margin: 0; }
+  .number { font-size: 18px; font-weight: 600; }
+  .void { color: #dc2626; font-size: 24px; font-weight: 700; margin-left: 16px; }
+  .parties { display: flex; gap: 32px; margin: 32px 0; }
+  .parties > div { flex: 1; }
+  .label { color: #6b7280; font-size: 12px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.04em; }
+  .party-name { font-weight: 600; margin-top: 4px; }
+  dl { display: grid; grid-template-columns: 100px 1fr; gap: 4px 16px; margin: 0 0 32px; font-size: 14px; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  table { width: 100%; border-collapse: collapse; font-size: 14px; }
+  th { background: #f3f4f6; text-align: left; padding: 8px; }
+  td { padding: 8px; border-bottom: 1px solid #e5e7eb; }
+  .numeric { text-align: right; font-variant-numeric: tabular-nums; white-space: nowrap; }
+  tfoot td { font-weight: 700; border-bottom: none; font-size: 16px; }
+  .notes { margin-top: 32px; font-size: 14px; color: #4b5563; white-space: pre-wrap; }
+  @media print {
+    body { background: #fff; }
+    .invoice { margin: 0; padding: 0; box-shadow: none; max-width: none; }
+  }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(date: string): string {
+  return format(parseISO(date), 'MMMM d, yyyy');
+}
+
+function renderParty(label: string, party: IInvoiceParty): string {
+  return `<div>
+      <div class="label">${label}</div>
+      <div class="party-name">${escapeHtml(party.name)}</div>
+      ${party.email ? `<div>${escapeHtml(party.email)}</div>` : ''}
+    </div>`;
+}
+
+export function renderInvoiceHtml(invoice: IInvoice): string {
+  const money = (amount: number) => escapeHtml(formatCurrency(amount, invoice.currency));
+  const hours = invoice.lines.reduce((sum, line) => sum + line.hours, 0);
+
+  const details: [string, string][] = [
+    ['Issue date', formatDate(invoice.issueDate)],
+    ['Period', `${formatDate(invoice.from)} to ${formatDate(invoice.to)}`],
+  ];
+  if (invoice.dueDate) details.push(['Due date', formatDate(invoice.dueDate)]);
+
+  const rows = invoice.lines.map((line) => `
+        <tr>
+          <td>${escapeHtml(line.description)}</td>
+          <td class="numeric">${line.hours.toFixed(2)}</td>
+          <td class="numeric">${money(line.rate)}</td>
+          <td class="numeric">${money(line.amount)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="robots" content="noindex">
+  <title>Invoice ${escapeHtml(invoice.number)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <div class="invoice">
+    <header>
+      <h1>Invoice${invoice.status === 'void' ? '<span class="void">VOID</span>' : ''}</h1>
+      <div class="number">${escapeHtml(invoice.number)}</div>
+    </header>
+    <div class="parties">
+      ${renderParty('From', invoice.issuer)}
+      ${renderParty('Bill to', invoice.billTo)}
+    </div>
+    <dl>
+      ${details.map(([label, value]) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`).join('\n      ')}
+    </dl>
+    <table>
+      <thead>
+        <tr>
+          <th>Description</th>
+          <th class="numeric">Hours</th>
+          <th class="numeric">Rate</th>
+          <th class="numeric">Amount</th>
+        </tr>
+      </thead>
+      <tbody>${rows}
+      </tbody>
+      <tfoot>
+        <tr>
+          <td>Total</td>
+          <td class="numeric">${hours.toFixed(2)}</td>
+          <td></td>
+          <td class="numeric">${money(invoice.total)}</td>
+        </tr>
+      </tfoot>
+    </table>
+    ${invoice.notes ? `<div class="notes"><div class="label">Notes</div>${escapeHtml(invoice.notes)}</div>` : ''}
+  </div>
+</body>
+</html>
+`;
+}
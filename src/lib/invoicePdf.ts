@@ -0,0 +1,158 @@
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { format, parseISO } from 'date-fns';
+import { IInvoice } from '@/lib/models/Invoice';
+import { fitText, toPdfText, wrapText } from '@/lib/pdfText';
+import { formatCurrency } from '@/utils/billing';
+
+// Renders an invoice as an A4 PDF with the same layout as the HTML version:
+// issuer and client, invoice details, one row per line item, the total and
+// any notes. Void invoices carry a VOID mark.
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const ROW_HEIGHT = 18;
+
+const TEXT = rgb(0.12, 0.12, 0.14);
+const MUTED = rgb(0.42, 0.45, 0.5);
+const RULE = rgb(0.82, 0.84, 0.87);
+const SHADE = rgb(0.95, 0.96, 0.97);
+const VOID = rgb(0.86, 0.15, 0.15);
+
+// Right edges of the numeric columns; Description fills the rest
+const COLUMNS = { hours: PAGE_WIDTH - MARGIN - 190, rate: PAGE_WIDTH - MARGIN - 100, amount: PAGE_WIDTH - MARGIN - 4 };
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+function drawRight(page: PDFPage, text: string, right: number, y: number, font: PDFFont, size: number) {
+  const safe = toPdfText(text);
+  page.drawText(safe, { x: right - font.widthOfTextAtSize(safe, size), y, size, font, color: TEXT });
+}
+
+function drawTableHeader(page: PDFPage, y: number, fonts: Fonts) {
+  page.drawRectangle({ x: MARGIN, y: y - 5, width: PAGE_WIDTH - 2 * MARGIN, height: ROW_HEIGHT, color: SHADE });
+  page.drawText('Description', { x: MARGIN + 4, y, size: 9, font: fonts.bold, color: TEXT });
+  drawRight(page, 'Hours', COLUMNS.hours, y, fonts.bold, 9);
+  drawRight(page, 'Rate', COLUMNS.rate, y, fonts.bold, 9);
+  drawRight(page, 'Amount', COLUMNS.amount, y, fonts.bold, 9);
+}
+
+function formatDate(date: string): string {
+  return format(parseISO(date), 'MMMM d, yyyy');
+}
+
+export async function renderInvoicePdf(invoice: IInvoice): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  pdf.setTitle(`Invoice ${invoice.number}`);
+  pdf.setAuthor(toPdfText(invoice.issuer.name));
+  pdf.setCreator('Daily Time Log');
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN - 10;
+
+  page.drawText('Invoice', { x: MARGIN, y, size: 22, font: fonts.bold, color: TEXT });
+  drawRight(page, invoice.number, PAGE_WIDTH - MARGIN, y, fonts.bold, 14);
+  if (invoice.status === 'void') {
+    page.drawText('VOID', { x: MARGIN + 110, y, size: 22, font: fonts.bold, color: VOID });
+  }
+  y -= 40;
+
+  // Issuer on the left, client on the right
+  const columnWidth = (PAGE_WIDTH - 2 * MARGIN - 30) / 2;
+  ([['From', invoice.issuer], ['Bill to', invoice.billTo]] as const).forEach(([label, party], index) => {
+    const x = MARGIN + index * (columnWidth + 30);
+    page.drawText(label, { x, y, size: 9, font: fonts.bold, color: MUTED });
+    page.drawText(fitText(party.name, fonts.bold, 11, columnWidth), { x, y: y - 15, size: 11, font: fonts.bold, color: TEXT });
+    if (party.email) {
+      page.drawText(fitText(party.email, fonts.regular, 10, columnWidth), { x, y: y - 29, size: 10, font: fonts.regular, color: TEXT });
+    }
+  });
+  y -= 60;
+
+  const details: [string, string][] = [
+    ['Issue date', formatDate(invoice.issueDate)],
+    ['Period', `${formatDate(invoice.from)} - ${formatDate(invoice.to)}`],
+  ];
+  if (invoice.dueDate) details.push(['Due date', formatDate(invoice.dueDate)]);
+  details.forEach(([label, value]) => {
+    page.drawText(label, { x: MARGIN, y, size: 10, font: fonts.bold, color: TEXT });
+    page.drawText(toPdfText(value), { x: MARGIN + 80, y, size: 10, font: fonts.regular, color: TEXT });
+    y -= 15;
+  });
+  y -= 15;
+
+  drawTableHeader(page, y, fonts);
+  y -= ROW_HEIGHT;
+
+  const descriptionWidth = COLUMNS.hours - MARGIN - 60;
+  invoice.lines.forEach((line) => {
+    // Continue the table on a new page, keeping room for the footer
+    if (y < MARGIN + 30) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN - 10;
+      drawTableHeader(page, y, fonts);
+      y -= ROW_HEIGHT;
+    }
+
+    const font = fonts.regular;
+    page.drawText(fitText(line.description, font, 9, descriptionWidth), { x: MARGIN + 4, y, size: 9, font, color: TEXT });
+    drawRight(page, line.hours.toFixed(2), COLUMNS.hours, y, font, 9);
+    drawRight(page, formatCurrency(line.rate, invoice.currency), COLUMNS.rate, y, font, 9);
+    drawRight(page, formatCurrency(line.amount, invoice.currency), COLUMNS.amount, y, font, 9);
+    page.drawLine({
+      start: { x: MARGIN, y: y - 6 },
+      end: { x: PAGE_WIDTH - MARGIN, y: y - 6 },
+      thickness: 0.5,
+      color: RULE,
+    });
+    y -= ROW_HEIGHT;
+  });
+
+  // The total and notes stay together on one page
+  const noteLines = invoice.notes ? wrapText(invoice.notes, fonts.regular, 9, PAGE_WIDTH - 2 * MARGIN) : [];
+  const closingHeight = 40 + (noteLines.length > 0 ? 30 + noteLines.length * 13 : 0);
+  if (y - closingHeight < MARGIN + 20) {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN - 10;
+  }
+
+  y -= 6;
+  const hours = invoice.lines.reduce((sum, line) => sum + line.hours, 0);
+  page.drawText('Total', { x: MARGIN + 4, y, size: 11, font: fonts.bold, color: TEXT });
+  drawRight(page, hours.toFixed(2), COLUMNS.hours, y, fonts.bold, 11);
+  drawRight(page, formatCurrency(invoice.total, invoice.currency), COLUMNS.amount, y, fonts.bold, 11);
+  y -= 40;
+
+  if (noteLines.length > 0) {
+    page.drawText('Notes', { x: MARGIN, y, size: 10, font: fonts.bold, color: TEXT });
+    y -= 15;
+    noteLines.forEach((note) => {
+      page.drawText(note, { x: MARGIN, y, size: 9, font: fonts.regular, color: MUTED });
+      y -= 13;
+    });
+  }
+
+  // Page numbers once the page count is known
+  const pages = pdf.getPages();
+  pages.forEach((item, index) => {
+    item.drawText(`Invoice ${invoice.number}`, { x: MARGIN, y: MARGIN - 20, size: 8, font: fonts.regular, color: MUTED });
+    const number = `Page ${index + 1} of ${pages.length}`;
+    item.drawText(number, {
+      x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(number, 8),
+      y: MARGIN - 20,
+      size: 8,
+      font: fonts.regular,
+      color: MUTED,
+    });
+  });
+
+  return pdf.save();
+}
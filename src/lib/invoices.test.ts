@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { ILogEntry } from '@/lib/models/Log';
+import { changesInvoicedFields, keepInvoicedEntries } from '@/lib/invoices';
+
+const invoiced = {
+  _id: 'entry-1',
+  type: 'manual',
+  startTime: '2024-01-08T09:00:00.000Z',
+  endTime: '2024-01-08T11:00:00.000Z',
+  title: 'Design',
+  description: '',
+  tags: [],
+  locallyModified: false,
+  projectId: 'project-1',
+  billable: true,
+  hourlyRate: 100,
+  invoiceId: 'invoice-1',
+} as unknown as ILogEntry;
+
+const other = {
+  _id: 'entry-2',
+  type: 'manual',
+  startTime: '2024-01-08T13:00:00.000Z',
+  endTime: '2024-01-08T14:00:00.000Z',
+  title: 'Email',
+  billable: false,
+} as unknown as ILogEntry;
+
+// What a client sends back after loading the day
+function echoed(entry: ILogEntry): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(entry));
+}
+
+describe('changesInvoicedFields', () => {
+  it('ignores fields that are left out or unchanged', () => {
+    expect(changesInvoicedFields(invoiced, {}, 'UTC')).toBe(false);
+    expect(changesInvoicedFields(invoiced, {
+      startTime: '2024-01-08T10:00:00+01:00',
+      projectId: 'project-1',
+      billable: true,
+      hourlyRate: 100,
+    }, 'UTC')).toBe(false);
+  });
+
+  it('flags changes to what was billed', () => {
+    expect(changesInvoicedFields(invoiced, { endTime: '2024-01-08T12:00:00.000Z' }, 'UTC')).toBe(true);
+    expect(changesInvoicedFields(invoiced, { billable: false }, 'UTC')).toBe(true);
+    expect(changesInvoicedFields(invoiced, { hourlyRate: null }, 'UTC')).toBe(true);
+    expect(changesInvoicedFields(invoiced, { projectId: null }, 'UTC')).toBe(true);
+  });
+});
+
+describe('keepInvoicedEntries', () => {
+  it('keeps the invoice on entries that come back unchanged', () => {
+    const renamed = { ...echoed(invoiced), title: 'Design review' };
+    const { entries, invoiced: blocked } = keepInvoicedEntries([invoiced, other], [renamed, echoed(other)], 'UTC');
+
+    expect(blocked).toBeNull();
+    expect(entries[0]).toMatchObject({ title: 'Design review', invoiceId: 'invoice-1' });
+    expect(entries[1].invoiceId).toBeUndefined();
+  });
+
+  it('ignores invoice ids sent by the client', () => {
+    const claimed = { ...echoed(other), invoiceId: 'invoice-9' };
+    const { entries } = keepInvoicedEntries([other], [claimed], 'UTC');
+
+    expect(entries[0].invoiceId).toBeUndefined();
+  });
+
+  it('refuses to drop or change an invoiced entry', () => {
+    expect(keepInvoicedEntries([invoiced, other], [echoed(other)], 'UTC').invoiced).toBe(invoiced);
+
+    const uninvoiced: Record<string, unknown> = { ...echoed(invoiced), invoiceId: null };
+    delete uninvoiced._id;
+    expect(keepInvoicedEntries([invoiced], [uninvoiced], 'UTC').invoiced).toBe(invoiced);
+
+    const longer = { ...echoed(invoiced), endTime: '2024-01-08T12:00:00.000Z' };
+    expect(keepInvoicedEntries([invoiced], [longer], 'UTC').invoiced).toBe(invoiced);
+
+    // An omitted rate would be stored as null
+    const { hourlyRate, ...withoutRate } = echoed(invoiced);
+    expect(hourlyRate).toBe(100);
+    expect(keepInvoicedEntries([invoiced], [withoutRate], 'UTC').invoiced).toBe(invoiced);
+  });
+});
@@ -0,0 +1,274 @@
+import mongoose from 'mongoose';
+import { NextResponse } from 'next/server';
+import Log, { ILog, ILogEntry } from '@/lib/models/Log';
+import Project, { IProject } from '@/lib/models/Project';
+import { IClient } from '@/lib/models/Client';
+import Invoice, { IInvoice, IInvoiceLine } from '@/lib/models/Invoice';
+import User from '@/lib/models/User';
+import { projectAccessFilter } from '@/lib/workspaces';
+import { getEntryRate } from '@/utils/billing';
+import { formatInvoiceNumber, InvoiceGrouping, roundMoney } from '@/utils/invoicing';
+import { DEFAULT_TIME_ZONE, parseEntryTime, todayInTimeZone } from '@/utils/timezone';
+
+// Invoices bill a client for the user's billable entries on the client's
+// projects within a date range. Creating one claims its entries by setting
+// their invoiceId first and then builds the lines from what was claimed, so
+// two invoices created at once can never bill the same entry. Voiding an
+// invoice releases its entries; its number is never reused. Until then an
+// invoiced entry keeps its invoiceId and the fields its amount came from.
+
+export interface InvoiceOptions {
+  from: string;
+  to: string;
+  groupBy: InvoiceGrouping;
+  dueDate?: string | null;
+  notes?: string;
+}
+
+export interface InvoicePreview {
+  lines: IInvoiceLine[];
+  total: number;
+  currency: string;
+  entryCount: number;
+}
+
+interface DatedEntry {
+  date: string;
+  entry: ILogEntry;
+}
+
+// The fields an invoice line is built from
+export const INVOICED_FIELDS = ['startTime', 'endTime', 'billable', 'hourlyRate', 'projectId'] as const;
+
+type InvoicedFields = Partial<Record<typeof INVOICED_FIELDS[number], unknown>>;
+
+// Whether the updates change what the entry was billed for. Fields left out
+// of the updates are unchanged; times are compared as instants.
+export function changesInvoicedFields(entry: ILogEntry, updates: InvoicedFields, timeZone: string): boolean {
+  return INVOICED_FIELDS.some((field) => {
+    const value = updates[field];
+    if (value === undefined) return false;
+
+    switch (field) {
+      case 'startTime':
+      case 'endTime':
+        return parseEntryTime(String(value), timeZone).getTime() !== parseEntryTime(entry[field], timeZone).getTime();
+      case 'projectId':
+        return String(value || null) !== String(entry.projectId || null);
+      case 'hourlyRate':
+        return (value ?? null) !== (entry.hourlyRate ?? null);
+      default:
+        return !!value !== !!entry.billable;
+    }
+  });
+}
+
+// Prepares a client's replacement for a day's entries. Clients never set
+// invoiceId; invoiced entries keep theirs if they come back unchanged, matched
+// by _id. `invoiced` is the first invoiced entry that was dropped or changed.
+export function keepInvoicedEntries(
+  current: ILogEntry[],
+  incoming: Record<string, unknown>[],
+  timeZone: string
+): { entries: Record<string, unknown>[]; invoiced: ILogEntry | null } {
+  const entries = incoming.map(({ invoiceId, ...entry }) => entry);
+  let invoiced: ILogEntry | null = null;
+
+  current.forEach((entry) => {
+    if (!entry.invoiceId || invoiced) return;
+
+    const id = String((entry as ILogEntry & { _id?: unknown })._id);
+    const replacement = entries.filter((candidate) => candidate._id !== undefined && String(candidate._id) === id)[0];
+    // Omitted fields are stored with their defaults
+    const isChanged = !replacement || changesInvoicedFields(entry, {
+      ...replacement,
+      billable: replacement.billable ?? false,
+      hourlyRate: replacement.hourlyRate ?? null,
+      projectId: replacement.projectId ?? null,
+    }, timeZone);
+
+    if (isChanged) {
+      invoiced = entry;
+    } else {
+      replacement.invoiceId = entry.invoiceId;
+    }
+  });
+
+  return { entries, invoiced };
+}
+
+export function invoicedEntryResponse(entry: ILogEntry & { _id?: unknown }) {
+  return NextResponse.json(
+    {
+      error: 'This entry is on an invoice. Void the invoice before changing its time, billable flag, rate or project, or deleting it.',
+      entry: { _id: entry._id, invoiceId: entry.invoiceId },
+    },
+    { status: 409 }
+  );
+}
+
+// The client's projects the user can see, including shared workspace projects
+async function findClientProjects(userId: string, clientId: mongoose.Types.ObjectId): Promise<IProject[]> {
+  return Project.find({ clientId, ...(await projectAccessFilter(userId)) }).select('name hourlyRate');
+}
+
+// Billable entries on the projects that belong to `invoiceId`; null finds the uninvoiced ones
+async function findBillableEntries(
+  userId: string,
+  projectIds: mongoose.Types.ObjectId[],
+  options: { from: string; to: string },
+  invoiceId: mongoose.Types.ObjectId | null
+): Promise<DatedEntry[]> {
+  const match = { projectId: { $in: projectIds }, billable: true, invoiceId };
+  const logs: ILog[] = await Log.find({
+    userId,
+    date: { $gte: options.from, $lte: options.to },
+    entries: { $elemMatch: match },
+  }).sort({ date: 1 });
+
+  const result: DatedEntry[] = [];
+  logs.forEach((log) => {
+    log.entries.forEach((entry) => {
+      const isMatch = entry.billable
+        && entry.projectId
+        && projectIds.some((id) => id.equals(entry.projectId!))
+        && String(entry.invoiceId || null) === String(invoiceId);
+      if (isMatch) result.push({ date: log.date, entry });
+    });
+  });
+  return result;
+}
+
+// Groups entries into lines per project, or per project and title, and rate.
+// Entries at different rates never share a line.
+export function buildInvoiceLines(
+  entries: DatedEntry[],
+  projects: IProject[],
+  defaultHourlyRate: number | null | undefined,
+  groupBy: InvoiceGrouping,
+  timeZone: string
+): IInvoiceLine[] {
+  const rated = projects.map((project) => ({ _id: String(project._id), hourlyRate: project.hourlyRate }));
+  const names: Record<string, string> = {};
+  projects.forEach((project) => {
+    names[String(project._id)] = project.name;
+  });
+
+  const groups: Record<string, { line: IInvoiceLine; ms: number }> = {};
+  const order: string[] = [];
+
+  entries.forEach(({ entry }) => {
+    const projectId = String(entry.projectId);
+    const rate = getEntryRate({ ...entry, projectId }, rated, defaultHourlyRate);
+    const title = entry.title.trim();
+    const key = groupBy === 'task'
+      ? `${projectId}|${rate}|${title.toLowerCase()}`
+      : `${projectId}|${rate}`;
+
+    if (!groups[key]) {
+      groups[key] = {
+        line: {
+          description: groupBy === 'task' ? `${names[projectId]}: ${title}` : names[projectId],
+          projectId: entry.projectId,
+          entryCount: 0,
+          hours: 0,
+          rate,
+          amount: 0,
+        },
+        ms: 0,
+      };
+      order.push(key);
+    }
+
+    const ms = parseEntryTime(entry.endTime, timeZone).getTime() - parseEntryTime(entry.startTime, timeZone).getTime();
+    groups[key].ms += Math.max(0, ms);
+    groups[key].line.entryCount += 1;
+  });
+
+  return order
+    .map((key) => {
+      const { line, ms } = groups[key];
+      const hours = ms / 3600000;
+      return { ...line, hours: roundMoney(hours), amount: roundMoney(hours * line.rate) };
+    })
+    .sort((a, b) => a.description.localeCompare(b.description) || b.rate - a.rate);
+}
+
+function sumLines(lines: IInvoiceLine[]): number {
+  return roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+}
+
+// What an invoice would contain, without claiming anything
+export async function previewInvoice(userId: string, client: IClient, options: InvoiceOptions): Promise<InvoicePreview | null> {
+  const user = await User.findById(userId).select('timezone currency defaultHourlyRate');
+  if (!user) return null;
+
+  const projects = await findClientProjects(userId, client._id as mongoose.Types.ObjectId);
+  const entries = await findBillableEntries(userId, projects.map((project) => project._id as mongoose.Types.ObjectId), options, null);
+  const lines = buildInvoiceLines(entries, projects, user.defaultHourlyRate, options.groupBy, user.timezone || DEFAULT_TIME_ZONE);
+
+  return { lines, total: sumLines(lines), currency: user.currency || 'USD', entryCount: entries.length };
+}
+
+// Releases the entries an invoice claimed so they can be billed again
+export async function releaseInvoiceEntries(userId: string, invoiceId: mongoose.Types.ObjectId) {
+  await Log.updateMany(
+    { userId, 'entries.invoiceId': invoiceId },
+    { $set: { 'entries.$[entry].invoiceId': null }, $inc: { version: 1 } },
+    { arrayFilters: [{ 'entry.invoiceId': invoiceId }] }
+  );
+}
+
+// Null when there is nothing left to bill in the range
+export async function createInvoice(userId: string, client: IClient, options: InvoiceOptions): Promise<IInvoice | null> {
+  const projects = await findClientProjects(userId, client._id as mongoose.Types.ObjectId);
+  const projectIds = projects.map((project) => project._id as mongoose.Types.ObjectId);
+  const invoiceId = new mongoose.Types.ObjectId();
+
+  await Log.updateMany(
+    {
+      userId,
+      date: { $gte: options.from, $lte: options.to },
+      entries: { $elemMatch: { projectId: { $in: projectIds }, billable: true, invoiceId: null } },
+    },
+    { $set: { 'entries.$[entry].invoiceId': invoiceId }, $inc: { version: 1 } },
+    { arrayFilters: [{ 'entry.projectId': { $in: projectIds }, 'entry.billable': true, 'entry.invoiceId': null }] }
+  );
+
+  const entries = await findBillableEntries(userId, projectIds, options, invoiceId);
+  if (entries.length === 0) return null;
+
+  try {
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { $inc: { invoiceCounter: 1 } },
+      { new: true }
+    ).select('name email timezone currency defaultHourlyRate invoiceCounter');
+    if (!user) throw new Error('User not found');
+
+    const timeZone = user.timezone || DEFAULT_TIME_ZONE;
+    const lines = buildInvoiceLines(entries, projects, user.defaultHourlyRate, options.groupBy, timeZone);
+
+    return await Invoice.create({
+      _id: invoiceId,
+      userId,
+      clientId: client._id,
+      number: formatInvoiceNumber(user.invoiceCounter),
+      issuer: { name: user.name, email: user.email },
+      billTo: { name: client.name, email: client.email || null },
+      issueDate: todayInTimeZone(timeZone),
+      dueDate: options.dueDate || null,
+      from: options.from,
+      to: options.to,
+      groupBy: options.groupBy,
+      currency: user.currency || 'USD',
+      lines,
+      total: sumLines(lines),
+      notes: options.notes || '',
+    });
+  } catch (error) {
+    // Leave nothing claimed by an invoice that doesn't exist
+    await releaseInvoiceEntries(userId, invoiceId);
+    throw error;
+  }
+}
@@ -0,0 +1,52 @@
+import mongoose from 'mongoose';
+import User, { IUser } from '@/lib/models/User';
+import { encryptSecret, isEncrypted } from '@/lib/encryption';
+
+// Credentials saved before encryption was introduced are still plain text:
+// Google tokens and CalDAV passwords on the user, and the OAuth tokens
+// NextAuth's adapter kept in `accounts` before lib/auth stopped passing them
+// on. They are encrypted (or, in `accounts`, removed) once at startup and
+// again whenever one is read, so decryptSecret's plain-text fallback only
+// bridges the time until then.
+
+const PLAIN_TEXT = { $type: 'string', $not: /^v1:/ };
+
+// Encrypts whichever of the user's loaded credentials are still plain text
+export async function encryptPlainTextSecrets(user: IUser): Promise<void> {
+  const $set: Record<string, string> = {};
+  const tokens = user.googleAuthTokens;
+
+  if (tokens?.accessToken && !isEncrypted(tokens.accessToken)) {
+    $set['googleAuthTokens.accessToken'] = encryptSecret(tokens.accessToken);
+  }
+  if (tokens?.refreshToken && !isEncrypted(tokens.refreshToken)) {
+    $set['googleAuthTokens.refreshToken'] = encryptSecret(tokens.refreshToken);
+  }
+  if (user.caldavAccount?.password && !isEncrypted(user.caldavAccount.password)) {
+    $set['caldavAccount.password'] = encryptSecret(user.caldavAccount.password);
+  }
+
+  if (Object.keys($set).length > 0) {
+    await User.updateOne({ _id: user._id }, { $set });
+  }
+}
+
+// Every user's, once connected to the database
+export async function encryptLegacySecrets(): Promise<void> {
+  await mongoose.connection.collection('accounts').updateMany(
+    { $or: [{ access_token: { $exists: true } }, { refresh_token: { $exists: true } }, { id_token: { $exists: true } }] },
+    { $unset: { access_token: '', refresh_token: '', id_token: '' } }
+  );
+
+  const users: IUser[] = await User.find({
+    $or: [
+      { 'googleAuthTokens.accessToken': PLAIN_TEXT },
+      { 'googleAuthTokens.refreshToken': PLAIN_TEXT },
+      { 'caldavAccount.password': PLAIN_TEXT },
+    ],
+  }).select('googleAuthTokens +caldavAccount.password');
+
+  for (const user of users) {
+    await encryptPlainTextSecrets(user);
+  }
+}
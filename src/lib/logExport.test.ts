@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import { describe, expect, it, vi } from 'vitest';
+
+const DAYS = 100;
+
+const state = vi.hoisted(() => ({ reads: 0 }));
+
+vi.mock('@/lib/models/Log', () => ({
+  default: {
+    find: () => ({
+      select: () => ({
+        sort: () => ({
+          lean: () => ({
+            cursor: () => ({
+              next: async () => {
+                await new Promise((resolve) => setImmediate(resolve)); // A round trip to the database
+                if (state.reads === DAYS) return null;
+                const date = new Date(Date.UTC(2024, 0, 1) + state.reads++ * 86400000).toISOString().slice(0, 10);
+                // Random text, so the workbook's zip can't compress it away
+                return {
+                  date,
+                  entries: Array.from({ length: 10 }, (_, hour) => ({
+                    type: 'manual',
+                    startTime: `${date}T${String(hour).padStart(2, '0')}:00:00.000Z`,
+                    endTime: `${date}T${String(hour).padStart(2, '0')}:30:00.000Z`,
+                    title: 'Work',
+                    description: crypto.randomBytes(1000).toString('hex'),
+                    tags: [],
+                  })),
+                };
+              },
+              close: async () => {},
+            }),
+          }),
+        }),
+      }),
+    }),
+  },
+}));
+
+vi.mock('@/lib/models/Project', () => ({
+  default: { find: () => ({ select: async () => [] }) },
+}));
+
+vi.mock('@/lib/workspaces', () => ({
+  projectAccessFilter: async () => ({}),
+}));
+
+import { createLogExportStream } from '@/lib/logExport';
+
+describe('createLogExportStream', () => {
+  it('stops reading logs while an Excel download is not being read', async () => {
+    const stream = await createLogExportStream('user-1', {}, 'xlsx', 'UTC');
+
+    // Until the export stops reading or has read everything
+    let reads = -1;
+    while (state.reads !== reads && state.reads < DAYS) {
+      reads = state.reads;
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+
+    expect(state.reads).toBeLessThan(DAYS);
+
+    let size = 0;
+    const reader = stream.getReader();
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.length;
+    }
+
+    expect(state.reads).toBe(DAYS);
+    expect(size).toBeGreaterThan(DAYS * 10 * 1000);
+  });
+});
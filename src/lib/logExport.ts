@@ -0,0 +1,186 @@
+import { PassThrough, Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import Log, { ILogEntry } from '@/lib/models/Log';
+import Project, { IProject } from '@/lib/models/Project';
+import { matchesTags } from '@/lib/tags';
+import { projectAccessFilter } from '@/lib/workspaces';
+import {
+  EXPORT_COLUMNS,
+  ExportFormat,
+  sortEntriesByStart,
+  toCsvLine,
+  toExportRow,
+  toTsvLine,
+} from '@/utils/exportRows';
+
+// Streams the user's entries in a date range as CSV, TSV, JSON or Excel. Logs
+// are read one day at a time through a cursor, so exporting years of history
+// never holds more than a day in memory.
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export interface ExportQuery {
+  from?: string; // Open ranges cover the user's whole history
+  to?: string;
+  tags?: string[]; // Entries with at least one of these tags
+}
+
+interface LeanLog {
+  date: string;
+  entries: ILogEntry[];
+}
+
+// Returns the next day's rows on each call, oldest day first, and null at the end
+async function openRowReader(userId: string, query: ExportQuery, timeZone: string) {
+  const projects: IProject[] = await Project.find(await projectAccessFilter(userId)).select('name');
+  const projectNames: Record<string, string> = {};
+  projects.forEach((project) => {
+    projectNames[String(project._id)] = project.name;
+  });
+
+  const date: Record<string, string> = {};
+  if (query.from) date.$gte = query.from;
+  if (query.to) date.$lte = query.to;
+
+  const cursor = Log.find({ userId, ...(Object.keys(date).length > 0 ? { date } : {}) })
+    .select('date entries')
+    .sort({ date: 1 })
+    .lean<LeanLog[]>()
+    .cursor();
+
+  const tags = query.tags || [];
+  const rowsOf = (log: LeanLog): string[][] => {
+    const entries = log.entries.filter((entry) => matchesTags(entry.tags, tags));
+
+    return sortEntriesByStart(entries, timeZone).map((entry) => toExportRow(
+      log.date,
+      entry,
+      entry.projectId ? projectNames[String(entry.projectId)] || '' : '',
+      timeZone
+    ));
+  };
+
+  return {
+    async next(): Promise<string[][] | null> {
+      const log = (await cursor.next()) as LeanLog | null;
+      return log ? rowsOf(log) : null;
+    },
+    close: () => cursor.close(),
+  };
+}
+
+function createTextStream(
+  reader: Awaited<ReturnType<typeof openRowReader>>,
+  format: Exclude<ExportFormat, 'xlsx'>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let isFirstRow = true;
+
+  const formatRow = (row: string[]): string => {
+    if (format === 'csv') return `${toCsvLine(row)}\n`;
+    if (format === 'tsv') return `${toTsvLine(row)}\n`;
+
+    const record: Record<string, string> = {};
+    EXPORT_COLUMNS.forEach((column, index) => {
+      record[column] = row[index];
+    });
+    const separator = isFirstRow ? '\n' : ',\n';
+    isFirstRow = false;
+    return `${separator}  ${JSON.stringify(record)}`;
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const header = format === 'json'
+        ? '['
+        : `${format === 'csv' ? toCsvLine(EXPORT_COLUMNS.slice()) : toTsvLine(EXPORT_COLUMNS.slice())}\n`;
+      controller.enqueue(encoder.encode(header));
+    },
+    // One day per pull, so a slow download slows the database reads down too
+    async pull(controller) {
+      try {
+        const rows = await reader.next();
+        if (rows === null) {
+          if (format === 'json') controller.enqueue(encoder.encode(isFirstRow ? ']\n' : '\n]\n'));
+          controller.close();
+          return;
+        }
+        if (rows.length > 0) controller.enqueue(encoder.encode(rows.map(formatRow).join('')));
+      } catch (error) {
+        console.error('Error streaming export:', error);
+        controller.error(error);
+        await reader.close();
+      }
+    },
+    async cancel() {
+      await reader.close();
+    },
+  });
+}
+
+// Resolves once the stream wants more data, or is gone
+function waitForDrain(stream: PassThrough): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      stream.off('drain', done);
+      stream.off('close', done);
+      resolve();
+    };
+    stream.on('drain', done);
+    stream.on('close', done);
+  });
+}
+
+function createXlsxStream(reader: Awaited<ReturnType<typeof openRowReader>>): ReadableStream<Uint8Array> {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+  const sheet = workbook.addWorksheet('Time Log');
+  sheet.columns = EXPORT_COLUMNS.map((column) => ({
+    header: column,
+    key: column,
+    width: column === 'Title' || column === 'Description' ? 40 : 14,
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  const write = async () => {
+    let rows: string[][] | null;
+    while ((rows = await reader.next()) !== null) {
+      rows.forEach((row) => sheet.addRow(row).commit());
+
+      // The workbook writes into `output` as it goes; wait for the download to
+      // catch up before reading the next day, like the text formats' pull()
+      while (output.writableNeedDrain && !output.destroyed) {
+        await waitForDrain(output);
+      }
+      if (output.destroyed) {
+        await reader.close();
+        return;
+      }
+    }
+    sheet.commit();
+    await workbook.commit();
+  };
+
+  write().catch(async (error) => {
+    console.error('Error streaming export:', error);
+    output.destroy(error);
+    await reader.close();
+  });
+
+  return Readable.toWeb(output) as unknown as ReadableStream<Uint8Array>;
+}
+
+export async function createLogExportStream(
+  userId: string,
+  query: ExportQuery,
+  format: ExportFormat,
+  timeZone: string
+): Promise<ReadableStream<Uint8Array>> {
+  const reader = await openRowReader(userId, query, timeZone);
+  return format === 'xlsx' ? createXlsxStream(reader) : createTextStream(reader, format);
+}
@@ -0,0 +1,335 @@
+import mongoose from 'mongoose';
+import { zonedTimeToUtc } from 'date-fns-tz';
+import Log, { ILog, ILogEntry } from '@/lib/models/Log';
+import Project, { IProject } from '@/lib/models/Project';
+import Client, { IClient } from '@/lib/models/Client';
+import { ensureTags } from '@/lib/tags';
+import { findLockedDates } from '@/lib/timesheetApproval';
+import { parseEntryTime, toDateKey } from '@/utils/timezone';
+
+// Shared pipeline for file imports. Importers turn each row of a file into a
+// candidate entry (or errors); planImport then checks the candidates against
+// the user's existing entries and each other, and commitImport writes the new
+// ones in a single transaction so an import lands completely or not at all.
+
+export interface ImportedEntry {
+  type: 'manual' | 'calendar';
+  startTime: string; // ISO string
+  endTime: string;
+  title: string;
+  description: string;
+  tags: string[];
+  billable: boolean;
+  projectId?: string | null;
+  // Project and client in the other tracker, matched by name or created on commit
+  projectName?: string | null;
+  clientName?: string | null;
+  sourceId?: string; // Id in the other tracker, so re-imports are recognised
+  calendarId?: string; // Set with sourceId so calendar syncs leave the entry alone
+}
+
+export interface ImportCandidate {
+  row: number; // Record number in a CSV file (the header is 1) or position in a JSON list
+  entry: ImportedEntry | null; // null when the row has errors
+  errors: string[];
+  warnings?: string[]; // Data that was dropped from an otherwise imported row
+}
+
+export interface ImportRowResult {
+  row: number;
+  status: 'new' | 'duplicate' | 'error';
+  date: string | null;
+  entry: ImportedEntry | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportPlan {
+  rows: ImportRowResult[];
+  summary: { rows: number; new: number; duplicates: number; errors: number };
+  newProjects: string[]; // Project names the commit will create
+}
+
+// Rows per import, which keeps the commit transaction small
+export const MAX_IMPORT_ROWS = 10000;
+
+// Row results returned to the client; the summary still counts every row
+export const MAX_PREVIEW_ROWS = 500;
+
+// Same start, end and title means the same work, whatever else differs
+function duplicateKey(entry: Pick<ILogEntry, 'startTime' | 'endTime' | 'title'>, timeZone: string): string {
+  return [
+    parseEntryTime(entry.startTime, timeZone).getTime(),
+    parseEntryTime(entry.endTime, timeZone).getTime(),
+    entry.title.trim().toLowerCase(),
+  ].join('|');
+}
+
+export async function planImport(
+  userId: string,
+  candidates: ImportCandidate[],
+  timeZone: string,
+  session?: mongoose.ClientSession
+): Promise<ImportPlan> {
+  const dateOf = (entry: ImportedEntry) => toDateKey(parseEntryTime(entry.startTime, timeZone), timeZone);
+  const dates = candidates
+    .filter((candidate) => candidate.entry)
+    .map((candidate) => dateOf(candidate.entry!))
+    .filter((date, index, all) => all.indexOf(date) === index);
+  const sourceIds = candidates
+    .filter((candidate) => candidate.entry && candidate.entry.sourceId)
+    .map((candidate) => candidate.entry!.sourceId!);
+
+  const logs: ILog[] = await Log.find({
+    userId,
+    $or: [{ date: { $in: dates } }, { 'entries.sourceId': { $in: sourceIds } }],
+  }).session(session || null);
+
+  const projects: IProject[] = await Project.find({ userId }).select('name').session(session || null);
+  const projectNames = projects.map((project) => project.name.toLowerCase());
+  const lockedDates = await findLockedDates(userId, dates, session);
+
+  const seen: Record<string, boolean> = {};
+  logs.forEach((log) => {
+    log.entries.forEach((entry) => {
+      seen[duplicateKey(entry, timeZone)] = true;
+      if (entry.sourceId) seen[`source:${entry.sourceId}`] = true;
+    });
+  });
+
+  const plan: ImportPlan = {
+    rows: [],
+    summary: { rows: candidates.length, new: 0, duplicates: 0, errors: 0 },
+    newProjects: [],
+  };
+
+  candidates.forEach(({ row, entry, errors, warnings = [] }) => {
+    if (!entry || errors.length > 0) {
+      plan.rows.push({ row, status: 'error', date: null, entry: null, errors, warnings });
+      plan.summary.errors++;
+      return;
+    }
+
+    // Days in a submitted or approved week can't change, so their rows can only be skipped
+    const date = dateOf(entry);
+    if (lockedDates.indexOf(date) !== -1) {
+      const error = `${date} is in a week whose timesheet is submitted or approved`;
+      plan.rows.push({ row, status: 'error', date, entry: null, errors: [error], warnings });
+      plan.summary.errors++;
+      return;
+    }
+
+    const keys = [duplicateKey(entry, timeZone)].concat(entry.sourceId ? [`source:${entry.sourceId}`] : []);
+    const isDuplicate = keys.some((key) => seen[key]);
+    keys.forEach((key) => {
+      seen[key] = true;
+    });
+
+    plan.rows.push({ row, status: isDuplicate ? 'duplicate' : 'new', date, entry, errors: [], warnings });
+    if (isDuplicate) {
+      plan.summary.duplicates++;
+      return;
+    }
+
+    plan.summary.new++;
+    const projectName = entry.projectName && entry.projectName.toLowerCase();
+    if (projectName && projectNames.indexOf(projectName) === -1) {
+      projectNames.push(projectName);
+      plan.newProjects.push(entry.projectName!);
+    }
+  });
+
+  return plan;
+}
+
+// Ids of the projects named by the plan's new rows, keyed by lowercase name.
+// Missing projects are created, under their client when one is named.
+async function resolveProjects(
+  userId: string,
+  plan: ImportPlan,
+  session: mongoose.ClientSession
+): Promise<Record<string, string>> {
+  const named = plan.rows.filter((row) => row.status === 'new' && row.entry && row.entry.projectName);
+  if (named.length === 0) return {};
+
+  // Sequential, as operations in a transaction can't run in parallel
+  const projects: IProject[] = await Project.find({ userId }).session(session);
+  const clients: IClient[] = await Client.find({ userId }).session(session);
+  const projectIds: Record<string, string> = {};
+  const clientIds: Record<string, string> = {};
+  projects.forEach((project) => {
+    projectIds[project.name.toLowerCase()] = String(project._id);
+  });
+  clients.forEach((client) => {
+    clientIds[client.name.toLowerCase()] = String(client._id);
+  });
+
+  for (const { entry } of named) {
+    const projectKey = entry!.projectName!.toLowerCase();
+    if (projectIds[projectKey]) continue;
+
+    const clientName = entry!.clientName;
+    let clientId: string | null = null;
+    if (clientName) {
+      const clientKey = clientName.toLowerCase();
+      if (!clientIds[clientKey]) {
+        const [client] = await Client.create([{ userId, name: clientName }], { session });
+        clientIds[clientKey] = String(client._id);
+      }
+      clientId = clientIds[clientKey];
+    }
+
+    const [project] = await Project.create([{ userId, name: entry!.projectName, clientId }], { session });
+    projectIds[projectKey] = String(project._id);
+  }
+
+  return projectIds;
+}
+
+// Writes every new row of the plan, re-checked inside the transaction so a
+// concurrent import can't slip duplicates in. Requires a replica set.
+export async function commitImport(
+  userId: string,
+  candidates: ImportCandidate[],
+  timeZone: string
+): Promise<ImportPlan & { dates: string[] }> {
+  const session = await mongoose.startSession();
+  let result: ImportPlan & { dates: string[] } = {
+    rows: [],
+    summary: { rows: 0, new: 0, duplicates: 0, errors: 0 },
+    newProjects: [],
+    dates: [],
+  };
+
+  try {
+    await session.withTransaction(async () => {
+      const plan = await planImport(userId, candidates, timeZone, session);
+      const projectIds = await resolveProjects(userId, plan, session);
+      const entriesByDate: Record<string, ImportedEntry[]> = {};
+
+      plan.rows.forEach(({ status, date, entry }) => {
+        if (status !== 'new' || !date || !entry) return;
+
+        const { projectName, clientName, ...stored } = entry;
+        if (projectName) stored.projectId = projectIds[projectName.toLowerCase()];
+        (entriesByDate[date] = entriesByDate[date] || []).push(stored);
+      });
+
+      const dates = Object.keys(entriesByDate).sort();
+      if (dates.length > 0) {
+        await Log.bulkWrite(dates.map((date) => ({
+          updateOne: {
+            filter: { userId, date },
+            update: {
+              $push: { entries: { $each: entriesByDate[date] } },
+              $inc: { version: 1 },
+              $setOnInsert: { userId, date },
+            },
+            upsert: true,
+          },
+        })), { session });
+      }
+
+      result = { ...plan, dates };
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  const tags = result.rows
+    .filter((row) => row.status === 'new' && row.entry)
+    .reduce<string[]>((all, row) => all.concat(row.entry!.tags), []);
+  await ensureTags(userId, tags.filter((tag, index) => tags.indexOf(tag) === index));
+
+  return result;
+}
+
+// Value parsers shared by the importers. They return null for values they
+// can't read, so importers can report the column.
+
+// YYYY-MM-DD, YYYY/MM/DD, MM/DD/YYYY (US style, as Toggl and Clockify export
+// it) or DD.MM.YYYY
+export function parseDateValue(value: string): string | null {
+  const trimmed = value.trim();
+  let match = trimmed.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  let parts: [string, string, string] | null = match ? [match[1], match[2], match[3]] : null;
+
+  if (!parts && (match = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/))) {
+    parts = [match[3], match[1], match[2]];
+  }
+  if (!parts && (match = trimmed.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/))) {
+    parts = [match[3], match[2], match[1]];
+  }
+  if (!parts) return null;
+
+  const [year, month, day] = parts;
+  const date = `${year}-${`0${month}`.slice(-2)}-${`0${day}`.slice(-2)}`;
+  const check = new Date(`${date}T00:00:00Z`);
+
+  return !isNaN(check.getTime()) && check.toISOString().slice(0, 10) === date ? date : null;
+}
+
+// "14:05", "14:05:30", "2:05 PM" or "2:05pm" as "HH:mm:ss"
+export function parseTimeOfDay(value: string): string | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?m\.?)?$/i);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const seconds = Number(match[3] || 0);
+  const meridiem = match[4] ? match[4].charAt(0).toLowerCase() : null;
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  return [hours, minutes, seconds].map((part) => `0${part}`.slice(-2)).join(':');
+}
+
+// A full date and time ("2024-03-01T09:00:00Z", "2024-03-01 09:00"), or null
+// when the value is only a time of day
+export function parseDateTimeValue(value: string, timeZone: string): Date | null {
+  const trimmed = value.trim();
+  if (!/^\d{4}-\d{2}-\d{2}[T ]\d{1,2}:\d{2}/.test(trimmed)) return null;
+
+  const instant = parseEntryTime(trimmed.replace(' ', 'T'), timeZone);
+  return isNaN(instant.getTime()) ? null : instant;
+}
+
+// A date plus a time of day in the user's zone
+export function combineDateAndTime(date: string, time: string, timeZone: string): Date {
+  return zonedTimeToUtc(`${date}T${time}`, timeZone);
+}
+
+// Durations in milliseconds: "1h 30m" (our own export), "1:30" or "01:30:00",
+// and decimal hours such as "1.5" or "1,5"
+export function parseDuration(value: string): number | null {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  let match = trimmed.match(/^(?:(\d+)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?\s*(?:(\d+)\s*s)?$/);
+  if (match && (match[1] || match[2] || match[3])) {
+    return ((Number(match[1] || 0) * 60 + Number(match[2] || 0)) * 60 + Number(match[3] || 0)) * 1000;
+  }
+
+  match = trimmed.match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (match) {
+    return ((Number(match[1]) * 60 + Number(match[2])) * 60 + Number(match[3] || 0)) * 1000;
+  }
+
+  if (/^\d+([.,]\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed.replace(',', '.')) * 3600000);
+  }
+
+  return null;
+}
+
+// "yes"/"no", "true"/"false", "1"/"0"; null for anything else
+export function parseBooleanValue(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (['yes', 'y', 'true', '1', 'billable'].indexOf(normalized) !== -1) return true;
+  if (['no', 'n', 'false', '0', '', 'non-billable'].indexOf(normalized) !== -1) return false;
+  return null;
+}
@@ -0,0 +1,189 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+import Log, { ILogEntry } from '@/lib/models/Log';
+import { OFFSET_PATTERN } from '@/utils/timezone';
+
+export type SummaryGroupBy = 'day' | 'week' | 'month';
+
+export interface DayLogResult {
+  date: string;
+  entries: ILogEntry[];
+  version: number;
+}
+
+// Every YYYY-MM-DD date between from and to (inclusive), newest first
+export function listDates(from: string, to: string): string[] {
+  return eachDayOfInterval({ start: parseISO(from), end: parseISO(to) })
+    .map((day) => format(day, 'yyyy-MM-dd'))
+    .reverse();
+}
+
+// Loads a date range with a single query on the { userId, date } index and
+// fills in days without a log so the client always gets one row per day
+export async function findLogsInRange(userId: string, from: string, to: string): Promise<DayLogResult[]> {
+  const logs = await Log.find({
+    userId,
+    date: { $gte: from, $lte: to },
+  }).sort({ date: -1 });
+
+  const logsByDate = logs.reduce((acc: Record<string, DayLogResult>, log: DayLogResult) => {
+    acc[log.date] = log;
+    return acc;
+  }, {});
+
+  return listDates(from, to).map((date) => ({
+    date,
+    entries: logsByDate[date]?.entries || [],
+    version: logsByDate[date]?.version || 0,
+  }));
+}
+
+export const periodKeys: Record<SummaryGroupBy, unknown> = {
+  day: '$date',
+  // ISO week, e.g. 2024-W05
+  week: {
+    $dateToString: { format: '%G-W%V', date: { $dateFromString: { dateString: '$date' } } },
+  },
+  month: { $substrBytes: ['$date', 0, 7] },
+};
+
+// Parses an entry time field into a date. Naive entry times are wall-clock
+// values in the user's zone, which keeps durations right across DST changes.
+// MongoDB rejects a timezone for strings that already carry an offset, so
+// those are parsed as-is. Date-only values become midnight in the user's zone.
+export function parseTimeExpression(field: string, timeZone: string) {
+  return {
+    $cond: [
+      { $regexMatch: { input: field, regex: OFFSET_PATTERN } },
+      { $dateFromString: { dateString: field, onError: null, onNull: null } },
+      { $dateFromString: { dateString: field, timezone: timeZone, onError: null, onNull: null } },
+    ],
+  };
+}
+
+// Total length of a list of { start, end } intervals sorted by start, counting
+// overlaps once. Empty and unparseable intervals are skipped.
+export function unionDurationExpression(intervals: string) {
+  return {
+    $let: {
+      vars: {
+        merged: {
+          $reduce: {
+            input: {
+              $filter: {
+                input: intervals,
+                cond: {
+                  $and: [{ $ne: ['$$this.start', null] }, { $gt: ['$$this.end', '$$this.start'] }],
+                },
+              },
+            },
+            initialValue: { end: null, total: 0 },
+            in: {
+              $cond: [
+                { $or: [{ $eq: ['$$value.end', null] }, { $gte: ['$$this.start', '$$value.end'] }] },
+                {
+                  end: '$$this.end',
+                  total: { $add: ['$$value.total', { $subtract: ['$$this.end', '$$this.start'] }] },
+                },
+                {
+                  $cond: [
+                    { $gt: ['$$this.end', '$$value.end'] },
+                    {
+                      end: '$$this.end',
+                      total: { $add: ['$$value.total', { $subtract: ['$$this.end', '$$value.end'] }] },
+                    },
+                    '$$value',
+                  ],
+                },
+              ],
+            },
+          },
+        },
+      },
+      in: '$$merged.total',
+    },
+  };
+}
+
+// Per-period totals computed in MongoDB so entries never leave the database.
+// totalMs is the union of each day's entries; the per-type splits are plain sums.
+export function buildSummaryPipeline(
+  userId: string,
+  from: string,
+  to: string,
+  groupBy: SummaryGroupBy,
+  timeZone: string
+): PipelineStage[] {
+  return [
+    {
+      $match: {
+        userId: new mongoose.Types.ObjectId(userId),
+        date: { $gte: from, $lte: to },
+      },
+    },
+    { $unwind: '$entries' },
+    {
+      $addFields: {
+        startAt: parseTimeExpression('$entries.startTime', timeZone),
+        endAt: parseTimeExpression('$entries.endTime', timeZone),
+      },
+    },
+    {
+      $addFields: {
+        durationMs: {
+          $max: [0, { $ifNull: [{ $subtract: ['$endAt', '$startAt'] }, 0] }],
+        },
+      },
+    },
+    // $push keeps this order, which the interval merge below relies on
+    { $sort: { date: 1, startAt: 1 } },
+    {
+      $group: {
+        _id: '$date',
+        intervals: { $push: { start: '$startAt', end: '$endAt' } },
+        rawTotalMs: { $sum: '$durationMs' },
+        billableMs: { $sum: { $cond: ['$entries.billable', '$durationMs', 0] } },
+        manualMs: { $sum: { $cond: [{ $eq: ['$entries.type', 'manual'] }, '$durationMs', 0] } },
+        calendarMs: { $sum: { $cond: [{ $eq: ['$entries.type', 'calendar'] }, '$durationMs', 0] } },
+        entryCount: { $sum: 1 },
+      },
+    },
+    // Union of the day's intervals, so overlapping entries are only counted once
+    {
+      $addFields: {
+        date: '$_id',
+        trackedMs: unionDurationExpression('$intervals'),
+      },
+    },
+    {
+      $group: {
+        _id: periodKeys[groupBy],
+        totalMs: { $sum: '$trackedMs' },
+        rawTotalMs: { $sum: '$rawTotalMs' },
+        billableMs: { $sum: '$billableMs' },
+        manualMs: { $sum: '$manualMs' },
+        calendarMs: { $sum: '$calendarMs' },
+        entryCount: { $sum: '$entryCount' },
+        daysTracked: { $sum: 1 },
+        from: { $min: '$date' },
+        to: { $max: '$date' },
+      },
+    },
+    {
+      $project: {
+        _id: 0,
+        period: '$_id',
+        from: 1,
+        to: 1,
+        totalMs: 1,
+        overlapMs: { $subtract: ['$rawTotalMs', '$totalMs'] },
+        billableMs: 1,
+        manualMs: 1,
+        calendarMs: 1,
+        entryCount: 1,
+        daysTracked: 1,
+      },
+    },
+    { $sort: { period: 1 } },
+  ];
+}
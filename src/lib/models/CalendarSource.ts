@@ -0,0 +1,102 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Which events of a calendar become log entries, and what they start out with
+export interface ICalendarRules {
+  skipAllDay: boolean;
+  skipDeclined: boolean;
+  skipTitlePattern?: string | null; // Case-insensitive wildcards, see utils/patterns
+  projectId?: mongoose.Types.ObjectId | null; // Assigned to newly imported entries
+  tags: string[];
+}
+
+export interface ICalendarSource extends Document {
+  userId: mongoose.Types.ObjectId;
+  provider: 'google' | 'caldav';
+  calendarId: string; // Provider's calendar id, e.g. "primary", an email address or a CalDAV collection URL
+  name: string;
+  enabled: boolean;
+  rules: ICalendarRules;
+  syncToken?: string | null; // Provider token for fetching only changed events
+  syncedFrom?: string | null; // YYYY-MM-DD window the token was issued for
+  syncedTo?: string | null;
+  lastSyncedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CalendarRulesSchema = new Schema<ICalendarRules>({
+  skipAllDay: {
+    type: Boolean,
+    default: false,
+  },
+  skipDeclined: {
+    type: Boolean,
+    default: false,
+  },
+  skipTitlePattern: {
+    type: String,
+    default: null,
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    default: null,
+  },
+  tags: {
+    type: [String],
+    default: [],
+  },
+}, { _id: false });
+
+const CalendarSourceSchema = new Schema<ICalendarSource>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  provider: {
+    type: String,
+    enum: ['google', 'caldav'],
+    default: 'google',
+  },
+  calendarId: {
+    type: String,
+    required: true,
+  },
+  name: {
+    type: String,
+    default: '',
+    trim: true,
+  },
+  enabled: {
+    type: Boolean,
+    default: true,
+  },
+  rules: {
+    type: CalendarRulesSchema,
+    default: () => ({}),
+  },
+  syncToken: {
+    type: String,
+    default: null,
+  },
+  syncedFrom: {
+    type: String,
+    default: null,
+  },
+  syncedTo: {
+    type: String,
+    default: null,
+  },
+  lastSyncedAt: {
+    type: Date,
+    default: null,
+  },
+}, {
+  timestamps: true,
+});
+
+// One settings document per calendar per user
+CalendarSourceSchema.index({ userId: 1, provider: 1, calendarId: 1 }, { unique: true });
+
+export default mongoose.models.CalendarSource || mongoose.model<ICalendarSource>('CalendarSource', CalendarSourceSchema);
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IClient extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  email?: string;
+  notes: string;
+  archived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ClientSchema = new Schema<IClient>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+  },
+  email: {
+    type: String,
+    lowercase: true,
+    trim: true,
+  },
+  notes: {
+    type: String,
+    default: '',
+    trim: true,
+  },
+  archived: {
+    type: Boolean,
+    default: false,
+  },
+}, {
+  timestamps: true,
+});
+
+// Client names are unique per user
+ClientSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+export default mongoose.models.Client || mongoose.model<IClient>('Client', ClientSchema);
@@ -0,0 +1,141 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { INVOICE_GROUPINGS, INVOICE_STATUSES, InvoiceGrouping, InvoiceStatus } from '@/utils/invoicing';
+
+export interface IInvoiceLine {
+  description: string;
+  projectId?: mongoose.Types.ObjectId | null;
+  entryCount: number;
+  hours: number; // Rounded to 2 decimals
+  rate: number;
+  amount: number; // Rounded to 2 decimals
+}
+
+// Names and addresses as they were when the invoice was issued
+export interface IInvoiceParty {
+  name: string;
+  email?: string | null;
+}
+
+export interface IInvoice extends Document {
+  userId: mongoose.Types.ObjectId;
+  clientId: mongoose.Types.ObjectId;
+  number: string;
+  issuer: IInvoiceParty;
+  billTo: IInvoiceParty;
+  issueDate: string; // YYYY-MM-DD in the user's time zone
+  dueDate?: string | null;
+  from: string; // Period the entries were gathered from
+  to: string;
+  groupBy: InvoiceGrouping;
+  currency: string;
+  lines: IInvoiceLine[];
+  total: number;
+  notes: string;
+  status: InvoiceStatus; // Voiding releases the entries for a new invoice
+  voidedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InvoiceLineSchema = new Schema<IInvoiceLine>({
+  description: String,
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    default: null,
+  },
+  entryCount: Number,
+  hours: Number,
+  rate: Number,
+  amount: Number,
+}, { _id: false });
+
+const InvoicePartySchema = new Schema<IInvoiceParty>({
+  name: String,
+  email: {
+    type: String,
+    default: null,
+  },
+}, { _id: false });
+
+const InvoiceSchema = new Schema<IInvoice>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Client',
+    required: true,
+  },
+  number: {
+    type: String,
+    required: true,
+  },
+  issuer: {
+    type: InvoicePartySchema,
+    required: true,
+  },
+  billTo: {
+    type: InvoicePartySchema,
+    required: true,
+  },
+  issueDate: {
+    type: String,
+    required: true,
+  },
+  dueDate: {
+    type: String,
+    default: null,
+  },
+  from: {
+    type: String,
+    required: true,
+  },
+  to: {
+    type: String,
+    required: true,
+  },
+  groupBy: {
+    type: String,
+    enum: INVOICE_GROUPINGS,
+    required: true,
+  },
+  currency: {
+    type: String,
+    required: true,
+  },
+  lines: {
+    type: [InvoiceLineSchema],
+    default: [],
+  },
+  total: {
+    type: Number,
+    required: true,
+  },
+  notes: {
+    type: String,
+    default: '',
+    trim: true,
+  },
+  status: {
+    type: String,
+    enum: INVOICE_STATUSES,
+    default: 'issued',
+  },
+  voidedAt: {
+    type: Date,
+    default: null,
+  },
+}, {
+  timestamps: true,
+});
+
+// Invoice numbers are unique per user
+InvoiceSchema.index({ userId: 1, number: 1 }, { unique: true });
+
+// Listing by client, newest first
+InvoiceSchema.index({ userId: 1, clientId: 1, createdAt: -1 });
+
+export default mongoose.models.Invoice || mongoose.model<IInvoice>('Invoice', InvoiceSchema);
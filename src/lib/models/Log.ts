@@ -1,5 +1,13 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// Event values as last received from the calendar
+export interface ISyncedSnapshot {
+  startTime: string;
+  endTime: string;
+  title: string;
+  description: string;
+}
+
 export interface ILogEntry {
   type: 'manual' | 'calendar';
   startTime: string; // ISO string
@@ -7,16 +15,32 @@ export interface ILogEntry {
   title: string;
   description: string;
   sourceId?: string; // For calendar sync reference
+  calendarId?: string; // Calendar the event was synced from; unset means "primary"
+  locallyModified: boolean; // Synced entry the user has edited
+  original?: ISyncedSnapshot | null; // Tells user edits apart from upstream changes on re-sync
+  projectId?: mongoose.Types.ObjectId | null;
+  tags: string[]; // Lowercase tag names, see Tag model
+  billable: boolean;
+  hourlyRate?: number | null; // Overrides the project/user default rate
+  invoiceId?: mongoose.Types.ObjectId | null; // Set once the entry is billed
 }
 
 export interface ILog extends Document {
   userId: mongoose.Types.ObjectId;
   date: string; // YYYY-MM-DD format
   entries: ILogEntry[];
+  version: number; // Incremented on every write, exposed as the ETag
   createdAt: Date;
   updatedAt: Date;
 }
 
+const SyncedSnapshotSchema = new Schema<ISyncedSnapshot>({
+  startTime: String,
+  endTime: String,
+  title: String,
+  description: String,
+}, { _id: false });
+
 const LogEntrySchema = new Schema<ILogEntry>({
   type: {
     type: String,
@@ -44,6 +68,40 @@ const LogEntrySchema = new Schema<ILogEntry>({
   sourceId: {
     type: String,
   },
+  calendarId: {
+    type: String,
+  },
+  locallyModified: {
+    type: Boolean,
+    default: false,
+  },
+  original: {
+    type: SyncedSnapshotSchema,
+    default: null,
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    default: null,
+  },
+  tags: {
+    type: [String],
+    default: [],
+  },
+  billable: {
+    type: Boolean,
+    default: false,
+  },
+  hourlyRate: {
+    type: Number,
+    min: 0,
+    default: null,
+  },
+  invoiceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Invoice',
+    default: null,
+  },
 });
 
 const LogSchema = new Schema<ILog>({
@@ -58,12 +116,28 @@ const LogSchema = new Schema<ILog>({
     match: /^\d{4}-\d{2}-\d{2}$/, // YYYY-MM-DD format
   },
   entries: [LogEntrySchema],
+  version: {
+    type: Number,
+    default: 0,
+  },
 }, {
   timestamps: true,
 });
 
+// Bump the version on document saves; atomic updates use $inc instead
+LogSchema.pre('save', function(next) {
+  this.version = (this.version || 0) + 1;
+  next();
+});
+
 // Compound index for efficient queries
 LogSchema.index({ userId: 1, date: 1 }, { unique: true });
 
+// Calendar sync looks up entries by their event id
+LogSchema.index({ userId: 1, 'entries.sourceId': 1 });
+
+// Voiding an invoice releases its entries
+LogSchema.index({ userId: 1, 'entries.invoiceId': 1 });
+
 export default mongoose.models.Log || mongoose.model<ILog>('Log', LogSchema);
 
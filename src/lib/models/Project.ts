@@ -0,0 +1,60 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IProject extends Document {
+  userId: mongoose.Types.ObjectId;
+  clientId?: mongoose.Types.ObjectId | null;
+  workspaceId?: mongoose.Types.ObjectId | null; // Shared with the workspace's members; userId is the creator
+  name: string;
+  color: string; // Hex color used in the UI
+  hourlyRate?: number | null; // Overrides the user's default rate
+  archived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProjectSchema = new Schema<IProject>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  clientId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Client',
+    default: null,
+  },
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    default: null,
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+  },
+  color: {
+    type: String,
+    default: '#3b82f6',
+    match: /^#[0-9a-fA-F]{6}$/,
+  },
+  hourlyRate: {
+    type: Number,
+    min: 0,
+    default: null,
+  },
+  archived: {
+    type: Boolean,
+    default: false,
+  },
+}, {
+  timestamps: true,
+});
+
+// Project names are unique per user
+ProjectSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+// Lists a workspace's projects
+ProjectSchema.index({ workspaceId: 1 });
+
+export default mongoose.models.Project || mongoose.model<IProject>('Project', ProjectSchema);
@@ -0,0 +1,79 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { REPORT_GROUPINGS, REPORT_RANGES, ReportGrouping, ReportRange } from '@/utils/reportRanges';
+
+// Same fields as ReportDefinition in lib/reports
+export interface ISavedReportDefinition {
+  range: ReportRange; // Relative ranges are resolved each time the report runs
+  from?: string | null; // Custom ranges only
+  to?: string | null;
+  groupBy: ReportGrouping;
+  projectId?: mongoose.Types.ObjectId | null;
+  tags: string[];
+}
+
+export interface ISavedReport extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  definition: ISavedReportDefinition;
+  shareVersion: number; // Share links carry this; incrementing it revokes them all
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SavedReportDefinitionSchema = new Schema<ISavedReportDefinition>({
+  range: {
+    type: String,
+    enum: REPORT_RANGES,
+    required: true,
+  },
+  from: {
+    type: String,
+    default: null,
+  },
+  to: {
+    type: String,
+    default: null,
+  },
+  groupBy: {
+    type: String,
+    enum: REPORT_GROUPINGS,
+    required: true,
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    default: null,
+  },
+  tags: {
+    type: [String],
+    default: [],
+  },
+}, { _id: false });
+
+const SavedReportSchema = new Schema<ISavedReport>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+  },
+  definition: {
+    type: SavedReportDefinitionSchema,
+    required: true,
+  },
+  shareVersion: {
+    type: Number,
+    default: 0,
+  },
+}, {
+  timestamps: true,
+});
+
+// Report names are unique per user
+SavedReportSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+export default mongoose.models.SavedReport || mongoose.model<ISavedReport>('SavedReport', SavedReportSchema);
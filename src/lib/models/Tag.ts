@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ITag extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string; // Lowercase, matches the values stored in ILogEntry.tags
+  color: string; // Hex color used in the UI
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TagSchema = new Schema<ITag>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    lowercase: true,
+  },
+  color: {
+    type: String,
+    default: '#6b7280',
+    match: /^#[0-9a-fA-F]{6}$/,
+  },
+}, {
+  timestamps: true,
+});
+
+// Tag names are unique per user
+TagSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+export default mongoose.models.Tag || mongoose.model<ITag>('Tag', TagSchema);
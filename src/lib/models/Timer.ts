@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A running timer. There is at most one per user; stopping it turns it into
+// one or more log entries (split at midnight).
+export interface ITimer extends Document {
+  userId: mongoose.Types.ObjectId;
+  startTime: Date;
+  title: string;
+  description: string;
+  projectId?: mongoose.Types.ObjectId | null;
+  tags: string[];
+  billable: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TimerSchema = new Schema<ITimer>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  startTime: {
+    type: Date,
+    required: true,
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  description: {
+    type: String,
+    default: '',
+    trim: true,
+  },
+  projectId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Project',
+    default: null,
+  },
+  tags: {
+    type: [String],
+    default: [],
+  },
+  billable: {
+    type: Boolean,
+    default: false,
+  },
+}, {
+  timestamps: true,
+});
+
+// Enforces a single running timer per user
+TimerSchema.index({ userId: 1 }, { unique: true });
+
+export default mongoose.models.Timer || mongoose.model<ITimer>('Timer', TimerSchema);
@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { TIMESHEET_STATUSES, TimesheetStatus } from '@/utils/timesheetStatus';
+
+// Day totals as they were when the timesheet was submitted; the days can't
+// change while it's under review
+export interface ITimesheetDay {
+  date: string;
+  totalMs: number;
+  billableMs: number;
+}
+
+export interface ITimesheet extends Document {
+  userId: mongoose.Types.ObjectId;
+  workspaceId: mongoose.Types.ObjectId; // Whose owners and admins approve it
+  weekStart: string; // Monday of the ISO week, YYYY-MM-DD
+  weekEnd: string; // Sunday
+  status: TimesheetStatus;
+  days: ITimesheetDay[];
+  totalMs: number;
+  billableMs: number;
+  submittedAt?: Date | null;
+  reviewedBy?: mongoose.Types.ObjectId | null;
+  reviewedAt?: Date | null;
+  comment: string; // Required when rejecting
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TimesheetDaySchema = new Schema<ITimesheetDay>({
+  date: String,
+  totalMs: Number,
+  billableMs: Number,
+}, { _id: false });
+
+const TimesheetSchema = new Schema<ITimesheet>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: true,
+  },
+  weekStart: {
+    type: String,
+    required: true,
+  },
+  weekEnd: {
+    type: String,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: TIMESHEET_STATUSES,
+    default: 'draft',
+  },
+  days: {
+    type: [TimesheetDaySchema],
+    default: [],
+  },
+  totalMs: {
+    type: Number,
+    default: 0,
+  },
+  billableMs: {
+    type: Number,
+    default: 0,
+  },
+  submittedAt: {
+    type: Date,
+    default: null,
+  },
+  reviewedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+  reviewedAt: {
+    type: Date,
+    default: null,
+  },
+  comment: {
+    type: String,
+    default: '',
+    trim: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// One timesheet per user and week
+TimesheetSchema.index({ userId: 1, weekStart: 1 }, { unique: true });
+
+// Approval queue
+TimesheetSchema.index({ workspaceId: 1, status: 1, weekStart: 1 });
+
+export default mongoose.models.Timesheet || mongoose.model<ITimesheet>('Timesheet', TimesheetSchema);
@@ -1,15 +1,45 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { isValidTimeZone } from '@/utils/timezone';
+
+// Outcome of the user's most recent calendar sync, manual or scheduled
+export interface ICalendarSyncStatus {
+  status?: 'success' | 'error' | null;
+  trigger?: 'manual' | 'scheduled' | null;
+  lastRunAt?: Date | null;
+  lastSuccessAt?: Date | null;
+  error?: string | null;
+  entriesAdded: number;
+  entriesUpdated: number;
+  entriesRemoved: number;
+  runningSince?: Date | null; // Set while a sync holds the user's lock
+}
 
 export interface IUser extends Document {
   name: string;
   email: string;
   passwordHash: string;
   googleAuthTokens?: {
-    accessToken: string;
-    refreshToken: string;
-    expiryDate: number;
+    accessToken?: string | null; // Encrypted
+    refreshToken?: string | null; // Encrypted
+    expiryDate?: number | null; // Milliseconds since epoch
+    scope?: string | null;
+    revokedAt?: Date | null; // Set when Google rejected the refresh token
   };
+  caldavAccount?: {
+    serverUrl: string; // Server root, principal or calendar home URL
+    username: string;
+    password: string; // Encrypted, not selected by default
+  } | null;
+  calendarSyncStatus: ICalendarSyncStatus;
+  defaultHourlyRate?: number | null;
+  currency: string; // ISO 4217 code used for billing amounts
+  timezone?: string | null; // IANA zone, e.g. "Europe/Berlin"; defines the user's days
+  workingHours: {
+    start: string; // HH:mm
+    end: string;
+  };
+  invoiceCounter: number; // Number of the last invoice issued
   createdAt: Date;
   updatedAt: Date;
   comparePassword(password: string): Promise<boolean>;
@@ -32,10 +62,62 @@ const UserSchema = new Schema<IUser>({
     type: String,
     required: [true, 'Password is required'],
   },
+  // Managed by lib/googleTokens; never stored in plain text
   googleAuthTokens: {
     accessToken: String,
     refreshToken: String,
     expiryDate: Number,
+    scope: String,
+    revokedAt: Date,
+  },
+  // Unset until a CalDAV server is connected
+  caldavAccount: {
+    type: new Schema({
+      serverUrl: { type: String, required: true, trim: true },
+      username: { type: String, required: true, trim: true },
+      password: { type: String, required: true, select: false },
+    }, { _id: false }),
+    default: null,
+  },
+  calendarSyncStatus: {
+    status: { type: String, enum: ['success', 'error', null], default: null },
+    trigger: { type: String, enum: ['manual', 'scheduled', null], default: null },
+    lastRunAt: { type: Date, default: null },
+    lastSuccessAt: { type: Date, default: null },
+    error: { type: String, default: null },
+    entriesAdded: { type: Number, default: 0 },
+    entriesUpdated: { type: Number, default: 0 },
+    entriesRemoved: { type: Number, default: 0 },
+    runningSince: { type: Date, default: null },
+  },
+  defaultHourlyRate: {
+    type: Number,
+    min: 0,
+    default: null,
+  },
+  currency: {
+    type: String,
+    default: 'USD',
+    uppercase: true,
+    match: /^[A-Z]{3}$/,
+  },
+  // Unset until the browser reports it; treated as UTC meanwhile
+  timezone: {
+    type: String,
+    default: null,
+    validate: {
+      validator: (value: string | null) => value == null || isValidTimeZone(value),
+      message: 'Invalid time zone',
+    },
+  },
+  // Window in which untracked gaps are reported
+  workingHours: {
+    start: { type: String, default: '09:00', match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+    end: { type: String, default: '17:00', match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+  },
+  invoiceCounter: {
+    type: Number,
+    default: 0,
   },
 }, {
   timestamps: true,
@@ -59,5 +141,8 @@ UserSchema.methods.comparePassword = async function(password: string): Promise<b
   return bcrypt.compare(password, this.passwordHash);
 };
 
+// Finds users whose scheduled calendar sync is due
+UserSchema.index({ 'calendarSyncStatus.lastRunAt': 1 });
+
 export default mongoose.models.User || mongoose.model<IUser>('User', UserSchema);
 
@@ -0,0 +1,57 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { WORKSPACE_ROLES, WorkspaceRole } from '@/utils/workspaceRoles';
+
+export interface IWorkspaceMember {
+  userId: mongoose.Types.ObjectId;
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
+
+export interface IWorkspace extends Document {
+  name: string;
+  ownerId: mongoose.Types.ObjectId; // Also listed in members with the owner role
+  members: IWorkspaceMember[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkspaceMemberSchema = new Schema<IWorkspaceMember>({
+  userId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  role: {
+    type: String,
+    enum: WORKSPACE_ROLES,
+    required: true,
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, { _id: false });
+
+const WorkspaceSchema = new Schema<IWorkspace>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+  },
+  ownerId: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  members: {
+    type: [WorkspaceMemberSchema],
+    default: [],
+  },
+}, {
+  timestamps: true,
+});
+
+// Finds the workspaces a user belongs to
+WorkspaceSchema.index({ 'members.userId': 1 });
+
+export default mongoose.models.Workspace || mongoose.model<IWorkspace>('Workspace', WorkspaceSchema);
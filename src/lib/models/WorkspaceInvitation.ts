@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ASSIGNABLE_ROLES, WorkspaceRole } from '@/utils/workspaceRoles';
+
+export interface IWorkspaceInvitation extends Document {
+  workspaceId: mongoose.Types.ObjectId;
+  email: string; // Lowercase; only the account with this email can accept
+  role: Exclude<WorkspaceRole, 'owner'>;
+  tokenHash: string; // SHA-256 of the token in the invitation link
+  invitedBy: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WorkspaceInvitationSchema = new Schema<IWorkspaceInvitation>({
+  workspaceId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    required: true,
+  },
+  email: {
+    type: String,
+    required: true,
+    trim: true,
+    lowercase: true,
+  },
+  role: {
+    type: String,
+    enum: ASSIGNABLE_ROLES,
+    required: true,
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+  },
+  invitedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+}, {
+  timestamps: true,
+});
+
+// Looks up invitations from their link
+WorkspaceInvitationSchema.index({ tokenHash: 1 }, { unique: true });
+
+// One open invitation per email and workspace; inviting again replaces it
+WorkspaceInvitationSchema.index({ workspaceId: 1, email: 1 }, { unique: true });
+
+// MongoDB removes invitations once they expire
+WorkspaceInvitationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.models.WorkspaceInvitation ||
+  mongoose.model<IWorkspaceInvitation>('WorkspaceInvitation', WorkspaceInvitationSchema);
@@ -0,0 +1,43 @@
+import { PDFFont } from 'pdf-lib';
+
+// Text helpers for PDFs drawn with pdf-lib's built-in fonts.
+
+// The standard fonts only cover WinAnsi (Latin-1 plus typographic quotes,
+// dashes and the euro sign); anything else would make pdf-lib throw
+const UNSUPPORTED_CHARACTERS = /[^\x20-\x7e\xa0-\xff\u0152\u0153\u0160\u0161\u0178\u017d\u017e\u0192\u02c6\u02dc\u2013\u2014\u2018-\u201a\u201c-\u201e\u2020-\u2022\u2026\u2030\u2039\u203a\u20ac\u2122]/g;
+
+export function toPdfText(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(UNSUPPORTED_CHARACTERS, '?');
+}
+
+// Shortens text with an ellipsis to fit the width
+export function fitText(text: string, font: PDFFont, size: number, width: number): string {
+  let fitted = toPdfText(text);
+  if (font.widthOfTextAtSize(fitted, size) <= width) return fitted;
+
+  while (fitted.length > 0 && font.widthOfTextAtSize(`${fitted}...`, size) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trim()}...`;
+}
+
+// Breaks text into lines that fit the width, at spaces where possible
+export function wrapText(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+
+  text.split(/\r?\n/).forEach((paragraph) => {
+    let line = '';
+    toPdfText(paragraph).split(' ').forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (!line || font.widthOfTextAtSize(candidate, size) <= width) {
+        line = candidate;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    });
+    lines.push(fitText(line, font, size, width));
+  });
+
+  return lines;
+}
@@ -0,0 +1,64 @@
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import SavedReport, { ISavedReport, ISavedReportDefinition } from '@/lib/models/SavedReport';
+import { buildReport, Report, ReportDefinition } from '@/lib/reports';
+
+// Read-only share links for saved reports. A link is a signed token naming
+// the saved report and its share version, so it can't be altered, stops
+// working when it expires, and is revoked by bumping the version. The report
+// itself is built when the link is opened: it follows later edits to the
+// definition, and relative ranges move along with the calendar.
+
+export const DEFAULT_SHARE_DAYS = 7;
+export const MAX_SHARE_DAYS = 90;
+
+interface ShareTokenPayload {
+  rid: string; // Saved report id
+  v: number; // Share version at signing time
+}
+
+function getSecret(): string {
+  const secret = process.env.REPORT_SHARE_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error('Please define the REPORT_SHARE_SECRET or NEXTAUTH_SECRET environment variable');
+  }
+  return secret;
+}
+
+export function toReportDefinition(definition: ISavedReportDefinition): ReportDefinition {
+  return {
+    range: definition.range,
+    from: definition.from || undefined,
+    to: definition.to || undefined,
+    groupBy: definition.groupBy,
+    projectId: definition.projectId ? String(definition.projectId) : undefined,
+    tags: definition.tags || [],
+  };
+}
+
+export function createShareToken(report: ISavedReport, days: number): { token: string; expiresAt: Date } {
+  const payload: ShareTokenPayload = { rid: String(report._id), v: report.shareVersion };
+  const token = jwt.sign(payload, getSecret(), { expiresIn: days * 24 * 60 * 60 });
+
+  return { token, expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000) };
+}
+
+// Null for tampered, expired or revoked links and deleted reports
+export async function loadSharedReport(token: string): Promise<{ name: string; report: Report; expiresAt: Date } | null> {
+  let payload: ShareTokenPayload & { exp: number };
+  try {
+    payload = jwt.verify(token, getSecret()) as ShareTokenPayload & { exp: number };
+  } catch {
+    return null;
+  }
+
+  if (!mongoose.isValidObjectId(payload.rid)) return null;
+
+  const saved: ISavedReport | null = await SavedReport.findById(payload.rid);
+  if (!saved || saved.shareVersion !== payload.v) return null;
+
+  const report = await buildReport(String(saved.userId), toReportDefinition(saved.definition));
+  if (!report) return null;
+
+  return { name: saved.name, report, expiresAt: new Date(payload.exp * 1000) };
+}
@@ -0,0 +1,257 @@
+import mongoose, { PipelineStage } from 'mongoose';
+import { format, parseISO } from 'date-fns';
+import Log from '@/lib/models/Log';
+import Project from '@/lib/models/Project';
+import User from '@/lib/models/User';
+import { listDates, parseTimeExpression, periodKeys, unionDurationExpression } from '@/lib/logQueries';
+import { entryRateExpression } from '@/utils/billing';
+import { ReportGrouping, ReportRange, resolveReportRange } from '@/utils/reportRanges';
+import { DEFAULT_TIME_ZONE, todayInTimeZone } from '@/utils/timezone';
+
+// Reports over a date range, grouped by day, ISO week, project, tag or entry
+// type and aggregated in MongoDB. Within each group a day's entries are merged
+// before summing, so overlapping entries count once like on the dashboard.
+// An entry with several tags counts towards each of them, which is why the
+// totals are computed separately rather than added up from the rows.
+
+export interface ReportDefinition {
+  range: ReportRange;
+  from?: string; // Custom ranges only
+  to?: string;
+  groupBy: ReportGrouping;
+  projectId?: string;
+  tags: string[]; // Entries with any of these tags
+}
+
+export interface ReportTotals {
+  totalMs: number;
+  billableMs: number;
+  amount: number; // Billable amount at each entry's rate
+  entryCount: number;
+  daysTracked: number;
+}
+
+export interface ReportRow extends ReportTotals {
+  key: string | null; // Date, ISO week, project id, tag or type; null for "No project"/"Untagged"
+  label: string;
+  color: string | null; // Project groupings only
+}
+
+export interface Report {
+  definition: ReportDefinition;
+  from: string;
+  to: string;
+  timeZone: string;
+  currency: string;
+  rows: ReportRow[];
+  totals: ReportTotals;
+}
+
+type GroupKey = ReportGrouping | 'total';
+
+const groupKeys: Record<GroupKey, unknown> = {
+  day: '$date',
+  week: periodKeys.week,
+  project: { $toString: { $ifNull: ['$entries.projectId', null] } },
+  tag: { $ifNull: ['$entries.tags', null] },
+  type: '$entries.type',
+  total: { $literal: 'total' },
+};
+
+const TYPE_LABELS: Record<string, string> = { manual: 'Manual', calendar: 'Calendar' };
+
+const EMPTY_TOTALS: ReportTotals = { totalMs: 0, billableMs: 0, amount: 0, entryCount: 0, daysTracked: 0 };
+
+function buildReportPipeline(
+  userId: string,
+  from: string,
+  to: string,
+  groupBy: GroupKey,
+  filters: { projectId?: string; tags: string[] },
+  timeZone: string,
+  defaultHourlyRate: number
+): PipelineStage[] {
+  const entryFilter: Record<string, unknown> = {};
+  if (filters.projectId) entryFilter['entries.projectId'] = new mongoose.Types.ObjectId(filters.projectId);
+  if (filters.tags.length > 0) entryFilter['entries.tags'] = { $in: filters.tags };
+
+  const stages: PipelineStage[] = [
+    {
+      $match: {
+        userId: new mongoose.Types.ObjectId(userId),
+        date: { $gte: from, $lte: to },
+      },
+    },
+    { $unwind: '$entries' },
+    { $match: entryFilter },
+    {
+      $addFields: {
+        startAt: parseTimeExpression('$entries.startTime', timeZone),
+        endAt: parseTimeExpression('$entries.endTime', timeZone),
+      },
+    },
+    {
+      $addFields: {
+        durationMs: {
+          $max: [0, { $ifNull: [{ $subtract: ['$endAt', '$startAt'] }, 0] }],
+        },
+      },
+    },
+    // The project supplies the name and color for project groupings and the
+    // rate for entries without their own
+    {
+      $lookup: {
+        from: Project.collection.name,
+        localField: 'entries.projectId',
+        foreignField: '_id',
+        as: 'project',
+      },
+    },
+    { $addFields: { project: { $arrayElemAt: ['$project', 0] } } },
+    {
+      $addFields: {
+        amount: {
+          $cond: [
+            '$entries.billable',
+            {
+              $multiply: [
+                { $divide: ['$durationMs', 3600000] },
+                entryRateExpression('$entries.hourlyRate', '$project.hourlyRate', defaultHourlyRate),
+              ],
+            },
+            0,
+          ],
+        },
+      },
+    },
+  ];
+
+  if (groupBy === 'tag') {
+    stages.push({ $unwind: { path: '$entries.tags', preserveNullAndEmptyArrays: true } });
+  }
+
+  return stages.concat([
+    { $addFields: { groupKey: groupKeys[groupBy] } },
+    // $push keeps this order, which the interval merge below relies on
+    { $sort: { date: 1, startAt: 1 } },
+    {
+      $group: {
+        _id: { key: '$groupKey', date: '$date' },
+        intervals: { $push: { start: '$startAt', end: '$endAt' } },
+        // Non-billable entries become empty intervals, which the merge skips
+        billableIntervals: {
+          $push: { start: '$startAt', end: { $cond: ['$entries.billable', '$endAt', '$startAt'] } },
+        },
+        amount: { $sum: '$amount' },
+        entryCount: { $sum: 1 },
+        name: { $first: '$project.name' },
+        color: { $first: '$project.color' },
+      },
+    },
+    {
+      $addFields: {
+        trackedMs: unionDurationExpression('$intervals'),
+        billableMs: unionDurationExpression('$billableIntervals'),
+      },
+    },
+    {
+      $group: {
+        _id: '$_id.key',
+        totalMs: { $sum: '$trackedMs' },
+        billableMs: { $sum: '$billableMs' },
+        amount: { $sum: '$amount' },
+        entryCount: { $sum: '$entryCount' },
+        daysTracked: { $sum: 1 },
+        name: { $first: '$name' },
+        color: { $first: '$color' },
+      },
+    },
+  ]);
+}
+
+interface AggregatedRow extends ReportTotals {
+  _id: string | null;
+  name?: string;
+  color?: string;
+}
+
+function toTotals(row: ReportTotals): ReportTotals {
+  return {
+    totalMs: row.totalMs,
+    billableMs: row.billableMs,
+    amount: Math.round(row.amount * 100) / 100,
+    entryCount: row.entryCount,
+    daysTracked: row.daysTracked,
+  };
+}
+
+function getRowLabel(groupBy: ReportGrouping, row: AggregatedRow): string {
+  switch (groupBy) {
+    case 'day':
+      return format(parseISO(row._id as string), 'EEE, MMM d, yyyy');
+    case 'week': {
+      const [year, week] = (row._id as string).split('-W');
+      return `Week ${Number(week)}, ${year}`;
+    }
+    case 'project':
+      return row.name || (row._id ? 'Deleted project' : 'No project');
+    case 'tag':
+      return row._id || 'Untagged';
+    default:
+      return TYPE_LABELS[row._id as string] || String(row._id);
+  }
+}
+
+// Null when the user no longer exists
+export async function buildReport(userId: string, definition: ReportDefinition): Promise<Report | null> {
+  const user = await User.findById(userId).select('timezone currency defaultHourlyRate');
+  if (!user) return null;
+
+  const timeZone = user.timezone || DEFAULT_TIME_ZONE;
+  const range = resolveReportRange(definition.range, todayInTimeZone(timeZone), definition);
+  if (!range) return null;
+
+  const { from, to } = range;
+  const filters = { projectId: definition.projectId, tags: definition.tags };
+  const rate = user.defaultHourlyRate ?? 0;
+
+  const [grouped, total]: [AggregatedRow[], AggregatedRow[]] = await Promise.all([
+    Log.aggregate(buildReportPipeline(userId, from, to, definition.groupBy, filters, timeZone, rate)),
+    Log.aggregate(buildReportPipeline(userId, from, to, 'total', filters, timeZone, rate)),
+  ]);
+
+  let rows: ReportRow[] = grouped.map((row) => ({
+    key: row._id,
+    label: getRowLabel(definition.groupBy, row),
+    color: definition.groupBy === 'project' ? row.color || '#9ca3af' : null,
+    ...toTotals(row),
+  }));
+
+  if (definition.groupBy === 'day') {
+    // One row per day, so charts show the gaps
+    const rowsByDate: Record<string, ReportRow> = {};
+    rows.forEach((row) => {
+      rowsByDate[row.key as string] = row;
+    });
+    rows = listDates(from, to).reverse().map((date) => rowsByDate[date] || {
+      key: date,
+      label: getRowLabel('day', { _id: date, ...EMPTY_TOTALS }),
+      color: null,
+      ...EMPTY_TOTALS,
+    });
+  } else if (definition.groupBy === 'week') {
+    rows.sort((a, b) => (a.key as string).localeCompare(b.key as string));
+  } else {
+    rows.sort((a, b) => b.totalMs - a.totalMs || a.label.localeCompare(b.label));
+  }
+
+  return {
+    definition,
+    from,
+    to,
+    timeZone,
+    currency: user.currency || 'USD',
+    rows,
+    totals: total.length > 0 ? toTotals(total[0]) : EMPTY_TOTALS,
+  };
+}
@@ -0,0 +1,36 @@
+import Tag from '@/lib/models/Tag';
+
+// Tags are stored lowercase and trimmed so filtering is case-insensitive
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map((tag) => tag.trim().toLowerCase())
+    .filter((tag) => tag.length > 0);
+
+  return normalized.filter((tag, index) => normalized.indexOf(tag) === index);
+}
+
+// Parses a comma separated `tags=` query parameter
+export function parseTagsParam(value: string | null): string[] {
+  return value ? normalizeTags(value.split(',')) : [];
+}
+
+// Entries match a tag filter when they carry at least one of the tags
+export function matchesTags(entryTags: string[] | undefined, filter: string[]): boolean {
+  if (filter.length === 0) return true;
+  return (entryTags || []).some((tag) => filter.indexOf(tag) !== -1);
+}
+
+// Makes sure every tag used on an entry exists in the Tag collection for autocomplete
+export async function ensureTags(userId: string, tags: string[] | undefined) {
+  if (!tags || tags.length === 0) return;
+
+  await Tag.bulkWrite(
+    tags.map((name) => ({
+      updateOne: {
+        filter: { userId, name },
+        update: { $setOnInsert: { userId, name } },
+        upsert: true,
+      },
+    }))
+  );
+}
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const state = vi.hoisted(() => ({
+  locked: [] as string[],
+  writes: [] as { date: string; entry: Record<string, unknown> }[],
+}));
+
+vi.mock('@/lib/models/Log', () => ({
+  default: {
+    findOneAndUpdate: async (filter: { date: string }, update: { $push: { entries: Record<string, unknown> } }) => {
+      state.writes.push({ date: filter.date, entry: update.$push.entries });
+      return {};
+    },
+  },
+}));
+
+vi.mock('@/lib/timesheetApproval', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/timesheetApproval')>();
+  return {
+    ...actual,
+    findLockingTimesheets: async (userId: string, dates: string[]) => dates
+      .filter((date) => state.locked.indexOf(date) !== -1)
+      .map((date) => ({ _id: 'timesheet-1', weekStart: actual.getWeekRange(date).weekStart, status: 'approved' })),
+  };
+});
+
+import { ITimer } from '@/lib/models/Timer';
+import { saveTimerEntries, splitAtMidnight, TimerSegment } from '@/lib/timer';
+
+const timer = {
+  startTime: new Date('2024-01-07T22:00:00Z'),
+  title: 'Deploy',
+  description: '',
+  projectId: null,
+  tags: [],
+  billable: false,
+} as unknown as ITimer;
+
+const end = new Date('2024-01-08T01:00:00Z');
+
+describe('splitAtMidnight', () => {
+  it('splits at midnight in the given zone', () => {
+    expect(splitAtMidnight(timer.startTime, end, 'UTC')).toEqual([
+      { date: '2024-01-07', startTime: '2024-01-07T22:00:00.000Z', endTime: '2024-01-08T00:00:00.000Z' },
+      { date: '2024-01-08', startTime: '2024-01-08T00:00:00.000Z', endTime: '2024-01-08T01:00:00.000Z' },
+    ]);
+    expect(splitAtMidnight(timer.startTime, end, 'America/New_York')).toHaveLength(1);
+  });
+});
+
+describe('saveTimerEntries', () => {
+  beforeEach(() => {
+    state.locked = [];
+    state.writes = [];
+  });
+
+  it('writes one entry per day', async () => {
+    const saved: TimerSegment[] = [];
+    const { segments, locked, lockingTimesheet } = await saveTimerEntries('user-1', timer, end, 'UTC', saved);
+
+    expect(segments).toHaveLength(2);
+    expect(locked).toEqual([]);
+    expect(lockingTimesheet).toBeNull();
+    expect(saved).toEqual(segments);
+    expect(state.writes.map((write) => write.date)).toEqual(['2024-01-07', '2024-01-08']);
+  });
+
+  it('leaves out the days in a locked week', async () => {
+    state.locked = ['2024-01-07'];
+
+    const { segments, locked, lockingTimesheet } = await saveTimerEntries('user-1', timer, end, 'UTC');
+
+    expect(segments.map((segment) => segment.date)).toEqual(['2024-01-08']);
+    expect(locked.map((segment) => segment.date)).toEqual(['2024-01-07']);
+    expect(lockingTimesheet).toMatchObject({ weekStart: '2024-01-01', status: 'approved' });
+    expect(state.writes.map((write) => write.date)).toEqual(['2024-01-08']);
+  });
+});
@@ -0,0 +1,90 @@
+import Log from '@/lib/models/Log';
+import { ITimer } from '@/lib/models/Timer';
+import { ITimesheet } from '@/lib/models/Timesheet';
+import { findLockingTimesheets, getWeekRange } from '@/lib/timesheetApproval';
+import { getDayBounds, toDateKey } from '@/utils/timezone';
+
+export interface TimerSegment {
+  date: string; // YYYY-MM-DD
+  startTime: string; // ISO string
+  endTime: string; // ISO string
+}
+
+export interface SavedTimer {
+  segments: TimerSegment[]; // Written to the logs
+  locked: TimerSegment[]; // Not written, as their days are in a submitted or approved week
+  lockingTimesheet: ITimesheet | null; // The week of the first locked segment
+}
+
+// Splits [start, end) into one segment per calendar day in the user's zone so
+// each piece lands in the Log document of the day it belongs to
+export function splitAtMidnight(start: Date, end: Date, timeZone: string): TimerSegment[] {
+  const segments: TimerSegment[] = [];
+  let segmentStart = start;
+
+  while (segmentStart < end) {
+    const date = toDateKey(segmentStart, timeZone);
+    const nextMidnight = getDayBounds(date, timeZone).end;
+    const segmentEnd = nextMidnight < end ? nextMidnight : end;
+
+    segments.push({
+      date,
+      startTime: segmentStart.toISOString(),
+      endTime: segmentEnd.toISOString(),
+    });
+
+    segmentStart = segmentEnd;
+  }
+
+  return segments;
+}
+
+// Writes a stopped timer into the Log documents it spans. Each day is its own
+// write, so segments are added to `saved` as they land; if a later day fails
+// the caller knows which part of the timer is already recorded. Days in a
+// submitted or approved week are left out and returned as `locked`.
+export async function saveTimerEntries(
+  userId: string,
+  timer: ITimer,
+  end: Date,
+  timeZone: string,
+  saved: TimerSegment[] = []
+): Promise<SavedTimer> {
+  const segments = splitAtMidnight(timer.startTime, end, timeZone);
+  const timesheets = await findLockingTimesheets(userId, segments.map((segment) => segment.date));
+  const lockingTimesheetOf = (segment: TimerSegment) =>
+    timesheets.filter((timesheet) => timesheet.weekStart === getWeekRange(segment.date).weekStart)[0];
+
+  const locked = segments.filter((segment) => lockingTimesheetOf(segment));
+  const unlocked = segments.filter((segment) => !lockingTimesheetOf(segment));
+
+  for (const segment of unlocked) {
+    await Log.findOneAndUpdate(
+      { userId, date: segment.date },
+      {
+        $push: {
+          entries: {
+            type: 'manual',
+            startTime: segment.startTime,
+            endTime: segment.endTime,
+            title: timer.title,
+            description: timer.description,
+            projectId: timer.projectId,
+            tags: timer.tags,
+            billable: timer.billable,
+          },
+        },
+        $inc: { version: 1 },
+        $setOnInsert: { userId, date: segment.date },
+      },
+      { upsert: true, new: true, runValidators: true }
+    );
+    saved.push(segment);
+  }
+
+  return {
+    segments: unlocked,
+    locked,
+    lockingTimesheet: locked.length > 0 ? lockingTimesheetOf(locked[0]) : null,
+  };
+}
@@ -0,0 +1,128 @@
+import { endOfISOWeek, endOfMonth, format, getISOWeek, parseISO, startOfISOWeek, startOfMonth } from 'date-fns';
+import Log, { ILog, ILogEntry } from '@/lib/models/Log';
+import Project, { IProject } from '@/lib/models/Project';
+import { IClient } from '@/lib/models/Client';
+import User from '@/lib/models/User';
+import { listDates } from '@/lib/logQueries';
+import { projectAccessFilter } from '@/lib/workspaces';
+import { getEntryRate } from '@/utils/billing';
+import { getUnionDuration } from '@/utils/intervals';
+import { DEFAULT_TIME_ZONE, parseEntryTime } from '@/utils/timezone';
+
+// Timesheet data for one user over an ISO week or a calendar month, optionally
+// limited to a project. Daily totals count overlapping entries once, like the
+// dashboard; amounts are per entry at its resolved rate.
+
+export const TIMESHEET_PERIODS = ['week', 'month'] as const;
+
+export type TimesheetPeriod = typeof TIMESHEET_PERIODS[number];
+
+export interface TimesheetDay {
+  date: string;
+  titles: string[]; // Distinct entry titles, in order
+  totalMs: number;
+  billableMs: number;
+}
+
+export interface Timesheet {
+  period: TimesheetPeriod;
+  label: string; // "Week 10, 2024" or "March 2024"
+  from: string;
+  to: string;
+  user: { name: string; email: string };
+  project: { name: string; clientName: string | null } | null;
+  timeZone: string;
+  currency: string;
+  days: TimesheetDay[]; // Every day of the period, oldest first
+  totalMs: number;
+  billableMs: number;
+  billableAmount: number;
+}
+
+export function getPeriodRange(period: TimesheetPeriod, date: string): { from: string; to: string; label: string } {
+  const day = parseISO(date);
+  if (period === 'week') {
+    return {
+      from: format(startOfISOWeek(day), 'yyyy-MM-dd'),
+      to: format(endOfISOWeek(day), 'yyyy-MM-dd'),
+      label: `Week ${getISOWeek(day)}, ${format(startOfISOWeek(day), 'RRRR')}`,
+    };
+  }
+  return {
+    from: format(startOfMonth(day), 'yyyy-MM-dd'),
+    to: format(endOfMonth(day), 'yyyy-MM-dd'),
+    label: format(day, 'MMMM yyyy'),
+  };
+}
+
+// Null when the user or the project doesn't exist
+export async function buildTimesheet(
+  userId: string,
+  options: { period: TimesheetPeriod; date: string; projectId?: string }
+): Promise<Timesheet | null> {
+  const user = await User.findById(userId).select('name email timezone currency defaultHourlyRate');
+  if (!user) return null;
+
+  // Personal and workspace projects
+  const accessible = await projectAccessFilter(userId);
+
+  let project: IProject | null = null;
+  if (options.projectId) {
+    project = await Project.findOne({ _id: options.projectId, ...accessible }).populate('clientId', 'name');
+    if (!project) return null;
+  }
+
+  const timeZone = user.timezone || DEFAULT_TIME_ZONE;
+  const { from, to, label } = getPeriodRange(options.period, options.date);
+  const [logs, projects]: [ILog[], IProject[]] = await Promise.all([
+    Log.find({ userId, date: { $gte: from, $lte: to } }),
+    Project.find(accessible).select('hourlyRate'),
+  ]);
+  const rated = projects.map((item) => ({ _id: String(item._id), hourlyRate: item.hourlyRate }));
+
+  const logsByDate: Record<string, ILog> = {};
+  logs.forEach((log) => {
+    logsByDate[log.date] = log;
+  });
+
+  let billableAmount = 0;
+  const days = listDates(from, to).reverse().map((date): TimesheetDay => {
+    const entries = (logsByDate[date] ? logsByDate[date].entries : [])
+      .filter((entry) => !project || String(entry.projectId) === String(project._id))
+      .sort((a, b) => parseEntryTime(a.startTime, timeZone).getTime() - parseEntryTime(b.startTime, timeZone).getTime());
+
+    entries.forEach((entry: ILogEntry) => {
+      if (!entry.billable) return;
+      const hours = (parseEntryTime(entry.endTime, timeZone).getTime() - parseEntryTime(entry.startTime, timeZone).getTime()) / 3600000;
+      const rate = getEntryRate({ ...entry, projectId: entry.projectId ? String(entry.projectId) : null }, rated, user.defaultHourlyRate);
+      billableAmount += Math.max(0, hours) * rate;
+    });
+
+    const titles = entries.map((entry) => entry.title);
+    return {
+      date,
+      titles: titles.filter((title, index) => titles.indexOf(title) === index),
+      totalMs: getUnionDuration(entries, timeZone),
+      billableMs: getUnionDuration(entries.filter((entry) => entry.billable), timeZone),
+    };
+  });
+
+  const client = project && project.clientId && typeof project.clientId === 'object' && 'name' in project.clientId
+    ? (project.clientId as unknown as IClient).name
+    : null;
+
+  return {
+    period: options.period,
+    label,
+    from,
+    to,
+    user: { name: user.name, email: user.email },
+    project: project ? { name: project.name, clientName: client } : null,
+    timeZone,
+    currency: user.currency || 'USD',
+    days,
+    totalMs: days.reduce((sum, day) => sum + day.totalMs, 0),
+    billableMs: days.reduce((sum, day) => sum + day.billableMs, 0),
+    billableAmount,
+  };
+}
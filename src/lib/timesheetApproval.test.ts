@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { getEntryDates } from '@/lib/timesheetApproval';
+
+describe('getEntryDates', () => {
+  it('includes the next day for entries crossing midnight', () => {
+    expect(getEntryDates({ startTime: '2024-01-07T23:00:00.000Z', endTime: '2024-01-08T01:00:00.000Z' }, 'UTC'))
+      .toEqual(['2024-01-07', '2024-01-08']);
+  });
+
+  it('keeps an entry ending at midnight on its day', () => {
+    expect(getEntryDates({ startTime: '2024-01-07T23:00:00.000Z', endTime: '2024-01-08T00:00:00.000Z' }, 'UTC'))
+      .toEqual(['2024-01-07', '2024-01-07']);
+  });
+});
@@ -0,0 +1,126 @@
+import mongoose from 'mongoose';
+import { NextResponse } from 'next/server';
+import Timesheet, { ITimesheet } from '@/lib/models/Timesheet';
+import { buildTimesheet, getPeriodRange } from '@/lib/timesheet';
+import { isDuplicateKeyError } from '@/lib/concurrency';
+import { logDateSchema } from '@/lib/validation';
+import { parseEntryTime, toDateKey } from '@/utils/timezone';
+
+// Weekly timesheet submission and approval. A timesheet covers one ISO week of
+// a user's logs and goes to the owners and admins of one of their workspaces.
+// While it's submitted or approved no day of that week may change: the
+// /api/logs routes and the timer answer 423, imports report the rows as
+// errors and calendar syncs leave those days alone. See utils/timesheetStatus
+// for the states.
+
+// Monday and Sunday of the ISO week containing the date
+export function getWeekRange(date: string): { weekStart: string; weekEnd: string } {
+  const { from, to } = getPeriodRange('week', date);
+  return { weekStart: from, weekEnd: to };
+}
+
+// The submitted or approved timesheets covering any of the dates
+export async function findLockingTimesheets(
+  userId: string,
+  dates: string[],
+  session?: mongoose.ClientSession
+): Promise<ITimesheet[]> {
+  const weekStarts = dates
+    .filter((date) => logDateSchema.safeParse(date).success)
+    .map((date) => getWeekRange(date).weekStart)
+    .filter((weekStart, index, all) => all.indexOf(weekStart) === index);
+  if (weekStarts.length === 0) return [];
+
+  return Timesheet.find({
+    userId,
+    weekStart: { $in: weekStarts },
+    status: { $in: ['submitted', 'approved'] },
+  }).sort({ weekStart: 1 }).session(session || null);
+}
+
+// The dates that fall in a submitted or approved week
+export async function findLockedDates(
+  userId: string,
+  dates: string[],
+  session?: mongoose.ClientSession
+): Promise<string[]> {
+  const weekStarts = (await findLockingTimesheets(userId, dates, session)).map((timesheet) => timesheet.weekStart);
+  return dates.filter((date) =>
+    logDateSchema.safeParse(date).success && weekStarts.indexOf(getWeekRange(date).weekStart) !== -1
+  );
+}
+
+// The days an entry's times fall on. Ends are exclusive, so an entry ending
+// at midnight stays on its day.
+export function getEntryDates(entry: { startTime: string; endTime: string }, timeZone: string): string[] {
+  return [
+    toDateKey(parseEntryTime(entry.startTime, timeZone), timeZone),
+    toDateKey(new Date(parseEntryTime(entry.endTime, timeZone).getTime() - 1), timeZone),
+  ];
+}
+
+// The submitted or approved timesheet covering the log's date or any day the
+// entries' times fall on; an entry stored under an unlocked day may still
+// reach into a locked week
+export async function findLockingTimesheetForEntries(
+  userId: string,
+  date: string,
+  entries: { startTime: string; endTime: string }[],
+  timeZone: string
+): Promise<ITimesheet | null> {
+  const dates = entries.reduce((all, entry) => all.concat(getEntryDates(entry, timeZone)), [date]);
+  const [timesheet] = await findLockingTimesheets(userId, dates);
+  return timesheet || null;
+}
+
+export function weekLockedResponse(timesheet: ITimesheet, details: Record<string, unknown> = {}) {
+  return NextResponse.json(
+    {
+      ...details,
+      error: timesheet.status === 'approved'
+        ? "This week's timesheet is approved, so its days can't be changed."
+        : "This week's timesheet is awaiting approval. Withdraw it to make changes.",
+      timesheet: { _id: timesheet._id, weekStart: timesheet.weekStart, status: timesheet.status },
+    },
+    { status: 423 }
+  );
+}
+
+// Submits a draft or rejected week with a snapshot of its daily totals.
+// Returns null when the week is already submitted or approved, or the user
+// no longer exists.
+export async function submitTimesheet(
+  userId: string,
+  date: string,
+  workspaceId: string
+): Promise<ITimesheet | null> {
+  const sheet = await buildTimesheet(userId, { period: 'week', date });
+  if (!sheet) return null;
+
+  const { weekStart, weekEnd } = getWeekRange(date);
+
+  try {
+    return await Timesheet.findOneAndUpdate(
+      { userId, weekStart, status: { $in: ['draft', 'rejected'] } },
+      {
+        $set: {
+          workspaceId,
+          status: 'submitted',
+          days: sheet.days.map((day) => ({ date: day.date, totalMs: day.totalMs, billableMs: day.billableMs })),
+          totalMs: sheet.totalMs,
+          billableMs: sheet.billableMs,
+          submittedAt: new Date(),
+          reviewedBy: null,
+          reviewedAt: null,
+          comment: '',
+        },
+        $setOnInsert: { userId, weekStart, weekEnd },
+      },
+      { upsert: true, new: true, runValidators: true }
+    );
+  } catch (error) {
+    // A timesheet for the week exists but isn't in a state that can be submitted
+    if (isDuplicateKeyError(error)) return null;
+    throw error;
+  }
+}
@@ -0,0 +1,166 @@
+import { PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { format, parseISO } from 'date-fns';
+import { fitText, toPdfText } from '@/lib/pdfText';
+import { Timesheet } from '@/lib/timesheet';
+import { formatCurrency } from '@/utils/billing';
+import { formatInZone } from '@/utils/timezone';
+
+// Renders a timesheet as an A4 PDF: a header naming the person and project,
+// one row per day, totals with the billable subtotal, and a signature block
+// for the person and the approving client. Uses the built-in PDF fonts, so
+// nothing has to be installed or fetched on the server.
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const ROW_HEIGHT = 18;
+
+const TEXT = rgb(0.12, 0.12, 0.14);
+const MUTED = rgb(0.42, 0.45, 0.5);
+const RULE = rgb(0.82, 0.84, 0.87);
+const SHADE = rgb(0.95, 0.96, 0.97);
+
+// Column x positions; Work fills the space between Date and Hours
+const COLUMNS = { date: MARGIN, work: MARGIN + 90, hours: PAGE_WIDTH - MARGIN - 130, billable: PAGE_WIDTH - MARGIN - 60 };
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+function formatHours(ms: number): string {
+  return (ms / 3600000).toFixed(2);
+}
+
+function drawRight(page: PDFPage, text: string, right: number, y: number, font: PDFFont, size: number) {
+  page.drawText(text, { x: right - font.widthOfTextAtSize(text, size), y, size, font, color: TEXT });
+}
+
+function drawTableHeader(page: PDFPage, y: number, fonts: Fonts) {
+  page.drawRectangle({ x: MARGIN, y: y - 5, width: PAGE_WIDTH - 2 * MARGIN, height: ROW_HEIGHT, color: SHADE });
+  page.drawText('Date', { x: COLUMNS.date + 4, y, size: 9, font: fonts.bold, color: TEXT });
+  page.drawText('Work', { x: COLUMNS.work, y, size: 9, font: fonts.bold, color: TEXT });
+  drawRight(page, 'Hours', COLUMNS.billable - 10, y, fonts.bold, 9);
+  drawRight(page, 'Billable', PAGE_WIDTH - MARGIN - 4, y, fonts.bold, 9);
+}
+
+function drawSignatureBlock(page: PDFPage, y: number, fonts: Fonts, labels: [string, string]) {
+  const width = (PAGE_WIDTH - 2 * MARGIN - 30) / 2;
+
+  labels.forEach((label, index) => {
+    const x = MARGIN + index * (width + 30);
+    page.drawText(label, { x, y, size: 10, font: fonts.bold, color: TEXT });
+    ['Signature', 'Name', 'Date'].forEach((line, lineIndex) => {
+      const lineY = y - 35 - lineIndex * 30;
+      page.drawLine({ start: { x, y: lineY }, end: { x: x + width, y: lineY }, thickness: 0.75, color: MUTED });
+      page.drawText(line, { x, y: lineY - 10, size: 8, font: fonts.regular, color: MUTED });
+    });
+  });
+}
+
+export async function renderTimesheetPdf(timesheet: Timesheet): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  const title = `Timesheet - ${timesheet.label}`;
+  pdf.setTitle(title);
+  pdf.setAuthor(toPdfText(timesheet.user.name));
+  pdf.setCreator('Daily Time Log');
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN - 10;
+
+  page.drawText(toPdfText(title), { x: MARGIN, y, size: 18, font: fonts.bold, color: TEXT });
+  y -= 18;
+  const range = `${format(parseISO(timesheet.from), 'MMMM d, yyyy')} - ${format(parseISO(timesheet.to), 'MMMM d, yyyy')}`;
+  page.drawText(`${range} (${toPdfText(timesheet.timeZone)})`, { x: MARGIN, y, size: 10, font: fonts.regular, color: MUTED });
+  y -= 28;
+
+  const details: [string, string][] = [
+    ['Name', `${timesheet.user.name} <${timesheet.user.email}>`],
+    ['Project', timesheet.project ? timesheet.project.name : 'All projects'],
+  ];
+  if (timesheet.project?.clientName) details.push(['Client', timesheet.project.clientName]);
+  details.forEach(([label, value]) => {
+    page.drawText(label, { x: MARGIN, y, size: 10, font: fonts.bold, color: TEXT });
+    page.drawText(fitText(value, fonts.regular, 10, PAGE_WIDTH - 2 * MARGIN - 70), {
+      x: MARGIN + 70, y, size: 10, font: fonts.regular, color: TEXT,
+    });
+    y -= 15;
+  });
+  y -= 15;
+
+  drawTableHeader(page, y, fonts);
+  y -= ROW_HEIGHT;
+
+  const workWidth = COLUMNS.hours - COLUMNS.work - 10;
+  timesheet.days.forEach((day) => {
+    // Continue the table on a new page, keeping room for the footer
+    if (y < MARGIN + 30) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN - 10;
+      drawTableHeader(page, y, fonts);
+      y -= ROW_HEIGHT;
+    }
+
+    const font = fonts.regular;
+    // Days without work are greyed out
+    const color = day.totalMs > 0 ? TEXT : MUTED;
+    page.drawText(format(parseISO(day.date), 'EEE, MMM d'), { x: COLUMNS.date + 4, y, size: 9, font, color });
+    page.drawText(fitText(day.titles.join('; '), font, 9, workWidth), { x: COLUMNS.work, y, size: 9, font, color });
+    drawRight(page, formatHours(day.totalMs), COLUMNS.billable - 10, y, font, 9);
+    drawRight(page, formatHours(day.billableMs), PAGE_WIDTH - MARGIN - 4, y, font, 9);
+    page.drawLine({
+      start: { x: MARGIN, y: y - 6 },
+      end: { x: PAGE_WIDTH - MARGIN, y: y - 6 },
+      thickness: 0.5,
+      color: RULE,
+    });
+    y -= ROW_HEIGHT;
+  });
+
+  // Totals and signatures stay together on one page
+  const closingHeight = 70 + (timesheet.billableAmount > 0 ? 15 : 0) + 150;
+  if (y - closingHeight < MARGIN + 20) {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN - 10;
+  }
+
+  y -= 4;
+  page.drawText('Total', { x: COLUMNS.work, y, size: 10, font: fonts.bold, color: TEXT });
+  drawRight(page, formatHours(timesheet.totalMs), COLUMNS.billable - 10, y, fonts.bold, 10);
+  drawRight(page, formatHours(timesheet.billableMs), PAGE_WIDTH - MARGIN - 4, y, fonts.bold, 10);
+  y -= 18;
+  page.drawText(`Billable hours: ${formatHours(timesheet.billableMs)} of ${formatHours(timesheet.totalMs)}`, {
+    x: COLUMNS.work, y, size: 9, font: fonts.regular, color: MUTED,
+  });
+  if (timesheet.billableAmount > 0) {
+    y -= 15;
+    page.drawText(toPdfText(`Billable amount: ${formatCurrency(timesheet.billableAmount, timesheet.currency)}`), {
+      x: COLUMNS.work, y, size: 9, font: fonts.regular, color: MUTED,
+    });
+  }
+  y -= 50;
+
+  drawSignatureBlock(page, y, fonts, ['Submitted by', 'Approved by']);
+
+  // Page numbers once the page count is known
+  const pages = pdf.getPages();
+  const generated = `Generated ${formatInZone(new Date(), timesheet.timeZone, 'MMMM d, yyyy')}`;
+  pages.forEach((item, index) => {
+    item.drawText(generated, { x: MARGIN, y: MARGIN - 20, size: 8, font: fonts.regular, color: MUTED });
+    const number = `Page ${index + 1} of ${pages.length}`;
+    item.drawText(number, {
+      x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(number, 8),
+      y: MARGIN - 20,
+      size: 8,
+      font: fonts.regular,
+      color: MUTED,
+    });
+  });
+
+  return pdf.save();
+}
@@ -0,0 +1,402 @@
+import { detectDelimiter, parseDelimited } from '@/lib/csv';
+import {
+  combineDateAndTime,
+  ImportCandidate,
+  parseBooleanValue,
+  parseDateValue,
+  parseDuration,
+  parseTimeOfDay,
+} from '@/lib/logImport';
+import { normalizeTags } from '@/lib/tags';
+
+// Importers for the export files of other time trackers. Each one reads the
+// tracker's CSV or JSON export into candidates for the shared import pipeline,
+// keeping project and client names so projects can be matched or created.
+// Exports without times of day are laid out in the user's zone.
+
+export const TRACKER_SOURCES = ['toggl', 'clockify', 'harvest'] as const;
+
+export type TrackerSource = typeof TRACKER_SOURCES[number];
+
+export type TrackerImport =
+  | { candidates: ImportCandidate[] }
+  | { error: string };
+
+// Harvest only records hours per day; those entries are placed end to end from here
+const HARVEST_DAY_START = '09:00:00';
+
+const SOURCE_NAMES: Record<TrackerSource, string> = {
+  toggl: 'Toggl Track',
+  clockify: 'Clockify',
+  harvest: 'Harvest',
+};
+
+// Entry fields read from one row, before validation
+interface TrackerRow {
+  start: Date | null;
+  end: Date | null;
+  title: string;
+  task: string;
+  projectName: string;
+  clientName: string;
+  tags: string[];
+  billable: boolean;
+  id: string;
+}
+
+type JsonRecord = Record<string, unknown>;
+
+function str(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+}
+
+// Name of a related record, whether exported as a string or an object
+function nameOf(value: unknown): string {
+  return value && typeof value === 'object' ? str((value as JsonRecord).name) : str(value);
+}
+
+function toInstant(value: unknown): Date | null {
+  const text = str(value);
+  if (!text) return null;
+  const instant = new Date(text);
+  return isNaN(instant.getTime()) ? null : instant;
+}
+
+function toCandidate(
+  source: TrackerSource,
+  row: number,
+  fields: TrackerRow,
+  errors: string[],
+  warnings: string[] = []
+): ImportCandidate {
+  const { start, end } = fields;
+  if (start && end && end.getTime() <= start.getTime()) errors.push('End time must be after start time');
+
+  if (errors.length > 0 || !start || !end) {
+    return { row, entry: null, errors, warnings };
+  }
+
+  return {
+    row,
+    entry: {
+      type: 'manual',
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+      // Trackers allow entries without a description; tasks are the closest thing
+      title: fields.title || fields.task || '(no description)',
+      description: fields.title && fields.task ? fields.task : '',
+      // Tasks are categories of work, which tags are here
+      tags: normalizeTags(fields.task ? fields.tags.concat(fields.task) : fields.tags),
+      billable: fields.billable,
+      projectName: fields.projectName || null,
+      clientName: fields.clientName || null,
+      ...(fields.id ? { sourceId: `${source}:${fields.id}`, calendarId: source } : {}),
+    },
+    errors,
+    warnings,
+  };
+}
+
+// CSV records keyed by lowercase header, after checking the export has the
+// columns the importer needs
+function readCsvRecords(
+  source: TrackerSource,
+  content: string,
+  required: string[]
+): { records: Record<string, string>[] } | { error: string } {
+  const [headers, ...rows] = parseDelimited(content, detectDelimiter(content));
+  const keys = (headers || []).map((header) => header.trim().toLowerCase());
+  const missing = required.filter((column) => keys.indexOf(column.toLowerCase()) === -1);
+
+  if (missing.length > 0) {
+    return {
+      error: `This doesn't look like a ${SOURCE_NAMES[source]} export: missing the "${missing.join('", "')}" column${missing.length > 1 ? 's' : ''}`,
+    };
+  }
+
+  return {
+    records: rows.map((record) => {
+      const values: Record<string, string> = {};
+      keys.forEach((key, index) => {
+        values[key] = (record[index] || '').trim();
+      });
+      return values;
+    }),
+  };
+}
+
+// A date column plus a time-of-day column, read in the user's zone
+function readDateTime(
+  record: Record<string, string>,
+  dateColumn: string,
+  timeColumn: string,
+  timeZone: string,
+  errors: string[]
+): Date | null {
+  const date = parseDateValue(record[dateColumn] || '');
+  const time = parseTimeOfDay(record[timeColumn] || '');
+
+  if (!date) {
+    errors.push(`Unrecognised ${dateColumn} "${record[dateColumn] || ''}"`);
+  } else if (!time) {
+    errors.push(`Unrecognised ${timeColumn} "${record[timeColumn] || ''}"`);
+  } else {
+    return combineDateAndTime(date, time, timeZone);
+  }
+  return null;
+}
+
+function readBillable(value: string, errors: string[]): boolean {
+  const billable = parseBooleanValue(value);
+  if (billable === null) errors.push(`Unrecognised billable value "${value}"`);
+  return !!billable;
+}
+
+// Tags are exported comma separated
+function splitTags(value: string): string[] {
+  return value ? value.split(',') : [];
+}
+
+// The list of entries in a JSON export, wrapped or not
+function readJsonList(content: string, keys: string[]): JsonRecord[] | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  if (Array.isArray(data)) return data as JsonRecord[];
+  if (data && typeof data === 'object') {
+    const key = keys.filter((candidate) => Array.isArray((data as JsonRecord)[candidate]))[0];
+    if (key) return (data as JsonRecord)[key] as JsonRecord[];
+  }
+  return null;
+}
+
+// Toggl Track: the detailed report CSV, the Reports API JSON (`data`) or the
+// time entries JSON, which has project ids but no names
+function importToggl(content: string, isJson: boolean, timeZone: string): TrackerImport {
+  if (isJson) {
+    const items = readJsonList(content, ['data', 'time_entries']);
+    if (!items) return { error: 'This doesn\'t look like a Toggl Track JSON export' };
+
+    return {
+      candidates: items.map((item, index) => {
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        const start = toInstant(item.start);
+        let end = toInstant(item.end || item.stop);
+
+        // Reports give the duration in milliseconds, time entries in seconds
+        const duration = typeof item.dur === 'number' ? item.dur : typeof item.duration === 'number' ? item.duration * 1000 : null;
+        if (duration !== null && duration < 0) errors.push('The timer was still running');
+        if (!start) errors.push(`Unrecognised start "${str(item.start)}"`);
+        if (start && !end && duration !== null && duration > 0) end = new Date(start.getTime() + duration);
+        if (!end && errors.length === 0) errors.push('End time is required');
+
+        const projectName = str(item.project || item.project_name);
+        if (!projectName && item.project_id) {
+          warnings.push(`Project ${str(item.project_id)} has no name in this export, so it was left out`);
+        }
+
+        return toCandidate('toggl', index + 1, {
+          start,
+          end,
+          title: str(item.description),
+          task: nameOf(item.task || item.task_name),
+          projectName,
+          clientName: str(item.client || item.client_name),
+          tags: Array.isArray(item.tags) ? item.tags.map(nameOf) : [],
+          billable: item.billable === true || item.is_billable === true,
+          id: str(item.id),
+        }, errors, warnings);
+      }),
+    };
+  }
+
+  const csv = readCsvRecords('toggl', content, ['Description', 'Start date', 'Start time', 'End date', 'End time']);
+  if ('error' in csv) return csv;
+
+  return {
+    candidates: csv.records.map((record, index) => {
+      const errors: string[] = [];
+      return toCandidate('toggl', index + 2, {
+        start: readDateTime(record, 'start date', 'start time', timeZone, errors),
+        end: readDateTime(record, 'end date', 'end time', timeZone, errors),
+        title: record.description || '',
+        task: record.task || '',
+        projectName: record.project || '',
+        clientName: record.client || '',
+        tags: splitTags(record.tags || ''),
+        billable: readBillable(record.billable || '', errors),
+        id: '',
+      }, errors);
+    }),
+  };
+}
+
+// Clockify: the detailed report CSV, the detailed report JSON (`timeentries`)
+// or the time entries JSON from the API
+function importClockify(content: string, isJson: boolean, timeZone: string): TrackerImport {
+  if (isJson) {
+    const items = readJsonList(content, ['timeentries', 'timeEntries']);
+    if (!items) return { error: 'This doesn\'t look like a Clockify JSON export' };
+
+    return {
+      candidates: items.map((item, index) => {
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        const interval = (item.timeInterval || {}) as JsonRecord;
+        const start = toInstant(interval.start);
+        const end = toInstant(interval.end);
+        const project = (item.project || {}) as JsonRecord;
+
+        if (!start) errors.push(`Unrecognised start "${str(interval.start)}"`);
+        if (start && !interval.end) errors.push('The timer was still running');
+        if (start && interval.end && !end) errors.push(`Unrecognised end "${str(interval.end)}"`);
+
+        const projectName = str(item.projectName) || nameOf(item.project);
+        if (!projectName && item.projectId) {
+          warnings.push(`Project ${str(item.projectId)} has no name in this export, so it was left out`);
+        }
+
+        return toCandidate('clockify', index + 1, {
+          start,
+          end,
+          title: str(item.description),
+          task: str(item.taskName) || nameOf(item.task),
+          projectName,
+          clientName: str(item.clientName) || str(project.clientName) || nameOf(item.client),
+          tags: Array.isArray(item.tags) ? item.tags.map(nameOf) : [],
+          billable: item.billable === true,
+          id: str(item.id || item._id),
+        }, errors, warnings);
+      }),
+    };
+  }
+
+  const csv = readCsvRecords('clockify', content, ['Description', 'Start Date', 'Start Time', 'End Date', 'End Time']);
+  if ('error' in csv) return csv;
+
+  return {
+    candidates: csv.records.map((record, index) => {
+      const errors: string[] = [];
+      return toCandidate('clockify', index + 2, {
+        start: readDateTime(record, 'start date', 'start time', timeZone, errors),
+        end: readDateTime(record, 'end date', 'end time', timeZone, errors),
+        title: record.description || '',
+        task: record.task || '',
+        projectName: record.project || '',
+        clientName: record.client || '',
+        tags: splitTags(record.tags || ''),
+        billable: readBillable(record.billable || '', errors),
+        id: '',
+      }, errors);
+    }),
+  };
+}
+
+// Harvest: the detailed time report CSV or the time entries JSON from the API.
+// Entries tracked with timestamps keep their times; the rest are placed one
+// after another from the start of the day.
+function importHarvest(content: string, isJson: boolean, timeZone: string): TrackerImport {
+  // End of the last placed entry on each date
+  const dayCursor: Record<string, Date> = {};
+
+  const place = (date: string | null, hours: number | null, errors: string[]): [Date | null, Date | null] => {
+    if (!date || hours === null) return [null, null];
+    if (hours <= 0) {
+      errors.push('The entry has no hours');
+      return [null, null];
+    }
+
+    const start = dayCursor[date] || combineDateAndTime(date, HARVEST_DAY_START, timeZone);
+    const end = new Date(start.getTime() + hours);
+    dayCursor[date] = end;
+    return [start, end];
+  };
+
+  if (isJson) {
+    const items = readJsonList(content, ['time_entries']);
+    if (!items) return { error: 'This doesn\'t look like a Harvest JSON export' };
+
+    return {
+      candidates: items.map((item, index) => {
+        const errors: string[] = [];
+        const date = parseDateValue(str(item.spent_date));
+        if (!date) errors.push(`Unrecognised spent_date "${str(item.spent_date)}"`);
+        if (item.is_running === true) errors.push('The timer was still running');
+
+        const startTime = parseTimeOfDay(str(item.started_time));
+        const endTime = parseTimeOfDay(str(item.ended_time));
+        const hours = typeof item.hours === 'number' ? Math.round(item.hours * 3600000) : null;
+        if (hours === null && !(startTime && endTime)) errors.push('The entry has no hours');
+
+        let [start, end] = [null, null] as [Date | null, Date | null];
+        if (date && startTime && endTime) {
+          start = combineDateAndTime(date, startTime, timeZone);
+          end = combineDateAndTime(date, endTime, timeZone);
+          // Untimed entries of the day go after it
+          if (!dayCursor[date] || dayCursor[date].getTime() < end.getTime()) dayCursor[date] = end;
+        } else if (errors.length === 0) {
+          [start, end] = place(date, hours, errors);
+        }
+
+        return toCandidate('harvest', index + 1, {
+          start,
+          end,
+          title: str(item.notes),
+          task: nameOf(item.task),
+          projectName: nameOf(item.project),
+          clientName: nameOf(item.client),
+          tags: [],
+          billable: item.billable === true,
+          id: str(item.id),
+        }, errors);
+      }),
+    };
+  }
+
+  const csv = readCsvRecords('harvest', content, ['Date', 'Project', 'Hours']);
+  if ('error' in csv) return csv;
+
+  return {
+    candidates: csv.records.map((record, index) => {
+      const errors: string[] = [];
+      const date = parseDateValue(record.date || '');
+      if (!date) errors.push(`Unrecognised date "${record.date || ''}"`);
+      const hours = parseDuration(record.hours || '');
+      if (hours === null) errors.push(`Unrecognised hours "${record.hours || ''}"`);
+      const billable = readBillable(record['billable?'] || record.billable || '', errors);
+      const [start, end] = errors.length === 0 ? place(date, hours, errors) : [null, null];
+
+      return toCandidate('harvest', index + 2, {
+        start,
+        end,
+        title: record.notes || '',
+        task: record.task || '',
+        projectName: record.project || '',
+        clientName: record.client || '',
+        tags: [],
+        billable,
+        id: '',
+      }, errors);
+    }),
+  };
+}
+
+// Reads an export file; JSON is recognised by its first character
+export function importTrackerExport(source: TrackerSource, content: string, timeZone: string): TrackerImport {
+  const trimmed = (content.charCodeAt(0) === 0xfeff ? content.slice(1) : content).trim();
+  const isJson = trimmed.charAt(0) === '{' || trimmed.charAt(0) === '[';
+
+  switch (source) {
+    case 'toggl':
+      return importToggl(trimmed, isJson, timeZone);
+    case 'clockify':
+      return importClockify(trimmed, isJson, timeZone);
+    case 'harvest':
+      return importHarvest(trimmed, isJson, timeZone);
+  }
+}
@@ -0,0 +1,17 @@
+import User from '@/lib/models/User';
+import { DEFAULT_WORKING_HOURS, WorkingHours } from '@/utils/intervals';
+import { DEFAULT_TIME_ZONE } from '@/utils/timezone';
+
+// The IANA zone used for the user's day boundaries
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const user = await User.findById(userId).select('timezone');
+  return user?.timezone || DEFAULT_TIME_ZONE;
+}
+
+export async function getUserDayPreferences(userId: string): Promise<{ timeZone: string; workingHours: WorkingHours }> {
+  const user = await User.findById(userId).select('timezone workingHours');
+  return {
+    timeZone: user?.timezone || DEFAULT_TIME_ZONE,
+    workingHours: user?.workingHours?.start ? user.workingHours : DEFAULT_WORKING_HOURS,
+  };
+}
@@ -0,0 +1,294 @@
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import { CSV_IMPORT_FIELDS } from '@/lib/csvImport';
+import { TRACKER_SOURCES } from '@/lib/trackerImport';
+import { TIMESHEET_PERIODS } from '@/lib/timesheet';
+import { DEFAULT_SHARE_DAYS, MAX_SHARE_DAYS } from '@/lib/reportSharing';
+import { normalizeTags } from '@/lib/tags';
+import { EXPORT_FORMATS } from '@/utils/exportRows';
+import { INVOICE_GROUPINGS } from '@/utils/invoicing';
+import { REPORT_GROUPINGS, REPORT_RANGES } from '@/utils/reportRanges';
+import { isValidTimeZone } from '@/utils/timezone';
+import { ASSIGNABLE_ROLES } from '@/utils/workspaceRoles';
+
+const isoDateTime = (label: string) =>
+  z.string()
+    .min(1, `${label} is required`)
+    .refine((value) => !isNaN(new Date(value).getTime()), `${label} must be a valid date/time`);
+
+export const objectIdSchema = z.string().refine((value) => mongoose.isValidObjectId(value), 'Invalid id');
+
+export const timeZoneSchema = z.string().refine(isValidTimeZone, 'Invalid time zone');
+
+export const logDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+// Longest range a single request may cover
+export const MAX_RANGE_DAYS = 366;
+
+export const dateRangeSchema = z.object({
+  from: logDateSchema,
+  to: logDateSchema,
+}).refine((range) => range.from <= range.to, {
+  message: '`from` must not be after `to`',
+  path: ['to'],
+}).refine(
+  (range) => (Date.parse(range.to) - Date.parse(range.from)) / 86400000 < MAX_RANGE_DAYS,
+  { message: `Range cannot exceed ${MAX_RANGE_DAYS} days`, path: ['to'] }
+);
+
+// Either a single `date` or a `from`/`to` range; without either the last 7 days are synced
+export const calendarSyncSchema = z.object({
+  date: logDateSchema.optional(),
+  from: logDateSchema.optional(),
+  to: logDateSchema.optional(),
+}).refine((body) => !body.from === !body.to, {
+  message: '`from` and `to` must be given together',
+  path: ['to'],
+});
+
+export const calendarRulesSchema = z.object({
+  skipAllDay: z.boolean(),
+  skipDeclined: z.boolean(),
+  skipTitlePattern: z.string().trim().max(200, 'Pattern must be 200 characters or less').nullable(),
+  projectId: objectIdSchema.nullable(),
+  tags: z.array(z.string().max(50, 'Tags must be 50 characters or less'))
+    .max(20, 'A calendar can assign at most 20 tags')
+    .transform(normalizeTags),
+}).partial();
+
+export const calendarSourceSchema = z.object({
+  name: z.string().trim().max(200),
+  enabled: z.boolean(),
+  rules: calendarRulesSchema,
+}).partial();
+
+export const calendarProviderSchema = z.enum(['google', 'caldav']);
+
+export const caldavAccountSchema = z.object({
+  serverUrl: z.string().trim().url('Invalid server URL')
+    .refine((value) => /^https?:\/\//i.test(value), 'Server URL must start with http:// or https://'),
+  username: z.string().trim().min(1, 'Username is required').max(200),
+  password: z.string().min(1, 'Password is required').max(500),
+});
+
+// Largest accepted import file
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+export const csvImportSchema = z.object({
+  content: z.string().min(1, 'The file is empty').max(MAX_IMPORT_BYTES, 'File is too large (max 5 MB)'),
+  delimiter: z.enum([',', '\t', ';']).optional(),
+  mapping: z.record(z.enum(CSV_IMPORT_FIELDS), z.string().nullable()).optional(),
+  dryRun: z.boolean().default(true),
+  skipInvalidRows: z.boolean().default(false),
+});
+
+export const trackerImportSchema = z.object({
+  source: z.enum(TRACKER_SOURCES),
+  content: z.string().min(1, 'The file is empty').max(MAX_IMPORT_BYTES, 'File is too large (max 5 MB)'),
+  dryRun: z.boolean().default(true),
+  skipInvalidRows: z.boolean().default(false),
+});
+
+// Unlike dateRangeSchema there is no length limit, and either end may be left open
+export const exportQuerySchema = z.object({
+  from: logDateSchema.optional(),
+  to: logDateSchema.optional(),
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+}).refine((query) => !query.from || !query.to || query.from <= query.to, {
+  message: '`from` must not be after `to`',
+  path: ['to'],
+});
+
+export const timesheetQuerySchema = z.object({
+  period: z.enum(TIMESHEET_PERIODS).default('week'),
+  date: logDateSchema, // Any day in the week or month
+  projectId: objectIdSchema.optional(),
+});
+
+// Custom ranges follow the same rules as dateRangeSchema
+export const reportDefinitionSchema = z.object({
+  range: z.enum(REPORT_RANGES).default('this-week'),
+  from: logDateSchema.optional(),
+  to: logDateSchema.optional(),
+  groupBy: z.enum(REPORT_GROUPINGS).default('day'),
+  projectId: objectIdSchema.optional(),
+  tags: z.array(z.string().max(50, 'Tags must be 50 characters or less'))
+    .max(20, 'A report can filter by at most 20 tags')
+    .transform(normalizeTags)
+    .default([]),
+}).superRefine((definition, ctx) => {
+  if (definition.range !== 'custom') return;
+
+  const result = dateRangeSchema.safeParse({ from: definition.from, to: definition.to });
+  if (!result.success) {
+    result.error.issues.forEach((issue) => ctx.addIssue(issue));
+  }
+});
+
+export const savedReportSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or less'),
+  definition: reportDefinitionSchema,
+});
+
+export const updateSavedReportSchema = savedReportSchema.partial();
+
+export const shareLinkSchema = z.object({
+  expiresInDays: z.number().int()
+    .min(1, 'Links must be valid for at least a day')
+    .max(MAX_SHARE_DAYS, `Links can be valid for at most ${MAX_SHARE_DAYS} days`)
+    .default(DEFAULT_SHARE_DAYS),
+});
+
+// Also used for previews, where dueDate and notes are ignored
+export const invoiceSchema = z.object({
+  clientId: objectIdSchema,
+  from: logDateSchema,
+  to: logDateSchema,
+  groupBy: z.enum(INVOICE_GROUPINGS).default('project'),
+  dueDate: logDateSchema.nullable().optional(),
+  notes: z.string().trim().max(2000, 'Notes must be 2000 characters or less').default(''),
+}).superRefine((invoice, ctx) => {
+  const result = dateRangeSchema.safeParse({ from: invoice.from, to: invoice.to });
+  if (!result.success) {
+    result.error.issues.forEach((issue) => ctx.addIssue(issue));
+  }
+});
+
+export const invoiceDocumentQuerySchema = z.object({
+  format: z.enum(['html', 'pdf']).default('html'),
+});
+
+export const summaryQuerySchema = z.object({
+  groupBy: z.enum(['day', 'week', 'month']).default('day'),
+});
+
+export const logEntryFieldsSchema = z.object({
+  type: z.enum(['manual', 'calendar']).default('manual'),
+  startTime: isoDateTime('Start time'),
+  endTime: isoDateTime('End time'),
+  title: z.string().trim().min(1, 'Title is required'),
+  description: z.string().optional().default(''),
+  sourceId: z.string().optional(),
+  projectId: objectIdSchema.nullable().optional(),
+  tags: z.array(z.string().max(50, 'Tags must be 50 characters or less'))
+    .max(20, 'An entry can have at most 20 tags')
+    .transform(normalizeTags)
+    .optional(),
+  billable: z.boolean().optional(),
+  hourlyRate: z.number().min(0, 'Hourly rate cannot be negative').nullable().optional(),
+});
+
+// Body for creating a new entry
+export const createLogEntrySchema = logEntryFieldsSchema.refine(
+  (data) => isValidTimeRange(data.startTime, data.endTime),
+  {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  }
+);
+
+// Body for updating an entry - the time range is checked against the merged entry
+export const updateLogEntrySchema = logEntryFieldsSchema.partial();
+
+// Bodies for replacing a whole day. Entries keep their _id and the stored
+// fields this schema doesn't know about, such as calendar sync metadata.
+const dayLogEntrySchema = logEntryFieldsSchema
+  .extend({ _id: objectIdSchema.optional() })
+  .passthrough()
+  .refine((data) => isValidTimeRange(data.startTime, data.endTime), {
+    message: 'End time must be after start time',
+    path: ['endTime'],
+  });
+
+export const replaceDayLogSchema = z.object({
+  entries: z.array(dayLogEntrySchema),
+});
+
+export const createDayLogSchema = replaceDayLogSchema.extend({
+  date: logDateSchema,
+});
+
+export const timerStartSchema = logEntryFieldsSchema.pick({
+  title: true,
+  description: true,
+  projectId: true,
+  tags: true,
+  billable: true,
+});
+
+export const clientSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  email: z.string().email('Invalid email address').optional().or(z.literal('')),
+  notes: z.string().optional().default(''),
+  archived: z.boolean().optional().default(false),
+});
+
+export const updateClientSchema = clientSchema.partial();
+
+export const projectSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  clientId: objectIdSchema.nullable().optional(),
+  workspaceId: objectIdSchema.nullable().optional(), // Shares the project with a workspace
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #3b82f6').optional(),
+  hourlyRate: z.number().min(0, 'Hourly rate cannot be negative').nullable().optional(),
+  archived: z.boolean().optional().default(false),
+});
+
+export const updateProjectSchema = projectSchema.partial();
+
+export const workspaceSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or less'),
+});
+
+export const workspaceInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Invalid email address'),
+  role: z.enum(ASSIGNABLE_ROLES).default('member'),
+});
+
+export const workspaceMemberSchema = z.object({
+  role: z.enum(ASSIGNABLE_ROLES),
+});
+
+export const timesheetSubmitSchema = z.object({
+  workspaceId: objectIdSchema,
+});
+
+export const timesheetReviewSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  comment: z.string().trim().max(1000, 'Comment must be 1000 characters or less').default(''),
+}).refine((review) => review.decision === 'approve' || review.comment.length > 0, {
+  message: 'Say why the timesheet is rejected',
+  path: ['comment'],
+});
+
+export const tagSchema = z.object({
+  name: z.string().trim().toLowerCase().min(1, 'Name is required').max(50, 'Tags must be 50 characters or less'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex value like #6b7280').optional(),
+});
+
+export const updateTagSchema = tagSchema.partial();
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
+export const workingHoursSchema = z.object({
+  start: timeOfDaySchema,
+  end: timeOfDaySchema,
+}).refine((hours) => hours.start < hours.end, {
+  message: 'Working hours must end after they start',
+  path: ['end'],
+});
+
+export const userSettingsSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters'),
+  defaultHourlyRate: z.number().min(0, 'Hourly rate cannot be negative').nullable(),
+  currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter code'),
+  timezone: timeZoneSchema,
+  workingHours: workingHoursSchema,
+}).partial();
+
+export type CreateLogEntryInput = z.infer<typeof createLogEntrySchema>;
+export type UpdateLogEntryInput = z.infer<typeof updateLogEntrySchema>;
+
+export function isValidTimeRange(startTime: string, endTime: string): boolean {
+  return new Date(endTime).getTime() > new Date(startTime).getTime();
+}
@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Workspace, { IWorkspace } from '@/lib/models/Workspace';
+import { rolesWith, WorkspacePermission, WorkspaceRole } from '@/utils/workspaceRoles';
+
+// Membership lookups shared by the workspace routes and everything that
+// resolves projects, since a project is either personal or shared with a
+// workspace. See utils/workspaceRoles for what each role may do.
+
+// How long an invitation link stays valid
+export const INVITATION_DAYS = 7;
+
+export function getMemberRole(workspace: IWorkspace, userId: string): WorkspaceRole | null {
+  const member = workspace.members.find((item) => String(item.userId) === userId);
+  return member ? member.role : null;
+}
+
+// Null when the workspace doesn't exist or the user isn't a member
+export async function findMembership(
+  workspaceId: string,
+  userId: string
+): Promise<{ workspace: IWorkspace; role: WorkspaceRole } | null> {
+  if (!mongoose.isValidObjectId(workspaceId)) return null;
+
+  const workspace: IWorkspace | null = await Workspace.findOne({ _id: workspaceId, 'members.userId': userId });
+  const role = workspace ? getMemberRole(workspace, userId) : null;
+
+  return workspace && role ? { workspace, role } : null;
+}
+
+// Workspaces the user belongs to, optionally only those where their role grants the permission
+export async function getWorkspaceIds(
+  userId: string,
+  permission?: WorkspacePermission
+): Promise<mongoose.Types.ObjectId[]> {
+  const member: Record<string, unknown> = { userId: new mongoose.Types.ObjectId(userId) };
+  if (permission) member.role = { $in: rolesWith(permission) };
+
+  const workspaces = await Workspace.find({ members: { $elemMatch: member } }).select('_id');
+  return workspaces.map((workspace: IWorkspace) => workspace._id as mongoose.Types.ObjectId);
+}
+
+// Query for the projects a user can see: their personal projects and those of
+// their workspaces. Pass 'trackTime' for the projects they may log time on.
+export async function projectAccessFilter(userId: string, permission?: WorkspacePermission) {
+  const workspaceIds = await getWorkspaceIds(userId, permission);
+
+  return {
+    $or: [
+      { userId, workspaceId: null },
+      { workspaceId: { $in: workspaceIds } },
+    ],
+  };
+}
+
+// Only the hash is stored, so a database leak doesn't expose usable links
+export function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function createInvitationToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashInvitationToken(token) };
+}
@@ -12,6 +12,23 @@ export default withAuth(
 );
 
 export const config = {
-  matcher: ['/dashboard/:path*', '/api/logs/:path*', '/api/calendar/:path*']
+  matcher: [
+    '/dashboard/:path*',
+    '/api/logs/:path*',
+    '/api/calendar/:path*',
+    '/api/projects/:path*',
+    '/api/clients/:path*',
+    '/api/tags/:path*',
+    '/api/timer/:path*',
+    '/api/import/:path*',
+    '/api/export/:path*',
+    '/api/invoices/:path*',
+    '/api/reports/:path*',
+    '/api/timesheets/:path*',
+    '/api/workspaces/:path*',
+    '/api/invitations/:path*',
+    '/invitations/:path*',
+    '/api/users/me',
+  ]
 };
 
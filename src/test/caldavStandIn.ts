@@ -0,0 +1,153 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// A minimal in-process CalDAV server for exercising the CalDAV provider
+// without a real Nextcloud, Fastmail or Radicale. It answers the requests the
+// provider makes, shaped the way real servers shape them: principal and
+// calendar-home discovery, calendar listing, CTags (with the sync-token in a
+// 404 propstat) and calendar-query REPORTs. Hrefs are relative and prefixes
+// vary, as they do in the wild. Time ranges are not filtered server-side;
+// every stored object is returned and the provider's parser does the rest.
+
+export interface StandInCalendar {
+  id: string; // Path segment under the calendar home
+  name: string;
+  color?: string; // Sent as-is, e.g. "#3366CCFF"
+  components?: string[]; // Defaults to VEVENT
+  ctag: string;
+  objects: Record<string, string>; // File name to iCalendar data
+}
+
+export interface StandInRequest {
+  method: string;
+  path: string;
+  depth: string | null;
+  body: string;
+}
+
+export interface CalDavStandIn {
+  url: string; // Server root, as a user would enter it
+  calendarUrl(id: string): string;
+  calendars: StandInCalendar[]; // Live: change ctags and objects between calls
+  requests: StandInRequest[];
+  close(): Promise<void>;
+}
+
+interface StandInOptions {
+  username: string;
+  password: string;
+  calendars: StandInCalendar[];
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function multistatus(responses: string[]): string {
+  return '<?xml version="1.0" encoding="utf-8"?>' +
+    '<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav" ' +
+    'xmlns:cs="http://calendarserver.org/ns/" xmlns:x1="http://apple.com/ns/ical/">' +
+    responses.join('') +
+    '</d:multistatus>';
+}
+
+function response(href: string, props: string, missing = ''): string {
+  return `<d:response><d:href>${href}</d:href>` +
+    `<d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat>` +
+    (missing ? `<d:propstat><d:prop>${missing}</d:prop><d:status>HTTP/1.1 404 Not Found</d:status></d:propstat>` : '') +
+    '</d:response>';
+}
+
+export async function startCalDavStandIn(options: StandInOptions): Promise<CalDavStandIn> {
+  const { username, password, calendars } = options;
+  const principalPath = `/principals/${username}/`;
+  const homePath = `/calendars/${username}/`;
+  const requests: StandInRequest[] = [];
+  const expectedAuth = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+
+  const findCalendar = (path: string) => calendars.filter((calendar) => `${homePath}${calendar.id}/` === path)[0];
+
+  const handle = (method: string, path: string, depth: string | null): string | null => {
+    if (method === 'PROPFIND' && (path === '/' || path === '/.well-known/caldav')) {
+      return multistatus([response(path, `<d:current-user-principal><d:href>${principalPath}</d:href></d:current-user-principal>`)]);
+    }
+
+    if (method === 'PROPFIND' && path === principalPath) {
+      return multistatus([response(path, `<cal:calendar-home-set><d:href>${homePath}</d:href></cal:calendar-home-set>`)]);
+    }
+
+    if (method === 'PROPFIND' && path === homePath) {
+      const home = response(homePath, '<d:resourcetype><d:collection/></d:resourcetype>');
+      if (depth !== '1') return multistatus([home]);
+
+      // Calendars without a color report it missing, like Radicale does
+      return multistatus([home].concat(calendars.map((calendar) => response(
+        `${homePath}${calendar.id}/`,
+        '<d:resourcetype><d:collection/><cal:calendar/></d:resourcetype>' +
+          `<d:displayname>${escapeXml(calendar.name)}</d:displayname>` +
+          (calendar.color ? `<x1:calendar-color symbolic-color="custom">${calendar.color}</x1:calendar-color>` : '') +
+          '<cal:supported-calendar-component-set>' +
+            (calendar.components || ['VEVENT']).map((name) => `<cal:comp name="${name}"/>`).join('') +
+          '</cal:supported-calendar-component-set>',
+        calendar.color ? '' : '<x1:calendar-color/>'
+      ))));
+    }
+
+    const calendar = findCalendar(path);
+    if (!calendar) return null;
+
+    if (method === 'PROPFIND') {
+      return multistatus([response(path, `<cs:getctag>${escapeXml(calendar.ctag)}</cs:getctag>`, '<d:sync-token/>')]);
+    }
+
+    if (method === 'REPORT') {
+      return multistatus(Object.keys(calendar.objects).map((name) => response(
+        `${path}${name}`,
+        `<d:getetag>"${name}-${calendar.ctag}"</d:getetag>` +
+          `<cal:calendar-data>${escapeXml(calendar.objects[name])}</cal:calendar-data>`
+      )));
+    }
+
+    return null;
+  };
+
+  const server = http.createServer((request, reply) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', (chunk) => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      const path = new URL(request.url || '/', 'http://stand-in').pathname;
+      const depth = (request.headers.depth as string | undefined) || null;
+      requests.push({ method: request.method || '', path, depth, body });
+
+      if (request.headers.authorization !== expectedAuth) {
+        reply.writeHead(401, { 'WWW-Authenticate': 'Basic realm="stand-in"' });
+        reply.end();
+        return;
+      }
+
+      const xml = handle(request.method || '', path, depth);
+      if (xml === null) {
+        reply.writeHead(404);
+        reply.end();
+        return;
+      }
+
+      reply.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' });
+      reply.end(xml);
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+  return {
+    url,
+    calendarUrl: (id) => new URL(`${homePath}${id}/`, url).toString(),
+    calendars,
+    requests,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,11 @@
+// Builders for the iCalendar text that CalDAV servers and .ics files carry
+
+export function ics(events: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Test//EN']
+    .concat(events, ['END:VCALENDAR'])
+    .join('\r\n');
+}
+
+export function vevent(uid: string, lines: string[]): string {
+  return ['BEGIN:VEVENT', `UID:${uid}`, 'DTSTAMP:20240101T000000Z'].concat(lines, ['END:VEVENT']).join('\r\n');
+}
@@ -0,0 +1,52 @@
+// An in-memory stand-in for one user's Log documents, for exercising code that
+// reads logs with Log.find and writes them with replaceLogEntries without a
+// MongoDB server. Writes follow the same version rules as the real helper: a
+// mismatched version is a conflict (null) and only version 0 creates a log.
+
+export interface StoredLog {
+  date: string;
+  version: number;
+  entries: Record<string, unknown>[];
+}
+
+export interface LogStore {
+  logs: Record<string, StoredLog>; // By date; live, so tests can change them between calls
+  // Called before each write, e.g. to simulate another session editing that day
+  beforeWrite: ((date: string) => void) | null;
+  writes: string[]; // Dates in the order they were written
+  find(): { date: string; version: number; entries: Record<string, unknown>[]; toObject(): StoredLog }[];
+  replaceLogEntries(userId: string, date: string, entries: unknown[], expectedVersion: number): Promise<StoredLog | null>;
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+export function createLogStore(logs: StoredLog[]): LogStore {
+  const store: LogStore = {
+    logs: {},
+    beforeWrite: null,
+    writes: [],
+    // Every log of the user; callers only need a superset of what they asked for
+    find() {
+      return Object.values(store.logs).map((log) => ({ ...clone(log), toObject: () => clone(log) }));
+    },
+    async replaceLogEntries(userId, date, entries, expectedVersion) {
+      store.beforeWrite?.(date);
+
+      const current = store.logs[date];
+      if ((current?.version || 0) !== expectedVersion) return null;
+
+      const written = { date, version: expectedVersion + 1, entries: clone(entries) as Record<string, unknown>[] };
+      store.logs[date] = written;
+      store.writes.push(date);
+      return clone(written);
+    },
+  };
+
+  logs.forEach((log) => {
+    store.logs[log.date] = clone(log);
+  });
+
+  return store;
+}
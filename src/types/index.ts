@@ -4,14 +4,27 @@ export interface User {
   email: string;
   passwordHash: string;
   googleAuthTokens?: {
-    accessToken: string;
-    refreshToken: string;
-    expiryDate: number;
+    accessToken?: string | null; // Encrypted
+    refreshToken?: string | null; // Encrypted
+    expiryDate?: number | null;
+    scope?: string | null;
+    revokedAt?: Date | null;
+  };
+  defaultHourlyRate?: number | null;
+  currency: string;
+  // IANA zone such as "Europe/Berlin"; null until first reported by the browser
+  timezone?: string | null;
+  workingHours?: {
+    start: string; // HH:mm
+    end: string;
   };
   createdAt: Date;
   updatedAt: Date;
 }
 
+// The subset of User returned by /api/users/me
+export type UserSettings = Pick<User, '_id' | 'name' | 'email' | 'defaultHourlyRate' | 'currency' | 'timezone' | 'workingHours'>;
+
 export interface LogEntry {
   _id?: string;
   type: 'manual' | 'calendar';
@@ -20,6 +33,18 @@ export interface LogEntry {
   title: string;
   description: string;
   sourceId?: string; // For calendar sync reference
+  locallyModified?: boolean; // Synced entry the user has edited
+  original?: {
+    startTime: string;
+    endTime: string;
+    title: string;
+    description: string;
+  } | null;
+  projectId?: string | null;
+  tags?: string[];
+  billable?: boolean;
+  hourlyRate?: number | null; // Overrides the project/user default rate
+  invoiceId?: string | null; // Set once the entry is billed
 }
 
 export interface Log {
@@ -27,10 +52,288 @@ export interface Log {
   userId: string;
   date: string; // YYYY-MM-DD format
   entries: LogEntry[];
+  version: number; // Sent as ETag, echoed back in If-Match on writes
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Client {
+  _id: string;
+  userId: string;
+  name: string;
+  email?: string;
+  notes: string;
+  archived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Project {
+  _id: string;
+  userId: string;
+  // Populated with the client's name when listed
+  clientId?: string | Pick<Client, '_id' | 'name'> | null;
+  workspaceId?: string | null; // Shared with a workspace
+  name: string;
+  color: string;
+  hourlyRate?: number | null;
+  archived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Tag {
+  _id: string;
+  userId: string;
+  name: string;
+  color: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Timer {
+  _id: string;
+  userId: string;
+  startTime: string; // ISO string, set by the server
+  title: string;
+  description: string;
+  projectId?: string | null;
+  tags: string[];
+  billable: boolean;
+}
+
+export interface CalendarRules {
+  skipAllDay: boolean;
+  skipDeclined: boolean;
+  skipTitlePattern?: string | null;
+  projectId?: string | null; // Assigned to newly imported entries
+  tags: string[];
+}
+
+export type CalendarProviderName = 'google' | 'caldav';
+
+// A calendar as returned by /api/calendar/calendars
+export interface CalendarSettings {
+  calendarId: string;
+  provider: CalendarProviderName;
+  name: string;
+  color: string | null;
+  primary: boolean;
+  enabled: boolean;
+  rules: CalendarRules;
+  lastSyncedAt: string | null;
+}
+
+// As returned by GET /api/calendar/sync
+export interface CalendarSyncStatus {
+  status: 'success' | 'error' | null;
+  trigger: 'manual' | 'scheduled' | null;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  error: string | null;
+  entriesAdded: number;
+  entriesUpdated: number;
+  entriesRemoved: number;
+  isRunning: boolean;
+  intervalMinutes: number;
+}
+
+// As returned by /api/calendar/connection
+export interface GoogleConnection {
+  connected: boolean;
+  revoked: boolean;
+  scope: string | null;
+}
+
+// As returned by /api/calendar/caldav
+export interface CalDavConnection {
+  connected: boolean;
+  serverUrl: string | null;
+  username: string | null;
+}
+
+export type CsvImportField =
+  | 'date'
+  | 'start'
+  | 'end'
+  | 'duration'
+  | 'title'
+  | 'description'
+  | 'type'
+  | 'tags'
+  | 'billable';
+
+export interface ImportRow {
+  row: number;
+  status: 'new' | 'duplicate' | 'error';
+  date: string | null;
+  entry: {
+    startTime: string;
+    endTime: string;
+    title: string;
+    tags: string[];
+    billable: boolean;
+    projectName?: string | null;
+  } | null;
+  errors: string[];
+  warnings: string[];
+}
+
+// As returned by the /api/import endpoints
+export interface ImportPreview {
+  headers?: string[]; // CSV imports only
+  mapping?: Partial<Record<CsvImportField, string | null>>;
+  summary: { rows: number; new: number; duplicates: number; errors: number };
+  newProjects: string[];
+  rows: ImportRow[];
+  truncated: boolean;
+  committed: boolean;
+  entriesAdded?: number;
+  projectsCreated?: number;
+  error?: string;
+}
+
+export type ImportSource = 'csv' | 'toggl' | 'clockify' | 'harvest';
+
+export type ReportRange = 'this-week' | 'last-week' | 'this-month' | 'last-month' | 'custom';
+
+export type ReportGrouping = 'day' | 'week' | 'project' | 'tag' | 'type';
+
+export interface ReportTotals {
+  totalMs: number;
+  billableMs: number;
+  amount: number;
+  entryCount: number;
+  daysTracked: number;
+}
+
+export interface ReportRow extends ReportTotals {
+  key: string | null;
+  label: string;
+  color: string | null;
+}
+
+// As returned by GET /api/reports
+export interface Report {
+  definition: {
+    range: ReportRange;
+    from?: string;
+    to?: string;
+    groupBy: ReportGrouping;
+    projectId?: string;
+    tags: string[];
+  };
+  from: string;
+  to: string;
+  timeZone: string;
+  currency: string;
+  rows: ReportRow[];
+  totals: ReportTotals;
+}
+
+export interface SavedReport {
+  _id: string;
+  userId: string;
+  name: string;
+  definition: Report['definition'];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+// As listed by GET /api/workspaces
+export interface WorkspaceSummary {
+  _id: string;
+  name: string;
+  role: WorkspaceRole;
+  memberCount: number;
+}
+
+// As returned by GET /api/workspaces/[id]
+export interface WorkspaceDetails {
+  _id: string;
+  name: string;
+  role: WorkspaceRole;
+  members: {
+    userId: string;
+    name: string;
+    email: string;
+    role: WorkspaceRole;
+    joinedAt: string;
+  }[];
+  projects: Pick<Project, '_id' | 'name' | 'color' | 'archived'>[];
+  invitations: {
+    _id: string;
+    email: string;
+    role: Exclude<WorkspaceRole, 'owner'>;
+    expiresAt: string;
+  }[];
+}
+
+export type TimesheetStatus = 'draft' | 'submitted' | 'approved' | 'rejected';
+
+// A week submitted for approval, as listed by the /api/timesheets GET routes
+// with its people and workspace filled in. Weeks that were never submitted
+// come back as a bare draft.
+export interface TimesheetRecord {
+  _id?: string;
+  userId?: { _id: string; name: string; email: string } | string; // Filled in by the approval queue
+  workspaceId?: { _id: string; name: string } | null;
+  weekStart: string;
+  weekEnd: string;
+  status: TimesheetStatus;
+  days?: { date: string; totalMs: number; billableMs: number }[];
+  totalMs?: number;
+  billableMs?: number;
+  submittedAt?: string | null;
+  reviewedBy?: { _id: string; name: string } | null;
+  reviewedAt?: string | null;
+  comment: string;
+}
+
+export type InvoiceGrouping = 'project' | 'task';
+
+export type InvoiceStatus = 'issued' | 'void';
+
+export interface InvoiceLine {
+  description: string;
+  projectId?: string | null;
+  entryCount: number;
+  hours: number;
+  rate: number;
+  amount: number;
+}
+
+// The invoice list leaves out `lines`; GET /api/invoices/[id] has them
+export interface Invoice {
+  _id: string;
+  clientId: string;
+  number: string;
+  issuer: { name: string; email?: string | null };
+  billTo: { name: string; email?: string | null };
+  issueDate: string;
+  dueDate?: string | null;
+  from: string;
+  to: string;
+  groupBy: InvoiceGrouping;
+  currency: string;
+  lines?: InvoiceLine[];
+  total: number;
+  notes: string;
+  status: InvoiceStatus;
+  voidedAt?: string | null;
+  createdAt: string;
+}
+
+// What POST /api/invoices/preview returns
+export interface InvoicePreview {
+  lines: InvoiceLine[];
+  total: number;
+  currency: string;
+  entryCount: number;
+}
+
 export interface GoogleCalendarEvent {
   id: string;
   summary: string;
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { entryRateExpression, getEntryRate } from '@/utils/billing';
+
+// Evaluates the subset of MongoDB expressions entryRateExpression uses
+function evaluate(expression: unknown, document: Record<string, unknown>): unknown {
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    const value = expression.slice(1).split('.').reduce<unknown>(
+      (current, key) => (current == null ? undefined : (current as Record<string, unknown>)[key]),
+      document
+    );
+    return value === undefined ? null : value;
+  }
+  if (expression && typeof expression === 'object' && '$ifNull' in expression) {
+    const [value, fallback] = (expression as { $ifNull: unknown[] }).$ifNull;
+    const resolved = evaluate(value, document);
+    return resolved == null ? evaluate(fallback, document) : resolved;
+  }
+  return expression;
+}
+
+describe('entryRateExpression', () => {
+  const projects = [{ _id: 'rated', hourlyRate: 80 }, { _id: 'unrated', hourlyRate: null }];
+  const cases = [
+    { hourlyRate: 120, projectId: 'rated' },
+    { hourlyRate: 0, projectId: 'rated' },
+    { hourlyRate: null, projectId: 'rated' },
+    { hourlyRate: null, projectId: 'unrated' },
+    { hourlyRate: undefined, projectId: null },
+    { hourlyRate: 45, projectId: null },
+  ];
+
+  it('resolves the same rate as getEntryRate', () => {
+    [0, 60].forEach((defaultHourlyRate) => {
+      cases.forEach((entry) => {
+        const project = projects.filter((candidate) => candidate._id === entry.projectId)[0];
+        const document = { entries: entry, project };
+        const expression = entryRateExpression('$entries.hourlyRate', '$project.hourlyRate', defaultHourlyRate);
+
+        expect(evaluate(expression, document)).toBe(
+          getEntryRate({ startTime: '', endTime: '', ...entry }, projects, defaultHourlyRate)
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { parseEntryTime } from '@/utils/timezone';
+
+// Rate resolution for the dashboard, timesheets, invoices and reports. An
+// entry's own rate wins, then its project's rate, then the user's default
+// rate. Reports resolve rates inside their aggregation pipeline with
+// entryRateExpression, which billing.test.ts keeps in step with getEntryRate.
+
+interface RatedEntry {
+  startTime: string;
+  endTime: string;
+  billable?: boolean;
+  hourlyRate?: number | null;
+  projectId?: string | null;
+}
+
+interface RatedProject {
+  _id: string;
+  hourlyRate?: number | null;
+}
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+export function getEntryRate(
+  entry: RatedEntry,
+  projects: RatedProject[],
+  defaultHourlyRate?: number | null
+): number {
+  if (entry.hourlyRate != null) return entry.hourlyRate;
+
+  const project = entry.projectId ? projects.find(p => p._id === entry.projectId) : undefined;
+  if (project && project.hourlyRate != null) return project.hourlyRate;
+
+  return defaultHourlyRate ?? 0;
+}
+
+// getEntryRate as a MongoDB expression, given the paths of the entry's rate
+// and its looked-up project's rate
+export function entryRateExpression(entryRate: string, projectRate: string, defaultHourlyRate: number) {
+  return { $ifNull: [entryRate, { $ifNull: [projectRate, defaultHourlyRate] }] };
+}
+
+// Entry times are read in the user's zone, so DST days bill their real length
+export function getEntryHours(entry: RatedEntry, timeZone: string): number {
+  const start = parseEntryTime(entry.startTime, timeZone).getTime();
+  const end = parseEntryTime(entry.endTime, timeZone).getTime();
+  return (end - start) / MS_PER_HOUR;
+}
+
+// Non-billable entries are always worth 0
+export function getEntryAmount(
+  entry: RatedEntry,
+  projects: RatedProject[],
+  defaultHourlyRate: number | null | undefined,
+  timeZone: string
+): number {
+  if (!entry.billable) return 0;
+  return getEntryHours(entry, timeZone) * getEntryRate(entry, projects, defaultHourlyRate);
+}
+
+export function formatCurrency(amount: number, currency = 'USD'): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown currency codes fall back to a plain number
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
@@ -0,0 +1,83 @@
+import { formatEntryTime, parseEntryTime } from '@/utils/timezone';
+
+// Columns of copied and exported time logs. The clipboard copy and the export
+// API share them, so pasted days and downloaded files line up in a spreadsheet.
+
+export const EXPORT_COLUMNS = [
+  'Date',
+  'Start Time',
+  'End Time',
+  'Duration',
+  'Title',
+  'Description',
+  'Type',
+  'Project',
+  'Tags',
+  'Billable',
+] as const;
+
+export type ExportColumn = typeof EXPORT_COLUMNS[number];
+
+export const EXPORT_FORMATS = ['csv', 'tsv', 'json', 'xlsx'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+interface ExportableEntry {
+  type: string;
+  startTime: string;
+  endTime: string;
+  title: string;
+  description?: string;
+  tags?: string[];
+  billable?: boolean;
+}
+
+export function formatDuration(ms: number): string {
+  const hours = Math.floor(ms / (1000 * 60 * 60));
+  const minutes = Math.floor((ms % (1000 * 60 * 60)) / (1000 * 60));
+  return `${hours}h ${minutes}m`;
+}
+
+// Oldest first, as they happened during the day
+export function sortEntriesByStart<T extends ExportableEntry>(entries: T[], timeZone: string): T[] {
+  return entries.slice().sort((a, b) =>
+    parseEntryTime(a.startTime, timeZone).getTime() - parseEntryTime(b.startTime, timeZone).getTime()
+  );
+}
+
+// One row in EXPORT_COLUMNS order; times are 24-hour clock in the user's zone
+export function toExportRow(
+  date: string,
+  entry: ExportableEntry,
+  projectName: string,
+  timeZone: string
+): string[] {
+  const duration = parseEntryTime(entry.endTime, timeZone).getTime() - parseEntryTime(entry.startTime, timeZone).getTime();
+
+  return [
+    date,
+    formatEntryTime(entry.startTime, timeZone, 'HH:mm'),
+    formatEntryTime(entry.endTime, timeZone, 'HH:mm'),
+    formatDuration(duration),
+    entry.title,
+    entry.description || '',
+    entry.type,
+    projectName,
+    // Semicolons, as tags themselves may contain commas
+    (entry.tags || []).join('; '),
+    entry.billable ? 'yes' : 'no',
+  ];
+}
+
+// Tab-separated line for spreadsheets; tabs and line breaks inside values
+// would start a new cell or row, so they become spaces
+export function toTsvLine(values: string[]): string {
+  return values.map(value => value.replace(/[\t\r\n]+/g, ' ')).join('\t');
+}
+
+// RFC 4180 line, quoting only the values that need it
+export function toCsvLine(values: string[]): string {
+  return values
+    .map(value => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value))
+    .join(',');
+}
@@ -0,0 +1,172 @@
+import { parseEntryTime } from './timezone';
+
+// Interval math for a day's entries. Calendar events often overlap manual
+// entries, so totals use the union of intervals instead of a plain sum.
+
+interface TimedEntry {
+  _id?: string;
+  startTime: string;
+  endTime: string;
+  title: string;
+}
+
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+export interface WorkingHours {
+  start: string; // HH:mm in the user's zone
+  end: string;
+}
+
+export interface EntryOverlap {
+  entryIds: string[];
+  titles: string[];
+  start: string;
+  end: string;
+  durationMs: number;
+}
+
+export interface TimeGap {
+  start: string;
+  end: string;
+  durationMs: number;
+}
+
+export interface DayAnalysis {
+  date: string;
+  totalMs: number; // Union of all entries
+  rawTotalMs: number; // Plain sum, counting overlapping time twice
+  overlapMs: number;
+  overlaps: EntryOverlap[];
+  gaps: TimeGap[];
+  workingHours: WorkingHours;
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = { start: '09:00', end: '17:00' };
+
+// Gaps shorter than this are breaks between meetings, not untracked time
+export const MIN_GAP_MS = 15 * 60 * 1000;
+
+// Returns null for unparseable or empty ranges
+export function toInterval(entry: TimedEntry, timeZone: string): TimeInterval | null {
+  const start = parseEntryTime(entry.startTime, timeZone).getTime();
+  const end = parseEntryTime(entry.endTime, timeZone).getTime();
+  if (isNaN(start) || isNaN(end) || end <= start) return null;
+  return { start, end };
+}
+
+// Sorted, non-overlapping intervals covering the same time as the input
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals.slice().sort((a, b) => a.start - b.start);
+
+  return sorted.reduce<TimeInterval[]>((merged, interval) => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+    return merged;
+  }, []);
+}
+
+function getIntervals(entries: TimedEntry[], timeZone: string): TimeInterval[] {
+  return entries
+    .map(entry => toInterval(entry, timeZone))
+    .filter((interval): interval is TimeInterval => interval !== null);
+}
+
+// Tracked time with overlapping entries counted once
+export function getUnionDuration(entries: TimedEntry[], timeZone: string): number {
+  return mergeIntervals(getIntervals(entries, timeZone))
+    .reduce((total, interval) => total + (interval.end - interval.start), 0);
+}
+
+export function getRawDuration(entries: TimedEntry[], timeZone: string): number {
+  return getIntervals(entries, timeZone)
+    .reduce((total, interval) => total + (interval.end - interval.start), 0);
+}
+
+// Every pair of entries that share time, earliest first
+export function findOverlaps(entries: TimedEntry[], timeZone: string): EntryOverlap[] {
+  const timed = entries
+    .map(entry => ({ entry, interval: toInterval(entry, timeZone) }))
+    .filter((item): item is { entry: TimedEntry; interval: TimeInterval } => item.interval !== null)
+    .sort((a, b) => a.interval.start - b.interval.start);
+
+  const overlaps: EntryOverlap[] = [];
+
+  timed.forEach((current, index) => {
+    // Sorted by start, so only later entries starting before this one ends can overlap
+    for (let i = index + 1; i < timed.length && timed[i].interval.start < current.interval.end; i++) {
+      const other = timed[i];
+      const start = other.interval.start;
+      const end = Math.min(current.interval.end, other.interval.end);
+
+      overlaps.push({
+        entryIds: [current.entry._id || '', other.entry._id || ''],
+        titles: [current.entry.title, other.entry.title],
+        start: new Date(start).toISOString(),
+        end: new Date(end).toISOString(),
+        durationMs: end - start,
+      });
+    }
+  });
+
+  return overlaps;
+}
+
+// Untracked stretches of at least MIN_GAP_MS inside [windowStart, windowEnd)
+export function findGaps(entries: TimedEntry[], timeZone: string, windowStart: Date, windowEnd: Date): TimeGap[] {
+  const gaps: TimeGap[] = [];
+  let cursor = windowStart.getTime();
+  const limit = windowEnd.getTime();
+
+  const addGap = (start: number, end: number) => {
+    if (end - start >= MIN_GAP_MS) {
+      gaps.push({
+        start: new Date(start).toISOString(),
+        end: new Date(end).toISOString(),
+        durationMs: end - start,
+      });
+    }
+  };
+
+  mergeIntervals(getIntervals(entries, timeZone)).forEach(interval => {
+    if (interval.end <= cursor || cursor >= limit) return;
+    addGap(cursor, Math.min(interval.start, limit));
+    cursor = Math.max(cursor, interval.end);
+  });
+
+  if (cursor < limit) addGap(cursor, limit);
+
+  return gaps;
+}
+
+// Overlaps across the whole day plus gaps within working hours. For the
+// current day, `now` stops gaps from being reported for time not yet reached.
+export function analyzeDay(
+  date: string,
+  entries: TimedEntry[],
+  timeZone: string,
+  workingHours: WorkingHours = DEFAULT_WORKING_HOURS,
+  now: Date = new Date()
+): DayAnalysis {
+  const totalMs = getUnionDuration(entries, timeZone);
+  const rawTotalMs = getRawDuration(entries, timeZone);
+  const windowStart = parseEntryTime(`${date}T${workingHours.start}`, timeZone);
+  const workdayEnd = parseEntryTime(`${date}T${workingHours.end}`, timeZone);
+  const windowEnd = workdayEnd.getTime() > now.getTime() ? now : workdayEnd;
+
+  return {
+    date,
+    totalMs,
+    rawTotalMs,
+    overlapMs: rawTotalMs - totalMs,
+    overlaps: findOverlaps(entries, timeZone),
+    gaps: findGaps(entries, timeZone, windowStart, windowEnd),
+    workingHours,
+  };
+}
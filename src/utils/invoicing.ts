@@ -0,0 +1,26 @@
+// Invoice options and formatting shared by the invoice routes, documents and
+// the dashboard.
+
+export const INVOICE_GROUPINGS = ['project', 'task'] as const;
+
+export type InvoiceGrouping = typeof INVOICE_GROUPINGS[number];
+
+export const INVOICE_GROUPING_LABELS: Record<InvoiceGrouping, string> = {
+  project: 'One line per project',
+  task: 'One line per task',
+};
+
+export const INVOICE_STATUSES = ['issued', 'void'] as const;
+
+export type InvoiceStatus = typeof INVOICE_STATUSES[number];
+
+// Numbers are sequential per user: INV-0001, INV-0002, ...
+export function formatInvoiceNumber(sequence: number): string {
+  const digits = String(sequence);
+  return `INV-${digits.length < 4 ? `0000${digits}`.slice(-4) : digits}`;
+}
+
+// Amounts are rounded per line, so the total is the sum of what's printed
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { matchesTitlePattern } from './patterns';
+
+describe('matchesTitlePattern', () => {
+  it('matches whole titles, ignoring case and surrounding spaces', () => {
+    expect(matchesTitlePattern('Lunch', ' lunch ')).toBe(true);
+    expect(matchesTitlePattern('Lunch', 'Lunch with Sam')).toBe(false);
+  });
+
+  it('treats * as any run of characters', () => {
+    expect(matchesTitlePattern('lunch*', 'Lunch with Sam')).toBe(true);
+    expect(matchesTitlePattern('*1:1*', 'Weekly 1:1 with Alex')).toBe(true);
+    expect(matchesTitlePattern('focus*time', 'Focus time')).toBe(true);
+    expect(matchesTitlePattern('focus*time', 'Focus block')).toBe(false);
+  });
+
+  it('accepts any of several alternatives', () => {
+    expect(matchesTitlePattern('lunch | focus time', 'Focus Time')).toBe(true);
+    expect(matchesTitlePattern('lunch | focus time', 'Standup')).toBe(false);
+    expect(matchesTitlePattern(' | ', 'Standup')).toBe(false);
+  });
+
+  it('treats regular expression syntax literally', () => {
+    expect(matchesTitlePattern('(a+)+$', 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa!')).toBe(false);
+    expect(matchesTitlePattern('(a+)+$', '(A+)+$')).toBe(true);
+  });
+
+  it('stays fast on patterns with many stars', () => {
+    const started = Date.now();
+    expect(matchesTitlePattern('*a*a*a*a*a*a*a*a*a*a*b', 'a'.repeat(1000))).toBe(false);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
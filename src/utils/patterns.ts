@@ -0,0 +1,38 @@
+// Calendar title filters: "|"-separated alternatives, each matched against the
+// whole title with "*" standing for any run of characters. Case-insensitive.
+// These are plain wildcards rather than regular expressions because they are
+// user-supplied and run unattended on every synced event.
+
+// Glob matching with backtracking to the last "*" only, so it never takes
+// more than pattern length times title length steps
+function matchesWildcard(pattern: string, text: string): boolean {
+  let p = 0;
+  let t = 0;
+  let star = -1;
+  let resume = 0;
+
+  while (t < text.length) {
+    if (p < pattern.length && pattern[p] === '*') {
+      star = p++;
+      resume = t;
+    } else if (p < pattern.length && pattern[p] === text[t]) {
+      p++;
+      t++;
+    } else if (star !== -1) {
+      p = star + 1;
+      t = ++resume;
+    } else {
+      return false;
+    }
+  }
+
+  while (p < pattern.length && pattern[p] === '*') p++;
+  return p === pattern.length;
+}
+
+export function matchesTitlePattern(pattern: string, title: string): boolean {
+  const text = title.trim().toLowerCase();
+  return pattern.toLowerCase().split('|')
+    .map((alternative) => alternative.trim())
+    .some((alternative) => alternative !== '' && matchesWildcard(alternative, text));
+}
@@ -0,0 +1,52 @@
+import { endOfISOWeek, endOfMonth, format, parseISO, startOfISOWeek, startOfMonth, subMonths, subWeeks } from 'date-fns';
+
+// Report options shared by the Reports tab and the reports API. Relative
+// ranges are resolved against "today" in the user's zone when the report
+// runs, so the same definition always covers the current period.
+
+export const REPORT_RANGES = ['this-week', 'last-week', 'this-month', 'last-month', 'custom'] as const;
+
+export type ReportRange = typeof REPORT_RANGES[number];
+
+export const REPORT_GROUPINGS = ['day', 'week', 'project', 'tag', 'type'] as const;
+
+export type ReportGrouping = typeof REPORT_GROUPINGS[number];
+
+export const REPORT_RANGE_LABELS: Record<ReportRange, string> = {
+  'this-week': 'This week',
+  'last-week': 'Last week',
+  'this-month': 'This month',
+  'last-month': 'Last month',
+  custom: 'Custom range',
+};
+
+export const REPORT_GROUPING_LABELS: Record<ReportGrouping, string> = {
+  day: 'Day',
+  week: 'Week',
+  project: 'Project',
+  tag: 'Tag',
+  type: 'Type',
+};
+
+// Weeks run Monday to Sunday. `custom` only passes its own dates through.
+export function resolveReportRange(
+  range: ReportRange,
+  today: string,
+  custom: { from?: string; to?: string } = {}
+): { from: string; to: string } | null {
+  const day = parseISO(today);
+  const toKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+  switch (range) {
+    case 'this-week':
+      return { from: toKey(startOfISOWeek(day)), to: toKey(endOfISOWeek(day)) };
+    case 'last-week':
+      return { from: toKey(startOfISOWeek(subWeeks(day, 1))), to: toKey(endOfISOWeek(subWeeks(day, 1))) };
+    case 'this-month':
+      return { from: toKey(startOfMonth(day)), to: toKey(endOfMonth(day)) };
+    case 'last-month':
+      return { from: toKey(startOfMonth(subMonths(day, 1))), to: toKey(endOfMonth(subMonths(day, 1))) };
+    default:
+      return custom.from && custom.to ? { from: custom.from, to: custom.to } : null;
+  }
+}
@@ -0,0 +1,28 @@
+// Approval states of a weekly timesheet. A week without a timesheet document
+// is a draft. Submitting locks the week's days against edits; approval keeps
+// them locked.
+//
+// - draft or rejected -> submitted: the user submits the week
+// - submitted -> draft: the user withdraws it
+// - submitted -> approved or rejected: an approver reviews it
+// - approved -> rejected: an approver reopens it for corrections
+
+export const TIMESHEET_STATUSES = ['draft', 'submitted', 'approved', 'rejected'] as const;
+
+export type TimesheetStatus = typeof TIMESHEET_STATUSES[number];
+
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+export function isLockedStatus(status: TimesheetStatus | null | undefined): boolean {
+  return status === 'submitted' || status === 'approved';
+}
+
+// Only drafts and rejected timesheets can be (re)submitted
+export function canSubmit(status: TimesheetStatus | null | undefined): boolean {
+  return !status || status === 'draft' || status === 'rejected';
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseEntryTime, toDateKey } from './timezone';
+
+describe('parseEntryTime', () => {
+  it('reads naive wall-clock times in the given zone', () => {
+    expect(parseEntryTime('2024-03-10T09:30', 'America/New_York').toISOString()).toBe('2024-03-10T13:30:00.000Z');
+  });
+
+  it('keeps explicit offsets', () => {
+    expect(parseEntryTime('2024-01-05T09:00:00-05:00', 'Europe/Berlin').toISOString()).toBe('2024-01-05T14:00:00.000Z');
+    expect(parseEntryTime('2024-01-05T09:00:00.000Z', 'Europe/Berlin').toISOString()).toBe('2024-01-05T09:00:00.000Z');
+    expect(parseEntryTime('2024-01-05T09:00+0530', 'UTC').toISOString()).toBe('2024-01-05T03:30:00.000Z');
+  });
+
+  it('starts all-day events at midnight in the given zone', () => {
+    const start = parseEntryTime('2024-01-05', 'America/New_York');
+    expect(start.toISOString()).toBe('2024-01-05T05:00:00.000Z');
+    expect(toDateKey(start, 'America/New_York')).toBe('2024-01-05');
+
+    const end = parseEntryTime('2024-01-06', 'Asia/Tokyo');
+    expect(end.toISOString()).toBe('2024-01-05T15:00:00.000Z');
+    expect(toDateKey(end, 'Asia/Tokyo')).toBe('2024-01-06');
+  });
+});
@@ -0,0 +1,80 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { formatInTimeZone, zonedTimeToUtc } from 'date-fns-tz';
+
+// Per-user time zone helpers. Day keys (YYYY-MM-DD) and day boundaries are
+// always computed in the user's IANA zone, never the server's or browser's.
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+// Matches a "Z" or "+05:30" style UTC offset after a time of day. The time
+// part is required so the "-05" of a date-only "2024-01-05" isn't taken for one.
+export const OFFSET_PATTERN = /T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}(:?\d{2})?)$/;
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getBrowserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+// Entry times either carry an offset (calendar events, timer entries) or are
+// naive "YYYY-MM-DDTHH:mm" wall-clock values, which belong to the user's zone.
+// Date-only values (all-day events) start at midnight in the user's zone.
+export function parseEntryTime(value: string, timeZone: string): Date {
+  if (OFFSET_PATTERN.test(value)) return parseISO(value);
+  return zonedTimeToUtc(DATE_ONLY_PATTERN.test(value) ? `${value}T00:00:00` : value, timeZone);
+}
+
+export function formatInZone(date: Date | string, timeZone: string, pattern: string): string {
+  const instant = typeof date === 'string' ? parseEntryTime(date, timeZone) : date;
+  return formatInTimeZone(instant, timeZone, pattern);
+}
+
+export function formatEntryTime(value: string, timeZone: string, pattern = 'h:mm a'): string {
+  return formatInZone(value, timeZone, pattern);
+}
+
+// Value for a datetime-local input showing the entry in the user's zone
+export function toDateTimeLocalValue(value: string, timeZone: string): string {
+  return formatInZone(value, timeZone, "yyyy-MM-dd'T'HH:mm");
+}
+
+// Converts a datetime-local input value into an absolute ISO string
+export function fromDateTimeLocalValue(value: string, timeZone: string): string {
+  return zonedTimeToUtc(value, timeZone).toISOString();
+}
+
+// The YYYY-MM-DD day an instant falls on in the given zone
+export function toDateKey(date: Date, timeZone: string): string {
+  return formatInTimeZone(date, timeZone, 'yyyy-MM-dd');
+}
+
+export function todayInTimeZone(timeZone: string): string {
+  return toDateKey(new Date(), timeZone);
+}
+
+// Shifts a YYYY-MM-DD key by whole calendar days (no time zone involved)
+export function addDaysToKey(date: string, amount: number): string {
+  return format(addDays(parseISO(date), amount), 'yyyy-MM-dd');
+}
+
+// [start, end) of a calendar day in the given zone. The end is the next day's
+// midnight rather than start + 24h, so DST days are 23 or 25 hours long.
+export function getDayBounds(date: string, timeZone: string): { start: Date; end: Date } {
+  return {
+    start: zonedTimeToUtc(`${date}T00:00:00`, timeZone),
+    end: zonedTimeToUtc(`${addDaysToKey(date, 1)}T00:00:00`, timeZone),
+  };
+}
@@ -0,0 +1,50 @@
+// Workspace roles and what each may do. Kept free of database code so the
+// dashboard can use the same rules to decide which controls to show.
+//
+// - owner: everything, including renaming and deleting the workspace
+// - admin: invites and removes members, manages the workspace's projects,
+//   approves timesheets
+// - member: tracks time on the workspace's projects
+// - viewer: read-only access to the team's time on the workspace's projects
+//
+// Team logs only ever include entries on workspace projects; the rest of a
+// member's log stays private.
+
+export const WORKSPACE_ROLES = ['owner', 'admin', 'member', 'viewer'] as const;
+
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+// Roles that can be given through an invitation or a role change
+export const ASSIGNABLE_ROLES = ['admin', 'member', 'viewer'] as const;
+
+export type WorkspacePermission =
+  | 'manageWorkspace'
+  | 'manageMembers'
+  | 'manageProjects'
+  | 'trackTime'
+  | 'viewTeamLogs'
+  | 'approveTimesheets';
+
+const PERMISSIONS: Record<WorkspacePermission, WorkspaceRole[]> = {
+  manageWorkspace: ['owner'],
+  manageMembers: ['owner', 'admin'],
+  manageProjects: ['owner', 'admin'],
+  trackTime: ['owner', 'admin', 'member'],
+  viewTeamLogs: ['owner', 'admin', 'viewer'],
+  approveTimesheets: ['owner', 'admin'],
+};
+
+export function can(role: WorkspaceRole | null | undefined, permission: WorkspacePermission): boolean {
+  return !!role && PERMISSIONS[permission].indexOf(role) !== -1;
+}
+
+export function rolesWith(permission: WorkspacePermission): WorkspaceRole[] {
+  return PERMISSIONS[permission];
+}
+
+// Admins manage members and viewers; only the owner manages admins
+export function canManageRole(actor: WorkspaceRole, target: WorkspaceRole): boolean {
+  if (target === 'owner') return false;
+  if (target === 'admin') return actor === 'owner';
+  return can(actor, 'manageMembers');
+}